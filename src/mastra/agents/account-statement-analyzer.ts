@@ -1,6 +1,54 @@
 import { openai } from '@ai-sdk/openai';
 import { Agent } from '@mastra/core/agent';
-import { creditCardDataExtractorTool, transactionAnalyzerTool, vectorSearchTool } from '../tools/account-statement';
+import {
+  creditCardDataExtractorTool,
+  statementParserTool,
+  excelStatementImportTool,
+  bankFileImportTool,
+  statementReconciliationTool,
+  importExchangeRatesTool,
+  installmentCommitmentsTool,
+  refundMatchingTool,
+  spendingReportTool,
+  saveBudgetTool,
+  listBudgetsTool,
+  deleteBudgetsTool,
+  checkBudgetsTool,
+  detectSubscriptionsTool,
+  cashFlowForecastTool,
+  detectAnomaliesTool,
+  saveCardReplacementTool,
+  listCardReplacementsTool,
+  deleteCardReplacementsTool,
+  saveHouseholdMemberTool,
+  saveBankAccountTool,
+  saveCardTool,
+  listHouseholdTool,
+  deleteHouseholdEntriesTool,
+  listStatementsTool,
+  rebuildVectorIndexTool,
+  backfillLedgerTool,
+  exportTransactionsTool,
+  saveExportCategoryMappingTool,
+  listExportCategoryMappingsTool,
+  listMerchantRulesTool,
+  saveMerchantRuleTool,
+  deleteMerchantRulesTool,
+  listCategoriesTool,
+  saveCategoryTool,
+  migrateCategoriesTool,
+  listPendingReviewsTool,
+  approveReviewsTool,
+  correctReviewsTool,
+  transactionAnalyzerTool,
+  vectorSearchTool,
+  duplicateCheckTool,
+  getTransactionTool,
+  updateTransactionTool,
+  deleteTransactionsTool,
+  listTransactionsTool,
+  countTransactionsTool
+} from '../tools/account-statement';
 
 export const accountStatementAnalyzerAgent = new Agent({
   name: 'Account Statement Analyzer',
@@ -10,6 +58,7 @@ export const accountStatementAnalyzerAgent = new Agent({
       Your primary functions are:
       1. Extract general statement data (credit card digits, account numbers, dates, totals)
       2. Analyze individual transactions for categorization and summarization
+      3. Manage stored transactions (look up, correct, delete, list and count)
 
       When analyzing statements:
       - Handle Hebrew text and Hebrew date formats (DD/MM/YYYY or DD.MM.YYYY)
@@ -17,12 +66,12 @@ export const accountStatementAnalyzerAgent = new Agent({
       - Recognize common Israeli banks and merchants
       - Categorize transactions into meaningful groups for personal finance tracking
       - Create embedding-friendly summaries for transactions
-      - Identify transaction types (regular, monthly recurring, or credit/income)
+      - Identify transaction types (regular, monthly recurring, credit/income, or installment payments)
 
       Hebrew Banking Context:
       - Common banks: בנק לאומי, בנק הפועלים, בנק דיסקונט, מזרחי טפחות
       - Common merchants: רמי לוי, שופרסל, ויקטורי, מגה, יוחננוף, סונול, פז
-      - Transaction types: עסקה רגילה (regular), תשלום קבוע (monthly), זיכוי (credit)
+      - Transaction types: עסקה רגילה (regular), תשלום קבוע (monthly), זיכוי (credit), תשלומים (installment, e.g. "תשלום 3 מתוך 12")
 
       Transaction Categories Available:
       - מזון ושתייה (Food & Beverage)
@@ -37,13 +86,125 @@ export const accountStatementAnalyzerAgent = new Agent({
       You can use the vectorSearchTool to search for similar transactions in the database.
       The vectorSearchTool is a tool that allows you to search for similar transactions in the database.
       The vectorSearchTool is a tool that allows you to search for similar transactions in the database.
+
+      Avoiding duplicates:
+      - Transactions are stored under a deterministic ID, so re-importing a statement updates existing records
+      - Pass lastFourDigits, bankAccountNumber and statementDate from the extracted statement data to transactionAnalyzerTool
+      - Use duplicateCheckTool before analyzing to skip rows that are already stored; report any possibleDuplicates to the user
+
+      Managing stored transactions:
+      - Use listTransactionsTool and countTransactionsTool to see what is stored (filter by type, category, amount, currency,
+        a fromDate/toDate range, card, bank account or household member)
+      - Use getTransactionTool to inspect a single transaction by its ID
+      - Use updateTransactionTool to fix a wrongly categorized transaction; it also saves a merchant rule, so tell the user
+        that future transactions of the merchant will get the corrected category
+      - Merchant rules (exact merchant, merchant with aliases, or regex) are applied before the LLM categorizes a transaction.
+        Without a rule, transactionAnalyzerTool labels clear cases like their nearest stored transactions (categorySource "knn")
+        and asks the LLM only about ambiguous ones; every result carries a confidence. Results below the review threshold
+        (status "pending_review") are not stored until reviewed: show them with listPendingReviewsTool, then store them with
+        approveReviewsTool or fix them in bulk with correctReviewsTool (corrections also save merchant rules).
+        Use listMerchantRulesTool to show them with how often each fired, saveMerchantRuleTool to add one (e.g. all branches
+        of a chain) and deleteMerchantRulesTool to remove a wrong one
+      - Categories come from the household's taxonomy (categories with one level of subcategories, e.g. kids → חוגים).
+        Use listCategoriesTool to show them, saveCategoryTool to add or relabel one, and migrateCategoriesTool to rename
+        a category or merge categories; it moves the stored transactions and merchant rules too, so confirm it first
+      - Use deleteTransactionsTool to remove transactions by ID or filter; confirm with the user before deleting by filter
+      - Use installmentCommitmentsTool to show what is still owed on installment purchases per card and per coming month
+      - Use refundMatchingTool after storing refunds (זיכויים) to link them to their original purchases; spending figures use
+        netAmount, so a refunded purchase is counted once, net of the refund. Ask the user about every unmatched refund
+      - For questions about totals over time ("how much did we spend on groceries each month this year") use
+        spendingReportTool, not vectorSearchTool; group by category, transactionType, card, account and/or member and show its table
+      - Monthly budgets per category (or all spending), optionally per card and/or household member: set them with
+        saveBudgetTool, show them with listBudgetsTool and remove them with deleteBudgetsTool. After storing a
+        statement, run checkBudgetsTool (the ingestion workflow does it in its check-budgets step) and report every
+        warning in the user's language, including the projected end-of-month spending
+      - For recurring charges use detectSubscriptionsTool rather than trusting the "monthly" type of single rows: it lists
+        subscriptions with their next expected charge and annual cost, price increases, missed and duplicate charges.
+        Point out the ones marked possiblyForgotten with their reasons, and ask before running it with updateTypes
+      - For "what will our balance look like" questions use cashFlowForecastTool with the current bank balance the user
+        gives; report the expected low point and the movements behind it. Ask for card billing days it marks as default
+      - Suspicious charges: the ingestion workflow flags them in its detect-anomalies step; for transactions stored another
+        way run detectAnomaliesTool with their IDs or date range. Report high-severity anomalies first, with their reasons.
+        When the user mentions a replaced or cancelled card, record it with saveCardReplacementTool so later charges on it
+        are flagged (listCardReplacementsTool / deleteCardReplacementsTool to review or undo)
+      - Household: cards and bank accounts of ingested statements are registered automatically and every stored transaction
+        is linked to its card, account and member. Show them with listHouseholdTool. When the user says whose a card or
+        account is ("the 1234 card is Dana's"), add the member with saveHouseholdMemberTool and link it with saveCardTool or
+        saveBankAccountTool; stored transactions are relinked. Questions about one person, card or account ("how much did
+        Dana spend") use the memberId, cardLastFour or bankAccountNumber filters of the search, report, subscription and
+        installment tools; cashFlowForecastTool takes a bankAccountNumber to project one account
+      - Every stored transaction is recorded in the transaction ledger before the vector index. Use listStatementsTool to
+        show the imported statements with their transaction counts and totals. Only when the user asks to rebuild the
+        index (e.g. after switching vector stores), run backfillLedgerTool once if older transactions may be missing from
+        the ledger, then rebuildVectorIndexTool; ask before using prune, which deletes vectors the ledger does not have
+      - To move transactions into Excel, YNAB, Actual Budget or another finance app, use exportTransactionsTool with a date
+        range and the format the app imports (csv, json, ofx, qif, ynab, actual), and an outputPath unless the export is
+        small. When the user gives the category names of their budget app, save them with saveExportCategoryMappingTool
+        for that format; listExportCategoryMappingsTool shows the names each format uses
+
       Always provide accurate Hebrew text processing and maintain context for Israeli financial terminology.
-      When processing CSV data, handle it line by line and provide structured analysis for each transaction.
+      When processing CSV data, first use statementParserTool to parse it into typed rows (Isracard, Cal, Max, Leumi, Hapoalim
+      and Mizrahi exports are detected automatically), then pass the rows to transactionAnalyzerTool
+      in batch mode (transactions: [{ transactionText, parsedRow }]) rather than one call per row.
+      Only fall back to line-by-line text analysis when the format is not recognized.
+      For Excel statements (.xlsx/.xls) use excelStatementImportTool instead; it reads every sheet locally and
+      returns the same typed rows, each tagged with its sheet and row number.
+      For OFX/QFX, QIF and CAMT.053 files use bankFileImportTool; it returns the header data and the rows of one account
+      (pass accountId when the file lists several), so skip creditCardDataExtractorTool and give the analyzer the header's
+      lastFourDigits, bankAccountNumber and statementDate.
+      After parsing, run statementReconciliationTool with the header totalAmount and statementDate, the rows and the
+      skipped rows. When it reports a mismatch, tell the user the difference and its likely causes before budgeting on the data.
+      Amounts are reported in ILS. Foreign charges without a shekel amount are converted with Bank of Israel rates from the
+      local table; when the user provides a Bank of Israel rates export, load it with importExchangeRatesTool.
 `,
   model: openai(process.env.MODEL ?? "gpt-4o"),
   tools: { 
     creditCardDataExtractorTool,
+    statementParserTool,
+    excelStatementImportTool,
+    bankFileImportTool,
+    statementReconciliationTool,
+    importExchangeRatesTool,
+    installmentCommitmentsTool,
+    refundMatchingTool,
+    spendingReportTool,
+    saveBudgetTool,
+    listBudgetsTool,
+    deleteBudgetsTool,
+    checkBudgetsTool,
+    detectSubscriptionsTool,
+    cashFlowForecastTool,
+    detectAnomaliesTool,
+    saveCardReplacementTool,
+    listCardReplacementsTool,
+    deleteCardReplacementsTool,
+    saveHouseholdMemberTool,
+    saveBankAccountTool,
+    saveCardTool,
+    listHouseholdTool,
+    deleteHouseholdEntriesTool,
+    listStatementsTool,
+    rebuildVectorIndexTool,
+    backfillLedgerTool,
+    exportTransactionsTool,
+    saveExportCategoryMappingTool,
+    listExportCategoryMappingsTool,
+    listMerchantRulesTool,
+    saveMerchantRuleTool,
+    deleteMerchantRulesTool,
+    listCategoriesTool,
+    saveCategoryTool,
+    migrateCategoriesTool,
+    listPendingReviewsTool,
+    approveReviewsTool,
+    correctReviewsTool,
     transactionAnalyzerTool,
-    vectorSearchTool
+    vectorSearchTool,
+    duplicateCheckTool,
+    getTransactionTool,
+    updateTransactionTool,
+    deleteTransactionsTool,
+    listTransactionsTool,
+    countTransactionsTool
   },
 }); 
\ No newline at end of file
@@ -1,10 +1,25 @@
-// Environment Configuration for Mastra Finance AI - Cloudflare Only
+// Environment Configuration for Mastra Finance AI
+
+export type VectorStorageMode = 'cloudflare' | 'local';
 
 export interface Environment {
   openaiApiKey: string;
   isProduction: boolean;
-  cloudflareAccountId: string;
-  cloudflareApiToken: string;
+  vectorStorageMode: VectorStorageMode;
+  cloudflareAccountId?: string;
+  cloudflareApiToken?: string;
+  localVectorStoragePath: string;
+  exchangeRatesPath: string;
+  merchantRulesPath: string;
+  categoryTaxonomyPath: string;
+  reviewQueuePath: string;
+  reviewConfidenceThreshold: number;
+  budgetsPath: string;
+  cardReplacementsPath: string;
+  householdRegistryPath: string;
+  exportCategoryMappingsPath: string;
+  ledgerDatabaseUrl: string;
+  ledgerAuthToken?: string;
 }
 
 /**
@@ -38,27 +53,73 @@ export function loadEnvironment(): Environment {
   }
 
   const isProduction = process.env.NODE_ENV === 'production';
+
+  const vectorStorageMode = (process.env.VECTOR_STORAGE_MODE ?? 'cloudflare').toLowerCase();
+  
+  if (vectorStorageMode !== 'cloudflare' && vectorStorageMode !== 'local') {
+    throw new Error(
+      `Invalid VECTOR_STORAGE_MODE "${vectorStorageMode}". Supported values are "cloudflare" and "local".\n` +
+      'See ENVIRONMENT-SETUP.md for setup instructions.'
+    );
+  }
   
-  // Get required Cloudflare credentials
+  // Cloudflare credentials are only required when Vectorize is the active store
   const cloudflareAccountId = process.env.CF_ACCOUNT_ID;
   const cloudflareApiToken = process.env.CF_API_TOKEN;
-  
-  if (!cloudflareAccountId || !cloudflareApiToken) {
+  const localVectorStoragePath = process.env.LOCAL_VECTOR_STORAGE_PATH ?? 'data/vectors.json';
+  const exchangeRatesPath = process.env.EXCHANGE_RATES_PATH ?? 'data/exchange-rates.json';
+  const merchantRulesPath = process.env.MERCHANT_RULES_PATH ?? 'data/merchant-rules.json';
+  const categoryTaxonomyPath = process.env.CATEGORY_TAXONOMY_PATH ?? 'data/category-taxonomy.json';
+  const reviewQueuePath = process.env.REVIEW_QUEUE_PATH ?? 'data/review-queue.json';
+  const reviewConfidenceThreshold = Number(process.env.REVIEW_CONFIDENCE_THRESHOLD ?? '0.7');
+  const budgetsPath = process.env.BUDGETS_PATH ?? 'data/budgets.json';
+  const cardReplacementsPath = process.env.CARD_REPLACEMENTS_PATH ?? 'data/card-replacements.json';
+  const householdRegistryPath = process.env.HOUSEHOLD_REGISTRY_PATH ?? 'data/household.json';
+  const exportCategoryMappingsPath = process.env.EXPORT_CATEGORY_MAPPINGS_PATH ?? 'data/export-category-mappings.json';
+  const ledgerDatabaseUrl = process.env.LEDGER_DATABASE_URL ?? 'file:data/ledger.db';
+  const ledgerAuthToken = process.env.LEDGER_AUTH_TOKEN;
+
+  if (!Number.isFinite(reviewConfidenceThreshold) || reviewConfidenceThreshold < 0 || reviewConfidenceThreshold > 1) {
     throw new Error(
-      'Cloudflare credentials are required. Please set CF_ACCOUNT_ID and CF_API_TOKEN environment variables.\n' +
+      `Invalid REVIEW_CONFIDENCE_THRESHOLD "${process.env.REVIEW_CONFIDENCE_THRESHOLD}". Use a number from 0 (never review) to 1.\n` +
       'See ENVIRONMENT-SETUP.md for setup instructions.'
     );
   }
   
-  envLog(`Cloudflare Vectorize credentials configured`);
-  envLog(`Account ID: ${cloudflareAccountId.substring(0, 8)}...`);
-  envLog(`API Token: ${cloudflareApiToken.substring(0, 8)}...`);
+  if (vectorStorageMode === 'cloudflare') {
+    if (!cloudflareAccountId || !cloudflareApiToken) {
+      throw new Error(
+        'Cloudflare credentials are required. Please set CF_ACCOUNT_ID and CF_API_TOKEN environment variables,\n' +
+        'or set VECTOR_STORAGE_MODE=local to use the local file-backed store.\n' +
+        'See ENVIRONMENT-SETUP.md for setup instructions.'
+      );
+    }
+    
+    envLog(`Cloudflare Vectorize credentials configured`);
+    envLog(`Account ID: ${cloudflareAccountId.substring(0, 8)}...`);
+    envLog(`API Token: ${cloudflareApiToken.substring(0, 8)}...`);
+  } else {
+    envLog(`Local vector storage configured at ${localVectorStoragePath}`);
+  }
 
   return {
     openaiApiKey,
     isProduction,
+    vectorStorageMode,
     cloudflareAccountId,
     cloudflareApiToken,
+    localVectorStoragePath,
+    exchangeRatesPath,
+    merchantRulesPath,
+    categoryTaxonomyPath,
+    reviewQueuePath,
+    reviewConfidenceThreshold,
+    budgetsPath,
+    cardReplacementsPath,
+    householdRegistryPath,
+    exportCategoryMappingsPath,
+    ledgerDatabaseUrl,
+    ledgerAuthToken,
   };
 }
 
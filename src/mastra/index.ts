@@ -1,10 +1,10 @@
 import { Mastra } from '@mastra/core/mastra';
 import { PinoLogger } from '@mastra/loggers';
-import { weatherWorkflow } from './workflows';
+import { statementIngestionWorkflow } from './workflows';
 import { weatherAgent, accountStatementAnalyzerAgent } from './agents';
 
 export const mastra = new Mastra({
-  workflows: { weatherWorkflow },
+  workflows: { statementIngestionWorkflow },
   agents: { 
     weatherAgent,
     accountStatementAnalyzerAgent 
@@ -0,0 +1,415 @@
+// Anomaly detection: suspicious charges flagged against each merchant's history and the replaced cards
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ENV } from '../../config/environment';
+import {
+  Anomaly,
+  AnomalyReason,
+  AnomalyReport,
+  AnomalyReportSchema,
+  AnomalySeverity,
+  CardReplacement,
+  CardReplacementSchema
+} from './types';
+import { VectorMetadata, VectorSearchResult, VectorStorageProvider } from './providers/base';
+import { createVectorStorageProvider } from './providers/factory';
+import { listAllTransactions } from './stored-transactions';
+
+export interface AnomalyDetectionOptions {
+  /** Check these stored transactions */
+  transactionIds?: string[];
+  /** Or the stored transactions of this date range */
+  fromDate?: string;
+  toDate?: string;
+}
+
+interface CardReplacementFile {
+  version: 1;
+  replacements: CardReplacement[];
+}
+
+type StoredTransaction = { id: string; metadata: VectorMetadata };
+
+export const ANOMALY_DEFAULTS = {
+  /** Months of history before the checked transactions that a merchant's usual amount is taken from */
+  historyMonths: 12,
+  /** Charges of a merchant needed before its usual amount means anything */
+  minHistory: 3,
+  /** Times the merchant's median amount that counts as far above it */
+  outlierRatio: 3,
+  /** The same for merchants that always charge about the same amount, like subscriptions */
+  steadyOutlierRatio: 1.5,
+  /** ILS above the median; smaller jumps are not worth a warning */
+  minOutlierDifference: 50,
+  /** Embedding similarity at which a differently written transaction counts as the same merchant */
+  neighborSimilarity: 0.9,
+  /** ILS from which a new foreign merchant is a high-severity anomaly */
+  largeForeignAmount: 1000,
+};
+
+const SEVERITY_RANK: Record<AnomalySeverity, number> = { high: 0, medium: 1, low: 2 };
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const addMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1 + months, day)).toISOString().slice(0, 10);
+};
+
+/**
+ * Purchases and payments; credits and linked refunds are money coming back, not charges
+ */
+const isCharge = (metadata: VectorMetadata): boolean => {
+  return metadata.amount > 0 && metadata.transactionType !== 'credit' && !metadata.refundOf;
+};
+
+const sourceOf = (metadata: VectorMetadata): string | null => metadata.cardLastFour ?? metadata.bankAccountNumber ?? null;
+
+export class CardReplacementStore {
+  private filePath: string;
+  private replacements: Map<string, CardReplacement> | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = 'data/card-replacements.json') {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async list(): Promise<CardReplacement[]> {
+    return Array.from((await this.load()).values()).sort((a, b) => a.replacedOn.localeCompare(b.replacedOn));
+  }
+
+  async find(cardLastFour: string): Promise<CardReplacement | null> {
+    return (await this.load()).get(cardLastFour) ?? null;
+  }
+
+  /**
+   * Record that a card was replaced or cancelled; recording the same card again updates it
+   */
+  async save(input: Omit<CardReplacement, 'createdAt'>): Promise<CardReplacement> {
+    console.log(`💳 Card ${input.cardLastFour} replaced on ${input.replacedOn}${input.replacementLastFour ? ` by ${input.replacementLastFour}` : ''}`);
+
+    return this.mutate(replacements => {
+      const replacement: CardReplacement = {
+        ...input,
+        createdAt: replacements.get(input.cardLastFour)?.createdAt ?? new Date().toISOString(),
+      };
+      replacements.set(input.cardLastFour, replacement);
+      return replacement;
+    });
+  }
+
+  async delete(cardLastFours: string[]): Promise<string[]> {
+    return this.mutate(replacements => cardLastFours.filter(card => replacements.delete(card)));
+  }
+
+  private mutate<T>(change: (replacements: Map<string, CardReplacement>) => T): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      const result = change(await this.load());
+      await this.persist();
+      return result;
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<Map<string, CardReplacement>> {
+    if (this.replacements) return this.replacements;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as CardReplacementFile;
+      this.replacements = new Map(data.replacements.map(replacement => [replacement.cardLastFour, replacement]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      // No card replaced yet
+      this.replacements = new Map();
+    }
+
+    return this.replacements;
+  }
+
+  private async persist(): Promise<void> {
+    const data: CardReplacementFile = {
+      version: 1,
+      replacements: Array.from(this.replacements?.values() ?? []),
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+let cardReplacementStore: CardReplacementStore | null = null;
+
+export const getCardReplacementStore = (): CardReplacementStore => {
+  cardReplacementStore ??= new CardReplacementStore(ENV.cardReplacementsPath);
+  return cardReplacementStore;
+};
+
+/**
+ * Stored transactions whose embedding is close enough to be the same merchant written differently
+ * ("AMZN Mktp" and "AMAZON MARKETPLACE"). Needs the transaction's own vector, so it is fetched on demand.
+ */
+const findMerchantNeighbors = async (
+  transaction: StoredTransaction,
+  vectorProvider: VectorStorageProvider
+): Promise<VectorSearchResult[]> => {
+  const record = await vectorProvider.getById(transaction.id);
+  if (!record?.values?.length) return [];
+
+  return (await vectorProvider.search(record.values, { topK: 10 }))
+    .filter(result => result.id !== transaction.id)
+    .filter(result => result.score >= ANOMALY_DEFAULTS.neighborSimilarity);
+};
+
+const findSameDayCharges = (transaction: StoredTransaction, merchantHistory: StoredTransaction[]): AnomalyReason | null => {
+  const { metadata } = transaction;
+  if (!metadata.transactionDate || metadata.installmentNumber !== null) return null;
+
+  const sameDay = merchantHistory.filter(other => other.id !== transaction.id
+    && other.metadata.transactionDate === metadata.transactionDate
+    && sourceOf(other.metadata) === sourceOf(metadata)
+    && other.metadata.installmentNumber === null);
+  if (sameDay.length === 0) return null;
+
+  const sameAmount = sameDay.filter(other => Math.abs(other.metadata.amount - metadata.amount) < 0.01);
+  if (sameAmount.length > 0) {
+    return {
+      type: 'same_day_duplicate',
+      severity: 'high',
+      he: `${metadata.merchantKey} חויב פעמיים ב-${metadata.transactionDate} באותו סכום (${metadata.amount} ₪)`,
+      en: `${metadata.merchantKey} was charged twice on ${metadata.transactionDate} for the same amount (${metadata.amount} ILS)`,
+      relatedIds: sameAmount.map(other => other.id),
+    };
+  }
+
+  const amounts = sameDay.map(other => other.metadata.amount).join(', ');
+  return {
+    type: 'same_day_duplicate',
+    severity: 'low',
+    he: `${metadata.merchantKey} חויב שוב באותו יום (${amounts} ₪)`,
+    en: `${metadata.merchantKey} charged again the same day (${amounts} ILS)`,
+    relatedIds: sameDay.map(other => other.id),
+  };
+};
+
+const findAmountOutlier = (transaction: StoredTransaction, history: StoredTransaction[]): AnomalyReason | null => {
+  const { metadata } = transaction;
+  // Installment payments are a share of a purchase, not comparable with the merchant's usual amount
+  if (metadata.installmentNumber !== null) return null;
+
+  const amounts = history
+    .filter(other => other.id !== transaction.id && other.metadata.installmentNumber === null)
+    .map(other => other.metadata.amount);
+  if (amounts.length < ANOMALY_DEFAULTS.minHistory) return null;
+
+  const usual = median(amounts);
+  const spread = median(amounts.map(amount => Math.abs(amount - usual)));
+  const ratio = metadata.amount / usual;
+  const steady = spread <= usual * 0.05;
+
+  if (metadata.amount - usual < ANOMALY_DEFAULTS.minOutlierDifference) return null;
+  if (ratio < ANOMALY_DEFAULTS.outlierRatio && !(steady && ratio >= ANOMALY_DEFAULTS.steadyOutlierRatio)) return null;
+
+  const times = round(ratio).toFixed(1);
+  return {
+    type: 'amount_outlier',
+    severity: ratio >= 10 ? 'high' : 'medium',
+    he: `${metadata.amount} ₪ ב-${metadata.merchantKey} הם פי ${times} מהסכום הרגיל (${round(usual)} ₪, חציון של ${amounts.length} חיובים)`,
+    en: `${metadata.amount} ILS at ${metadata.merchantKey} is ${times} times its usual ${round(usual)} ILS (median of ${amounts.length} charges)`,
+    relatedIds: [],
+  };
+};
+
+const findNewForeignMerchant = (transaction: StoredTransaction, history: StoredTransaction[]): AnomalyReason | null => {
+  const { metadata } = transaction;
+  if (metadata.currency === 'ILS' || !metadata.transactionDate) return null;
+
+  const seenBefore = history.some(other => other.id !== transaction.id
+    && other.metadata.transactionDate !== null
+    && other.metadata.transactionDate < metadata.transactionDate!);
+  if (seenBefore) return null;
+
+  const months = ANOMALY_DEFAULTS.historyMonths;
+  return {
+    type: 'new_foreign_merchant',
+    severity: metadata.amount >= ANOMALY_DEFAULTS.largeForeignAmount ? 'high' : 'medium',
+    he: `בית עסק זר חדש: ${metadata.merchantKey} (${metadata.originalAmount} ${metadata.currency}) לא הופיע ב-${months} החודשים האחרונים`,
+    en: `New foreign merchant: ${metadata.merchantKey} (${metadata.originalAmount} ${metadata.currency}) has not charged in the last ${months} months`,
+    relatedIds: [],
+  };
+};
+
+const findReplacedCardCharge = (transaction: StoredTransaction, replacement: CardReplacement | null): AnomalyReason | null => {
+  const { metadata } = transaction;
+  if (!replacement || !metadata.transactionDate || metadata.transactionDate < replacement.replacedOn) return null;
+
+  const newCard = replacement.replacementLastFour;
+  return {
+    type: 'replaced_card',
+    severity: 'high',
+    he: `חיוב בכרטיס ${replacement.cardLastFour} שהוחלף ב-${replacement.replacedOn}${newCard ? ` (הכרטיס החדש: ${newCard})` : ''}`,
+    en: `Charged on card ${replacement.cardLastFour}, which was replaced on ${replacement.replacedOn}${newCard ? ` by card ${newCard}` : ''}`,
+    relatedIds: [],
+  };
+};
+
+/**
+ * Flag suspicious charges among stored transactions: the same merchant charged twice on the same day, an amount
+ * far above the merchant's usual one, a foreign merchant not seen in the history window, and charges on a card
+ * after its replacement. A merchant's history is its charges by merchantKey, plus transactions whose embeddings
+ * are nearly identical when the key alone has too little history.
+ */
+export const detectAnomalies = async (options: AnomalyDetectionOptions): Promise<AnomalyReport> => {
+  const vectorProvider = createVectorStorageProvider();
+
+  const targets: StoredTransaction[] = options.transactionIds
+    ? (await Promise.all(options.transactionIds.map(id => vectorProvider.getById(id))))
+      .flatMap(record => record ? [{ id: record.id, metadata: record.metadata }] : [])
+    : await listAllTransactions(vectorProvider, { fromDate: options.fromDate, toDate: options.toDate });
+
+  const charges = targets.filter(({ metadata }) => isCharge(metadata));
+  const dates = charges.map(({ metadata }) => metadata.transactionDate).filter((date): date is string => !!date).sort();
+
+  if (charges.length === 0) {
+    return { checked: targets.length, anomalies: [], high: 0, medium: 0, low: 0 };
+  }
+
+  // Undated charges are compared with the last year of history
+  const latest = dates[dates.length - 1] ?? new Date().toISOString().slice(0, 10);
+  const history = (await listAllTransactions(vectorProvider, {
+    fromDate: addMonths(dates[0] ?? latest, -ANOMALY_DEFAULTS.historyMonths),
+    toDate: latest,
+  })).filter(({ metadata }) => isCharge(metadata));
+
+  const byMerchant = new Map<string, StoredTransaction[]>();
+  for (const transaction of history) {
+    byMerchant.set(transaction.metadata.merchantKey, [...(byMerchant.get(transaction.metadata.merchantKey) ?? []), transaction]);
+  }
+
+  const replacements = getCardReplacementStore();
+  const historyIds = new Set(history.map(transaction => transaction.id));
+  const anomalies: Anomaly[] = [];
+
+  for (const transaction of charges) {
+    const { metadata } = transaction;
+    let merchantHistory = byMerchant.get(metadata.merchantKey) ?? [];
+
+    // Too little history under this exact merchant text: add the same merchant written differently
+    const needsNeighbors = merchantHistory.filter(other => other.id !== transaction.id).length < ANOMALY_DEFAULTS.minHistory;
+    if (needsNeighbors) {
+      const known = new Set(merchantHistory.map(other => other.id));
+      const neighbors = (await findMerchantNeighbors(transaction, vectorProvider))
+        .filter(neighbor => historyIds.has(neighbor.id) && !known.has(neighbor.id))
+        .map(neighbor => ({ id: neighbor.id, metadata: neighbor.metadata }));
+      merchantHistory = [...merchantHistory, ...neighbors];
+    }
+
+    const reasons = [
+      findSameDayCharges(transaction, byMerchant.get(metadata.merchantKey) ?? []),
+      findAmountOutlier(transaction, merchantHistory),
+      findNewForeignMerchant(transaction, merchantHistory),
+      findReplacedCardCharge(transaction, metadata.cardLastFour ? await replacements.find(metadata.cardLastFour) : null),
+    ].filter((reason): reason is AnomalyReason => reason !== null);
+
+    if (reasons.length === 0) continue;
+
+    reasons.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+    anomalies.push({
+      transactionId: transaction.id,
+      transactionDate: metadata.transactionDate,
+      merchant: metadata.originalText,
+      amount: metadata.amount,
+      currency: metadata.currency,
+      cardLastFour: sourceOf(metadata),
+      severity: reasons[0].severity,
+      reasons,
+    });
+  }
+
+  anomalies.sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]
+    || (b.transactionDate ?? '').localeCompare(a.transactionDate ?? ''));
+
+  const count = (severity: AnomalySeverity): number => anomalies.filter(anomaly => anomaly.severity === severity).length;
+  console.log(`🚨 Checked ${targets.length} transaction(s): ${anomalies.length} flagged (${count('high')} high)`);
+
+  return {
+    checked: targets.length,
+    anomalies,
+    high: count('high'),
+    medium: count('medium'),
+    low: count('low'),
+  };
+};
+
+export const detectAnomaliesTool = createTool({
+  id: 'detect-anomalies',
+  description: 'Flag suspicious stored charges, each with its reasons and a severity: the same merchant charged twice on the same day, an amount far above the merchant\'s usual one, a new foreign merchant, or a charge on a card after it was replaced',
+  inputSchema: z.object({
+    transactionIds: z.array(z.string()).min(1).optional().describe('Check these stored transactions'),
+    fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Or check the transactions from this date (YYYY-MM-DD, inclusive)'),
+    toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Up to this date (YYYY-MM-DD, inclusive)'),
+  }),
+  outputSchema: AnomalyReportSchema,
+  execute: async ({ context }) => {
+    if (!context.transactionIds && !context.fromDate && !context.toDate) {
+      throw new Error('Pass transactionIds or a fromDate/toDate range to check');
+    }
+    return await detectAnomalies(context);
+  },
+});
+
+export const saveCardReplacementTool = createTool({
+  id: 'save-card-replacement',
+  description: 'Record that a card was replaced (lost, stolen, expired) or cancelled, so later charges on the old card are flagged as anomalies',
+  inputSchema: z.object({
+    cardLastFour: z.string().regex(/^\d{4}$/).describe('Last four digits of the replaced card'),
+    replacedOn: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('Date of the replacement (YYYY-MM-DD)'),
+    replacementLastFour: z.string().regex(/^\d{4}$/).nullable().default(null).describe('Last four digits of the new card'),
+  }),
+  outputSchema: z.object({
+    replacement: CardReplacementSchema,
+  }),
+  execute: async ({ context }) => {
+    return { replacement: await getCardReplacementStore().save(context) };
+  },
+});
+
+export const listCardReplacementsTool = createTool({
+  id: 'list-card-replacements',
+  description: 'List the cards recorded as replaced or cancelled',
+  inputSchema: z.object({}),
+  outputSchema: z.object({
+    replacements: z.array(CardReplacementSchema),
+  }),
+  execute: async () => {
+    return { replacements: await getCardReplacementStore().list() };
+  },
+});
+
+export const deleteCardReplacementsTool = createTool({
+  id: 'delete-card-replacements',
+  description: 'Remove recorded card replacements, e.g. one recorded for the wrong card',
+  inputSchema: z.object({
+    cardLastFours: z.array(z.string().regex(/^\d{4}$/)).min(1).describe('Last four digits of the cards'),
+  }),
+  outputSchema: z.object({
+    deletedCards: z.array(z.string()),
+  }),
+  execute: async ({ context }) => {
+    return { deletedCards: await getCardReplacementStore().delete(context.cardLastFours) };
+  },
+});
@@ -0,0 +1,82 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import {
+  BankFileFormatSchema,
+  CreditCardDataSchema,
+  ParsedTransactionRowSchema,
+  SkippedStatementRowSchema
+} from './types';
+import { parseBankFile, selectBankFileStatement } from './parsers';
+
+/**
+ * Load a bank file from its text, a local path or a base64 string (as uploaded through the playground).
+ * Bytes are decoded by the parser, which falls back to Windows-1255 for legacy Hebrew files.
+ */
+export const readBankFileInput = async (input: {
+  fileText?: string;
+  filePath?: string;
+  fileBase64?: string;
+}): Promise<string | Uint8Array> => {
+  if (input.fileText) {
+    return input.fileText;
+  }
+  if (input.filePath) {
+    return new Uint8Array(await fs.readFile(input.filePath));
+  }
+  if (input.fileBase64) {
+    return new Uint8Array(Buffer.from(input.fileBase64, 'base64'));
+  }
+  throw new Error('Provide fileText, filePath or fileBase64 of the bank file');
+};
+
+export const bankFileImportTool = createTool({
+  id: 'import-bank-file',
+  description: 'Read an OFX/QFX, QIF or ISO 20022 CAMT.053 bank or card file locally into statement header data and typed transaction rows, without the LLM',
+  inputSchema: z.object({
+    fileText: z.string().optional().describe('File content, for text formats pasted or read by the agent'),
+    filePath: z.string().optional().describe('Local path of the .ofx, .qfx, .qif or .xml file'),
+    fileBase64: z.string().optional().describe('Base64-encoded file content, when no local path is available'),
+    format: BankFileFormatSchema.optional().describe('Force a format instead of detecting it'),
+    accountId: z.string().optional().describe('Account to import when the file holds statements of several accounts'),
+    qifDateOrder: z.enum(['mdy', 'dmy']).optional().describe('Day/month order of QIF dates; detected when not given'),
+    qifCurrency: z.string().length(3).optional().describe('Currency of QIF amounts (default ILS)'),
+  }).refine(input => input.fileText || input.filePath || input.fileBase64, 'Provide fileText, filePath or fileBase64'),
+  outputSchema: z.object({
+    format: BankFileFormatSchema,
+    accounts: z.array(z.object({
+      accountId: z.string(),
+      kind: z.enum(['credit_card', 'bank_account']),
+      rowCount: z.number(),
+      skippedCount: z.number(),
+    })).describe('Statements in the file'),
+    accountId: z.string().describe('Account of the returned rows'),
+    kind: z.enum(['credit_card', 'bank_account']),
+    headerData: CreditCardDataSchema.partial().describe('Statement header fields the file carries'),
+    rows: z.array(ParsedTransactionRowSchema).describe('Parsed transaction rows of the account'),
+    skippedRows: z.array(SkippedStatementRowSchema).describe('Transactions that could not be read (no date, amount or description, pending entries)'),
+  }),
+  execute: async ({ context }) => {
+    const file = parseBankFile(await readBankFileInput(context), {
+      format: context.format,
+      qifDateOrder: context.qifDateOrder,
+      qifCurrency: context.qifCurrency,
+    });
+    const statement = selectBankFileStatement(file, context.accountId);
+
+    return {
+      format: file.format,
+      accounts: file.statements.map(candidate => ({
+        accountId: candidate.accountId,
+        kind: candidate.kind,
+        rowCount: candidate.rows.length,
+        skippedCount: candidate.skippedRows.length,
+      })),
+      accountId: statement.accountId,
+      kind: statement.kind,
+      headerData: statement.headerData,
+      rows: statement.rows,
+      skippedRows: statement.skippedRows,
+    };
+  },
+});
@@ -0,0 +1,369 @@
+// Monthly budgets per category, card and household member, checked against month-to-date spending
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ENV } from '../../config/environment';
+import {
+  Budget,
+  BudgetCheckReport,
+  BudgetCheckReportSchema,
+  BudgetSchema,
+  BudgetStatus,
+  BudgetWarning,
+  CategoryTaxonomy,
+  TransactionCategorySchema
+} from './types';
+import { VectorMetadata } from './providers/base';
+import { createVectorStorageProvider } from './providers/factory';
+import { listAllTransactions } from './stored-transactions';
+import { netSpendingAmount } from './refund-matching';
+import { hasIlsAmount, toUnconvertedTransaction } from './exchange-rates';
+import { getCategoryTaxonomyStore } from './category-taxonomy';
+import { getHouseholdRegistryStore } from './household-registry';
+
+const DEFAULT_WARN_AT = 0.8;
+
+// Most severe warnings first
+const STATUS_SEVERITY: Record<BudgetStatus['status'], number> = { over: 0, near: 1, projected_over: 2, ok: 3 };
+
+interface BudgetFile {
+  version: 1;
+  budgets: Budget[];
+}
+
+export interface BudgetInput {
+  category: string | null;
+  cardLastFour?: string | null;
+  memberId?: string | null;
+  monthlyLimit: number;
+  warnAt?: number;
+}
+
+/**
+ * Budgets are keyed by what they cover, so saving the same category, card and member again updates the budget.
+ * Budgets without a member keep the key they had before members could be budgeted.
+ */
+const createBudgetId = (category: string | null, cardLastFour: string | null, memberId: string | null): string => {
+  const key = `${category ?? '*'}|${cardLastFour ?? '*'}${memberId ? `|${memberId}` : ''}`;
+  return `budget_${createHash('sha256').update(key).digest('hex').slice(0, 16)}`;
+};
+
+export class BudgetStore {
+  private filePath: string;
+  private budgets: Map<string, Budget> | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = 'data/budgets.json') {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async list(): Promise<Budget[]> {
+    return Array.from((await this.load()).values())
+      .sort((a, b) => (a.category ?? '').localeCompare(b.category ?? '')
+        || (a.cardLastFour ?? '').localeCompare(b.cardLastFour ?? '')
+        || (a.memberId ?? '').localeCompare(b.memberId ?? ''));
+  }
+
+  /**
+   * Create a budget, or update the one covering the same category, card and member
+   */
+  async save(input: BudgetInput): Promise<Budget> {
+    const cardLastFour = input.cardLastFour ?? null;
+    const memberId = input.memberId ?? null;
+    const id = createBudgetId(input.category, cardLastFour, memberId);
+    console.log(`💰 Saving budget ${input.category ?? 'all spending'}${cardLastFour ? ` (card ${cardLastFour})` : ''}${memberId ? ` (member ${memberId})` : ''}: ${input.monthlyLimit} ILS a month`);
+
+    return this.mutate(budgets => {
+      const now = new Date().toISOString();
+      const existing = budgets.get(id);
+
+      const budget: Budget = {
+        id,
+        category: input.category,
+        cardLastFour,
+        memberId,
+        monthlyLimit: input.monthlyLimit,
+        warnAt: input.warnAt ?? existing?.warnAt ?? DEFAULT_WARN_AT,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+
+      budgets.set(id, budget);
+      return budget;
+    });
+  }
+
+  async delete(ids: string[]): Promise<string[]> {
+    return this.mutate(budgets => ids.filter(id => budgets.delete(id)));
+  }
+
+  /**
+   * Move the budgets of renamed or merged categories to their new category. A budget that would then
+   * cover the same scope as an existing one is dropped; the existing budget wins.
+   */
+  async recategorize(fromCategories: string[], toCategory: string): Promise<number> {
+    return this.mutate(budgets => {
+      let moved = 0;
+
+      for (const budget of Array.from(budgets.values())) {
+        if (!budget.category || !fromCategories.includes(budget.category)) continue;
+
+        budgets.delete(budget.id);
+        const id = createBudgetId(toCategory, budget.cardLastFour, budget.memberId);
+        if (!budgets.has(id)) {
+          budgets.set(id, { ...budget, id, category: toCategory, updatedAt: new Date().toISOString() });
+        }
+        moved++;
+      }
+      return moved;
+    });
+  }
+
+  private mutate<T>(change: (budgets: Map<string, Budget>) => T): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      const result = change(await this.load());
+      await this.persist();
+      return result;
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<Map<string, Budget>> {
+    if (this.budgets) return this.budgets;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as BudgetFile;
+      // Budgets saved before member budgets have no memberId
+      this.budgets = new Map(data.budgets.map(budget => [budget.id, { ...budget, memberId: budget.memberId ?? null }]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      // No budgets set yet
+      this.budgets = new Map();
+    }
+
+    return this.budgets;
+  }
+
+  private async persist(): Promise<void> {
+    const data: BudgetFile = {
+      version: 1,
+      budgets: Array.from(this.budgets?.values() ?? []),
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+let budgetStore: BudgetStore | null = null;
+
+export const getBudgetStore = (): BudgetStore => {
+  budgetStore ??= new BudgetStore(ENV.budgetsPath);
+  return budgetStore;
+};
+
+/**
+ * Whether a stored transaction counts against a budget: same card and member, and the budget's category or one of
+ * its subcategories
+ */
+const budgetCovers = (budget: Budget, metadata: VectorMetadata, taxonomy: CategoryTaxonomy): boolean => {
+  if (budget.cardLastFour && metadata.cardLastFour !== budget.cardLastFour) return false;
+  // Records stored before the household registry have no member
+  if (budget.memberId && metadata.memberId !== budget.memberId) return false;
+  if (!budget.category || metadata.category === budget.category) return true;
+
+  return taxonomy.categories.find(category => category.id === metadata.category)?.parentId === budget.category;
+};
+
+const budgetLabel = (budget: Budget, taxonomy: CategoryTaxonomy, memberNames: Map<string, string>): { he: string; en: string } => {
+  const category = budget.category
+    ? taxonomy.categories.find(definition => definition.id === budget.category)?.labels ?? { he: budget.category, en: budget.category }
+    : { he: 'כל ההוצאות', en: 'all spending' };
+
+  const member = budget.memberId ? memberNames.get(budget.memberId) ?? budget.memberId : null;
+  const scope = {
+    he: [member, budget.cardLastFour && `כרטיס ${budget.cardLastFour}`].filter(part => part).join(', '),
+    en: [member, budget.cardLastFour && `card ${budget.cardLastFour}`].filter(part => part).join(', '),
+  };
+
+  return scope.en
+    ? { he: `${category.he} (${scope.he})`, en: `${category.en} (${scope.en})` }
+    : category;
+};
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const formatAmount = (amount: number): string =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+
+const budgetStatus = (spent: number, projected: number, budget: Budget): BudgetStatus['status'] => {
+  if (spent > budget.monthlyLimit) return 'over';
+  if (spent >= budget.monthlyLimit * budget.warnAt) return 'near';
+  if (projected > budget.monthlyLimit) return 'projected_over';
+  return 'ok';
+};
+
+const buildWarning = (status: BudgetStatus, asOf: string): BudgetWarning | null => {
+  if (status.status === 'ok') return null;
+
+  const spent = formatAmount(status.spent);
+  const limit = formatAmount(status.monthlyLimit);
+  const projected = formatAmount(status.projected);
+  const percent = Math.round(status.percentUsed);
+
+  const messages = {
+    over: {
+      he: `חריגה בתקציב ${status.label.he}: הוצאו ${spent} ₪ מתוך ${limit} ₪ (${percent}%) עד ${asOf}. צפי לסוף החודש: ${projected} ₪`,
+      en: `${status.label.en} budget exceeded: ${spent} of ${limit} ILS spent (${percent}%) by ${asOf}. Projected for the month: ${projected} ILS`,
+    },
+    near: {
+      he: `תקציב ${status.label.he} מתקרב לסופו: הוצאו ${spent} ₪ מתוך ${limit} ₪ (${percent}%) עד ${asOf}. צפי לסוף החודש: ${projected} ₪`,
+      en: `${status.label.en} budget nearly used: ${spent} of ${limit} ILS spent (${percent}%) by ${asOf}. Projected for the month: ${projected} ILS`,
+    },
+    projected_over: {
+      he: `בקצב הנוכחי תקציב ${status.label.he} יחרוג: צפי של ${projected} ₪ לעומת תקציב של ${limit} ₪ (הוצאו ${spent} ₪ עד ${asOf})`,
+      en: `${status.label.en} budget on pace to be exceeded: ${projected} ILS projected against ${limit} ILS (${spent} ILS spent by ${asOf})`,
+    },
+  };
+
+  return { budgetId: status.budgetId, level: status.status, ...messages[status.status] };
+};
+
+/**
+ * Compare month-to-date spending (ILS net of linked refunds, credits left out) with every budget and
+ * project the month's total from the daily pace so far. Foreign amounts without an exchange rate are
+ * listed apart rather than counted as ILS.
+ */
+export const checkBudgets = async (options: { asOf?: string } = {}): Promise<BudgetCheckReport> => {
+  const asOf = options.asOf ?? new Date().toISOString().slice(0, 10);
+  const month = asOf.slice(0, 7);
+
+  const budgets = await getBudgetStore().list();
+  if (budgets.length === 0) {
+    return { month, asOf, statuses: [], warnings: [], unconverted: [] };
+  }
+
+  const [year, monthNumber, day] = asOf.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+
+  const taxonomy = await getCategoryTaxonomyStore().get();
+  const memberNames = new Map((await getHouseholdRegistryStore().listMembers()).map(member => [member.id, member.name]));
+  const spending = (await listAllTransactions(createVectorStorageProvider(), { fromDate: `${month}-01`, toDate: asOf }))
+    .filter(({ metadata }) => metadata.transactionType !== 'credit');
+  const records = spending.filter(({ metadata }) => hasIlsAmount(metadata));
+  const unconverted = spending
+    .filter(({ metadata }) => !hasIlsAmount(metadata) && budgets.some(budget => budgetCovers(budget, metadata, taxonomy)))
+    .map(toUnconvertedTransaction);
+
+  const statuses: BudgetStatus[] = budgets.map(budget => {
+    const covered = records.filter(({ metadata }) => budgetCovers(budget, metadata, taxonomy));
+    const spent = round(covered.reduce((total, { metadata }) => total + netSpendingAmount(metadata), 0));
+    const projected = round(spent / day * daysInMonth);
+
+    return {
+      budgetId: budget.id,
+      category: budget.category,
+      label: budgetLabel(budget, taxonomy, memberNames),
+      cardLastFour: budget.cardLastFour,
+      memberId: budget.memberId,
+      monthlyLimit: budget.monthlyLimit,
+      spent,
+      remaining: round(budget.monthlyLimit - spent),
+      percentUsed: round(spent / budget.monthlyLimit * 100),
+      projected,
+      transactionCount: covered.length,
+      status: budgetStatus(spent, projected, budget),
+    };
+  });
+
+  const warnings = statuses
+    .filter(status => status.status !== 'ok')
+    .sort((a, b) => STATUS_SEVERITY[a.status] - STATUS_SEVERITY[b.status] || b.percentUsed - a.percentUsed)
+    .map(status => buildWarning(status, asOf)!);
+
+  if (warnings.length > 0) {
+    console.warn(`⚠️ ${warnings.length} budget warning(s) for ${month}`);
+  }
+  if (unconverted.length > 0) {
+    console.warn(`⚠️ ${unconverted.length} foreign charge(s) without an exchange rate not counted against the budgets`);
+  }
+
+  return { month, asOf, statuses, warnings, unconverted };
+};
+
+export const saveBudgetTool = createTool({
+  id: 'save-budget',
+  description: 'Create or update a monthly budget for a category (including its subcategories) or for all spending, optionally limited to one card and/or household member; saving the same category, card and member again updates the budget',
+  inputSchema: z.object({
+    category: TransactionCategorySchema.nullable().default(null).describe('Category to budget; omit for a budget on all spending'),
+    cardLastFour: z.string().regex(/^\d{4}$/).nullable().default(null).describe('Only spending on this card'),
+    memberId: z.string().nullable().default(null).describe('Only spending of this household member (see list-household)'),
+    monthlyLimit: z.number().positive().describe('Monthly limit in ILS'),
+    warnAt: z.number().min(0).max(1).optional().describe(`Share of the limit that triggers a "near" warning (default ${DEFAULT_WARN_AT})`),
+  }),
+  outputSchema: z.object({
+    budget: BudgetSchema,
+  }),
+  execute: async ({ context }) => {
+    if (context.category) {
+      await getCategoryTaxonomyStore().assertCategory(context.category);
+    }
+    if (context.memberId && !(await getHouseholdRegistryStore().getMember(context.memberId))) {
+      throw new Error(`Unknown household member "${context.memberId}". Add it with save-household-member first.`);
+    }
+    return { budget: await getBudgetStore().save(context) };
+  },
+});
+
+export const listBudgetsTool = createTool({
+  id: 'list-budgets',
+  description: 'List the monthly budgets with their month-to-date spending, remaining amount and projected end-of-month spending',
+  inputSchema: z.object({
+    asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Count spending of this date\'s month up to this date (YYYY-MM-DD), defaults to today'),
+  }),
+  outputSchema: z.object({
+    budgets: z.array(BudgetSchema),
+    check: BudgetCheckReportSchema,
+  }),
+  execute: async ({ context }) => {
+    return {
+      budgets: await getBudgetStore().list(),
+      check: await checkBudgets({ asOf: context.asOf }),
+    };
+  },
+});
+
+export const deleteBudgetsTool = createTool({
+  id: 'delete-budgets',
+  description: 'Delete monthly budgets by ID',
+  inputSchema: z.object({
+    ids: z.array(z.string()).min(1).describe('Budget IDs to delete'),
+  }),
+  outputSchema: z.object({
+    deletedIds: z.array(z.string()),
+  }),
+  execute: async ({ context }) => {
+    return { deletedIds: await getBudgetStore().delete(context.ids) };
+  },
+});
+
+export const checkBudgetsTool = createTool({
+  id: 'check-budgets',
+  description: 'Compare month-to-date spending with the monthly budgets and return warnings (in Hebrew and English) for budgets that are exceeded, nearly used or on pace to be exceeded by the end of the month',
+  inputSchema: z.object({
+    asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Check the month of this date up to this date (YYYY-MM-DD), defaults to today'),
+  }),
+  outputSchema: BudgetCheckReportSchema,
+  execute: async ({ context }) => {
+    return await checkBudgets({ asOf: context.asOf });
+  },
+});
@@ -0,0 +1,345 @@
+// Cash-flow forecast: the bank balance projected from recurring charges, income, installments and card statements
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { createVectorStorageProvider } from './providers/factory';
+import { VectorMetadata } from './providers/base';
+import { listAllTransactions } from './stored-transactions';
+import { listInstallmentCommitments } from './installments';
+import { subscriptionMerchantKey } from './subscriptions';
+import { hasIlsAmount, toUnconvertedTransaction } from './exchange-rates';
+import { CashFlowEvent, CashFlowForecast, CashFlowForecastSchema, CashFlowPeriod } from './types';
+
+export interface CashFlowForecastOptions {
+  /** Current bank balance in ILS; without it the forecast shows the change from today */
+  openingBalance?: number;
+  asOf?: string;
+  months?: number;
+  granularity?: 'day' | 'week';
+  /** Project only this bank account: its own movements and those of the cards linked to it */
+  bankAccountNumber?: string;
+  /** Billing days that override the ones read from stored statements */
+  billingDays?: Array<{ cardLastFour: string; day: number }>;
+}
+
+interface Recurrence {
+  description: string;
+  cardLastFour: string | null;
+  amount: number;
+  lastDate: string;
+  kind: 'income' | 'recurring_debit';
+}
+
+type BillingDays = Map<string, { day: number; source: 'input' | 'statement' | 'default' }>;
+
+// Most Israeli cards are debited on the 2nd, 10th or 15th; the 10th is assumed when no statement tells
+const DEFAULT_BILLING_DAY = 10;
+// A recurring charge or income not seen for this long has stopped (card statements arrive a month late)
+const LIVE_MONTHS = 2;
+// Stored transactions read for recurrences and billing days
+const HISTORY_MONTHS = 6;
+// Card company debits on a bank statement: card charges are projected from the cards' own statements instead
+const CARD_ISSUER_WORDS = [
+  'ישראכרט', 'כאל', 'מקס', 'לאומי קארד', 'אמריקן אקספרס', 'דיינרס', 'כרטיסי אשראי',
+  'isracard', 'cal', 'max', 'leumi card', 'american express', 'diners',
+];
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+/**
+ * The given day of the month `months` after the date's month, clamped to the month's last day
+ */
+const dayOfMonth = (date: string, months: number, day: number): string => {
+  const [year, month] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+};
+
+const addMonths = (date: string, months: number): string => dayOfMonth(date, months, Number(date.slice(8, 10)));
+
+const isCardIssuerDebit = (metadata: VectorMetadata): boolean => {
+  const merchant = ` ${metadata.merchantKey} `;
+  return !metadata.cardLastFour && CARD_ISSUER_WORDS.some(word => merchant.includes(` ${word} `));
+};
+
+/**
+ * Day of the month each card is debited: the user's, else the most common charge day of its stored
+ * statements (the statement date when the export has no charge date column), else the default
+ */
+const resolveBillingDays = (
+  records: Array<{ metadata: VectorMetadata }>,
+  overrides: CashFlowForecastOptions['billingDays'] = []
+): BillingDays => {
+  const counts = new Map<string, Map<number, number>>();
+
+  for (const { metadata } of records) {
+    if (!metadata.cardLastFour || !metadata.chargeDate) continue;
+    const days = counts.get(metadata.cardLastFour) ?? new Map<number, number>();
+    const day = Number(metadata.chargeDate.slice(8, 10));
+    days.set(day, (days.get(day) ?? 0) + 1);
+    counts.set(metadata.cardLastFour, days);
+  }
+
+  const billingDays: BillingDays = new Map();
+  for (const [card, days] of counts) {
+    const [day] = Array.from(days.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0])[0];
+    billingDays.set(card, { day, source: 'statement' });
+  }
+  for (const override of overrides) {
+    billingDays.set(override.cardLastFour, { day: override.day, source: 'input' });
+  }
+
+  return billingDays;
+};
+
+const billingDayOf = (billingDays: BillingDays, cardLastFour: string): number => {
+  if (!billingDays.has(cardLastFour)) {
+    billingDays.set(cardLastFour, { day: DEFAULT_BILLING_DAY, source: 'default' });
+  }
+  return billingDays.get(cardLastFour)!.day;
+};
+
+/**
+ * Monthly charges (type "monthly") and recurring income (credits of the same payer at least twice, about a month
+ * apart - salaries, allowances), each with its typical amount and latest date
+ */
+const findRecurrences = (records: Array<{ metadata: VectorMetadata }>, asOf: string): Recurrence[] => {
+  const groups = new Map<string, VectorMetadata[]>();
+
+  for (const { metadata } of records) {
+    if (!metadata.transactionDate || metadata.refundOf || metadata.refundStatus) continue;
+
+    const isDebit = metadata.transactionType === 'monthly' && metadata.amount > 0
+      && metadata.installmentNumber === null && !isCardIssuerDebit(metadata);
+    // Credits on a card are refunds, not income
+    const isIncome = metadata.transactionType === 'credit' && metadata.amount < 0 && !metadata.cardLastFour;
+    if (!isDebit && !isIncome) continue;
+
+    const key = `${isIncome ? 'income' : 'debit'}|${subscriptionMerchantKey(metadata.merchantKey)}|${metadata.cardLastFour ?? metadata.bankAccountNumber ?? ''}`;
+    groups.set(key, [...(groups.get(key) ?? []), metadata]);
+  }
+
+  const liveSince = addMonths(asOf, -LIVE_MONTHS);
+  const recurrences: Recurrence[] = [];
+
+  for (const [key, occurrences] of groups) {
+    occurrences.sort((a, b) => a.transactionDate!.localeCompare(b.transactionDate!));
+    const latest = occurrences[occurrences.length - 1];
+    if (latest.transactionDate! < liveSince) continue;
+
+    const kind = key.startsWith('income') ? 'income' as const : 'recurring_debit' as const;
+    if (kind === 'income') {
+      if (occurrences.length < 2) continue;
+      const [previous] = occurrences.slice(-2);
+      const gap = (Date.parse(latest.transactionDate!) - Date.parse(previous.transactionDate!)) / 86_400_000;
+      if (gap < 25 || gap > 35) continue;
+    }
+
+    recurrences.push({
+      description: latest.originalText,
+      cardLastFour: latest.cardLastFour,
+      amount: round(-median(occurrences.slice(-3).map(occurrence => occurrence.amount))),
+      lastDate: latest.transactionDate!,
+      kind,
+    });
+  }
+
+  return recurrences;
+};
+
+/**
+ * Day-by-day or week-by-week totals and balances
+ */
+const buildPeriods = (
+  events: CashFlowEvent[],
+  asOf: string,
+  until: string,
+  openingBalance: number,
+  granularity: 'day' | 'week'
+): { periods: CashFlowPeriod[]; lowPoint: { date: string; balance: number } } => {
+  const periods: CashFlowPeriod[] = [];
+  let lowPoint = { date: asOf, balance: openingBalance };
+  let balance = openingBalance;
+  let current: CashFlowPeriod | null = null;
+  let dayIndex = 0;
+
+  for (let date = addDays(asOf, 1); date <= until; date = addDays(date, 1), dayIndex++) {
+    if (!current || granularity === 'day' || dayIndex % 7 === 0) {
+      // Lowest balance is set on the period's first day
+      current = { start: date, end: date, credits: 0, debits: 0, net: 0, closingBalance: balance, lowestBalance: Number.POSITIVE_INFINITY };
+      periods.push(current);
+    }
+
+    for (const event of events.filter(candidate => candidate.date === date)) {
+      if (event.amount > 0) current.credits = round(current.credits + event.amount);
+      else current.debits = round(current.debits - event.amount);
+      balance = round(balance + event.amount);
+    }
+
+    current.end = date;
+    current.net = round(current.credits - current.debits);
+    current.closingBalance = balance;
+    current.lowestBalance = Math.min(current.lowestBalance, balance);
+    if (balance < lowPoint.balance) {
+      lowPoint = { date, balance };
+    }
+  }
+
+  return { periods, lowPoint };
+};
+
+/**
+ * Project the bank balance over the next months. Bank movements happen on their own date; card charges reach the
+ * account on the card's billing day - stored charges on their charge date, projected ones in the month after they
+ * are made, the way card statements work. Expected movements:
+ * - recurring debits: stored "monthly" transactions, repeated monthly from their latest date
+ * - income: recurring credits of the bank account, repeated monthly
+ * - card statements: stored card charges whose charge date is still ahead
+ * - installments: the remaining installment payments
+ * Foreign amounts stored without an exchange rate are not projected; the forecast lists the ones it would have used.
+ */
+export const forecastCashFlow = async (options: CashFlowForecastOptions = {}): Promise<CashFlowForecast> => {
+  const asOf = options.asOf ?? new Date().toISOString().slice(0, 10);
+  const months = options.months ?? 3;
+  const granularity = options.granularity ?? 'week';
+  const openingBalance = options.openingBalance ?? 0;
+  const until = addMonths(asOf, months);
+
+  const records = await listAllTransactions(createVectorStorageProvider(), {
+    fromDate: addMonths(asOf, -HISTORY_MONTHS),
+    bankAccountNumber: options.bankAccountNumber,
+  });
+  const billingDays = resolveBillingDays(records, options.billingDays);
+  const events: CashFlowEvent[] = [];
+  const inRange = (date: string): boolean => date > asOf && date <= until;
+
+  const converted = records.filter(({ metadata }) => hasIlsAmount(metadata));
+  const unconverted = records
+    .filter(({ metadata }) => !hasIlsAmount(metadata) && (
+      metadata.transactionType === 'monthly' || metadata.transactionType === 'credit'
+      || (metadata.cardLastFour && metadata.chargeDate && inRange(metadata.chargeDate))
+    ))
+    .map(toUnconvertedTransaction);
+
+  for (const recurrence of findRecurrences(converted, asOf)) {
+    for (let cycle = 1; ; cycle++) {
+      const chargeDate = addMonths(recurrence.lastDate, cycle);
+      if (chargeDate > until) break;
+
+      const date = recurrence.cardLastFour
+        ? dayOfMonth(chargeDate, 1, billingDayOf(billingDays, recurrence.cardLastFour))
+        : chargeDate;
+      if (!inRange(date)) continue;
+
+      events.push({
+        date,
+        amount: recurrence.amount,
+        kind: recurrence.kind,
+        description: recurrence.description,
+        cardLastFour: recurrence.cardLastFour,
+        chargeDate: recurrence.cardLastFour ? chargeDate : null,
+      });
+    }
+  }
+
+  // Statements already imported but not yet debited, one movement per card and charge date
+  const statements = new Map<string, { cardLastFour: string; date: string; amount: number; count: number }>();
+  for (const { metadata } of converted) {
+    if (!metadata.cardLastFour || !metadata.chargeDate || !inRange(metadata.chargeDate)) continue;
+
+    const key = `${metadata.cardLastFour}|${metadata.chargeDate}`;
+    const statement = statements.get(key) ?? { cardLastFour: metadata.cardLastFour, date: metadata.chargeDate, amount: 0, count: 0 };
+    statement.amount = round(statement.amount + metadata.amount);
+    statement.count++;
+    statements.set(key, statement);
+  }
+  for (const statement of statements.values()) {
+    billingDayOf(billingDays, statement.cardLastFour);
+    events.push({
+      date: statement.date,
+      amount: -statement.amount,
+      kind: 'card_statement',
+      description: `Card ${statement.cardLastFour} statement (${statement.count} stored charges)`,
+      cardLastFour: statement.cardLastFour,
+      chargeDate: null,
+    });
+  }
+
+  const installments = await listInstallmentCommitments({ asOf, months: months + 1, bankAccountNumber: options.bankAccountNumber });
+  for (const card of installments.cards) {
+    const billingDay = card.cardLastFour ? billingDayOf(billingDays, card.cardLastFour) : DEFAULT_BILLING_DAY;
+
+    for (const payment of card.schedule) {
+      const date = dayOfMonth(`${payment.month}-01`, 0, billingDay);
+      if (!inRange(date)) continue;
+
+      events.push({
+        date,
+        amount: -payment.amount,
+        kind: 'installment',
+        description: `Installment payments${card.cardLastFour ? ` on card ${card.cardLastFour}` : ''}`,
+        cardLastFour: card.cardLastFour,
+        chargeDate: null,
+      });
+    }
+  }
+
+  events.sort((a, b) => a.date.localeCompare(b.date) || b.amount - a.amount);
+  const { periods, lowPoint } = buildPeriods(events, asOf, until, openingBalance, granularity);
+
+  const totalCredits = round(events.filter(event => event.amount > 0).reduce((sum, event) => sum + event.amount, 0));
+  const totalDebits = round(-events.filter(event => event.amount < 0).reduce((sum, event) => sum + event.amount, 0));
+
+  console.log(`📈 Cash-flow forecast ${asOf}..${until}: ${events.length} movements, low point ${lowPoint.balance} ILS on ${lowPoint.date}`);
+  if (unconverted.length > 0) {
+    console.warn(`⚠️ ${unconverted.length} foreign transaction(s) without an exchange rate left out of the forecast`);
+  }
+
+  return {
+    asOf,
+    until,
+    granularity,
+    openingBalance,
+    closingBalance: round(openingBalance + totalCredits - totalDebits),
+    totalCredits,
+    totalDebits,
+    lowPoint,
+    periods,
+    events,
+    cards: Array.from(billingDays.entries())
+      .map(([cardLastFour, billing]) => ({ cardLastFour, billingDay: billing.day, billingDaySource: billing.source }))
+      .sort((a, b) => a.cardLastFour.localeCompare(b.cardLastFour)),
+    unconverted,
+  };
+};
+
+export const cashFlowForecastTool = createTool({
+  id: 'forecast-cash-flow',
+  description: 'Project the bank account balance over the next 1-3 months, day by day or week by week, from recurring monthly charges, recurring income such as salaries, card statements not yet debited (on each card\'s billing day) and future installment payments, with the expected low point',
+  inputSchema: z.object({
+    openingBalance: z.number().default(0).describe('Current bank account balance in ILS; 0 shows the change from today'),
+    asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Project from the day after this date (YYYY-MM-DD), defaults to today'),
+    months: z.number().int().min(1).max(3).default(3).describe('Months to project'),
+    granularity: z.enum(['day', 'week']).default('week').describe('Length of the projection periods'),
+    bankAccountNumber: z.string().regex(/^\d+$/).optional().describe('Project only this bank account, with the cards linked to it (see list-household)'),
+    billingDays: z.array(z.object({
+      cardLastFour: z.string().regex(/^\d{4}$/),
+      day: z.number().int().min(1).max(31),
+    })).optional().describe('Day of the month each card is debited, when it differs from its stored statements'),
+  }),
+  outputSchema: CashFlowForecastSchema,
+  execute: async ({ context }) => {
+    return await forecastCashFlow(context);
+  },
+});
@@ -0,0 +1,433 @@
+// User-defined category taxonomy: categories and subcategories the analyzer prompts and validation are built from
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ENV } from '../../config/environment';
+import {
+  CategoryDefinition,
+  CategoryDefinitionSchema,
+  CategoryMigration,
+  CategoryMigrationSchema,
+  CategoryTaxonomy,
+  CategoryTaxonomySchema,
+  TransactionCategory,
+  TransactionCategorySchema
+} from './types';
+import { createVectorStorageProvider } from './providers/factory';
+import { listAllTransactions } from './stored-transactions';
+import { getMerchantRuleStore } from './merchant-rules';
+import { getReviewQueueStore } from './review-queue';
+import { getBudgetStore } from './budgets';
+import { getExportCategoryMappingStore } from './transaction-export';
+
+/**
+ * Built-in taxonomy, used until the household saves its own
+ */
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  {
+    id: 'food_beverage',
+    parentId: null,
+    labels: { he: 'מזון ושתייה', en: 'food and beverage' },
+    description: { he: 'מזון ושתייה כללי, בתי קפה, ברים ומתחמי אוכל', en: 'General food and beverage purchases including cafes, bars, and food courts' },
+  },
+  {
+    id: 'transportation',
+    parentId: null,
+    labels: { he: 'תחבורה', en: 'transportation' },
+    description: { he: 'תחבורה ציבורית, מוניות, רכבות, חניה ושירותי ניידות', en: 'Public transport, taxis, trains, parking fees, and mobility services' },
+  },
+  {
+    id: 'shopping_entertainment',
+    parentId: null,
+    labels: { he: 'קניות ובילוי', en: 'shopping and entertainment' },
+    description: { he: 'קניות כלליות, מקומות בילוי, קולנוע ופנאי', en: 'General shopping, entertainment venues, movies, and recreational purchases' },
+  },
+  {
+    id: 'fuel',
+    parentId: null,
+    labels: { he: 'דלק', en: 'fuel' },
+    description: { he: 'תחנות דלק (סונול, פז, דור אלון, דלק)', en: 'Gas stations and fuel purchases (Sonol, Paz, Dor Alon, Delek)' },
+  },
+  {
+    id: 'healthcare',
+    parentId: null,
+    labels: { he: 'רפואה ובריאות', en: 'healthcare' },
+    description: { he: 'הוצאות רפואיות, בתי מרקחת וקופות חולים (כללית, מכבי, לאומית, מאוחדת)', en: 'Medical expenses, pharmacies, health funds (Clalit, Maccabi, Leumit, Meuhedet)' },
+  },
+  {
+    id: 'education',
+    parentId: null,
+    labels: { he: 'חינוך', en: 'education' },
+    description: { he: 'בתי ספר, קורסים, ציוד לימודי והוצאות לימודים', en: 'Schools, courses, educational materials, and learning-related expenses' },
+  },
+  {
+    id: 'insurance',
+    parentId: null,
+    labels: { he: 'ביטוח', en: 'insurance' },
+    description: { he: 'פרמיות ביטוח בריאות, רכב, דירה או חיים', en: 'Insurance premium payments for health, car, home, or life insurance' },
+  },
+  {
+    id: 'mandatory_payments',
+    parentId: null,
+    labels: { he: 'תשלומי חובה', en: 'mandatory payments' },
+    description: { he: 'מסים, חשבונות שוטפים, אגרות ותשלומי חובה אחרים', en: 'Taxes, utilities, government fees, and other required payments' },
+  },
+  {
+    id: 'restaurants',
+    parentId: null,
+    labels: { he: 'מסעדות', en: 'restaurants' },
+    description: { he: 'ארוחות במסעדות ומשלוחי אוכל', en: 'Dining out, food delivery services, and restaurant meals' },
+  },
+  {
+    id: 'grocery',
+    parentId: null,
+    labels: { he: 'סופרמרקט', en: 'grocery' },
+    description: { he: 'קניות בסופרמרקט (רמי לוי, שופרסל, ויקטורי, מגה, יוחננוף)', en: 'Supermarket purchases (Rami Levy, Shufersal, Victory, Mega, Yochananof)' },
+  },
+  {
+    id: 'clothing_shoes',
+    parentId: null,
+    labels: { he: 'ביגוד והנעלה', en: 'clothing and shoes' },
+    description: { he: 'אופנה, ביגוד והנעלה', en: 'Fashion, clothing, footwear purchases, and apparel shopping' },
+  },
+  {
+    id: 'technology',
+    parentId: null,
+    labels: { he: 'טכנולוגיה', en: 'technology' },
+    description: { he: 'אלקטרוניקה, תוכנה, אפליקציות ושירותים טכנולוגיים (אפל, גוגל, נטפליקס)', en: 'Electronics, software, apps, tech services (Apple, Google, Netflix)' },
+  },
+  {
+    id: 'home_design',
+    parentId: null,
+    labels: { he: 'בית ועיצוב', en: 'home and design' },
+    description: { he: 'רהיטים, שיפוצים, עיצוב הבית ומוצרים לבית (איקאה)', en: 'Furniture, home improvement, interior design, and household items (IKEA)' },
+  },
+  {
+    id: 'sports_recreation',
+    parentId: null,
+    labels: { he: 'ספורט ופנאי', en: 'sports and recreation' },
+    description: { he: 'ציוד ספורט, חדרי כושר ופעילויות פנאי', en: 'Sports equipment, gym memberships, recreational activities, and fitness' },
+  },
+  {
+    id: 'banking_finance',
+    parentId: null,
+    labels: { he: 'בנקאות ופיננסים', en: 'banking and finance' },
+    description: { he: 'עמלות בנק, החזרי הלוואות ושירותים פיננסיים', en: 'Bank fees, loan payments, financial services, and banking charges' },
+  },
+  {
+    id: 'other',
+    parentId: null,
+    labels: { he: 'שונות', en: 'other' },
+    description: { he: 'עסקאות שאינן מתאימות לאף קטגוריה אחרת', en: 'Miscellaneous transactions that do not fit into other predefined categories' },
+  },
+];
+
+const defaultTaxonomy = (): CategoryTaxonomy => ({
+  version: 1,
+  updatedAt: new Date(0).toISOString(),
+  categories: DEFAULT_CATEGORIES.map(category => ({ ...category })),
+  migrations: [],
+});
+
+/**
+ * Validation schema for the categories of a taxonomy: one literal per category, described for the LLM,
+ * so generatePromptFromSchema lists the allowed IDs with their meaning
+ */
+export const buildCategorySchema = (taxonomy: CategoryTaxonomy): z.ZodType<TransactionCategory> => {
+  const literals = taxonomy.categories.map(category => z.literal(category.id).describe(describeCategory(taxonomy, category)));
+
+  return z.union(literals as unknown as [z.ZodLiteral<string>, z.ZodLiteral<string>, ...z.ZodLiteral<string>[]])
+    .describe(`Transaction category (taxonomy version ${taxonomy.version}); prefer a subcategory when one fits`);
+};
+
+const describeCategory = (taxonomy: CategoryTaxonomy, category: CategoryDefinition): string => {
+  const parent = category.parentId ? ` - subcategory of "${category.parentId}"` : '';
+  const subcategories = taxonomy.categories.filter(child => child.parentId === category.id).map(child => `"${child.id}"`);
+  const children = subcategories.length > 0 ? ` (subcategories: ${subcategories.join(', ')})` : '';
+
+  return `${category.labels.en} / ${category.labels.he}${parent}: ${category.description.en}${children}`;
+};
+
+export class CategoryTaxonomyStore {
+  private filePath: string;
+  private taxonomy: CategoryTaxonomy | null = null;
+  private schema: { version: number; schema: z.ZodType<TransactionCategory> } | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = 'data/category-taxonomy.json') {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async get(): Promise<CategoryTaxonomy> {
+    return this.load();
+  }
+
+  /**
+   * Validation schema of the current taxonomy, rebuilt only when the version changes
+   */
+  async categorySchema(): Promise<z.ZodType<TransactionCategory>> {
+    const taxonomy = await this.load();
+
+    if (this.schema?.version !== taxonomy.version) {
+      this.schema = { version: taxonomy.version, schema: buildCategorySchema(taxonomy) };
+    }
+    return this.schema.schema;
+  }
+
+  async find(id: string): Promise<CategoryDefinition | null> {
+    return (await this.load()).categories.find(category => category.id === id) ?? null;
+  }
+
+  /**
+   * Throws when the ID is not a category of the current taxonomy
+   */
+  async assertCategory(id: string): Promise<CategoryDefinition> {
+    const category = await this.find(id);
+    if (!category) {
+      const ids = (await this.load()).categories.map(known => known.id);
+      throw new Error(`Unknown category "${id}". Valid categories: ${ids.join(', ')}`);
+    }
+    return category;
+  }
+
+  /**
+   * Create a category or subcategory, or update the labels, description or parent of an existing one
+   */
+  async save(definition: CategoryDefinition): Promise<CategoryTaxonomy> {
+    console.log(`🗂️ Saving category "${definition.id}"${definition.parentId ? ` under "${definition.parentId}"` : ''}`);
+
+    return this.mutate(taxonomy => {
+      const categories = taxonomy.categories.some(category => category.id === definition.id)
+        ? taxonomy.categories.map(category => category.id === definition.id ? definition : category)
+        : [...taxonomy.categories, definition];
+
+      return { ...taxonomy, categories };
+    });
+  }
+
+  /**
+   * Rename one category or merge several into an existing one. Subcategories of a renamed category follow it;
+   * subcategories of merged categories move under the target (or under its parent when the target is a
+   * subcategory itself). Stored transactions and merchant rules are migrated by migrateCategories.
+   */
+  async applyMigration(change: { type: CategoryMigration['type']; from: string[]; to: string }): Promise<CategoryMigration> {
+    let migration: CategoryMigration | null = null;
+
+    await this.mutate(taxonomy => {
+      const byId = new Map(taxonomy.categories.map(category => [category.id, category]));
+      const unknown = change.from.filter(id => !byId.has(id));
+
+      if (unknown.length > 0) {
+        throw new Error(`Unknown categories: ${unknown.join(', ')}`);
+      }
+      if (change.from.includes('other')) {
+        throw new Error('The "other" category cannot be renamed or merged away');
+      }
+
+      let categories: CategoryDefinition[];
+      if (change.type === 'rename') {
+        if (change.from.length !== 1) {
+          throw new Error('A rename takes exactly one category');
+        }
+        if (byId.has(change.to)) {
+          throw new Error(`Category "${change.to}" already exists - merge into it instead`);
+        }
+
+        const [from] = change.from;
+        categories = taxonomy.categories.map(category =>
+          category.id === from ? { ...category, id: change.to }
+            : category.parentId === from ? { ...category, parentId: change.to }
+            : category
+        );
+      } else {
+        const target = byId.get(change.to);
+        if (!target || change.from.includes(change.to)) {
+          throw new Error(`Merge target "${change.to}" must be an existing category other than the merged ones`);
+        }
+
+        // A target nested under a merged category becomes top-level
+        const targetParentId = target.parentId && !change.from.includes(target.parentId) ? target.parentId : null;
+        const newParentId = targetParentId ?? target.id;
+
+        categories = taxonomy.categories
+          .filter(category => !change.from.includes(category.id))
+          .map(category =>
+            category.id === target.id ? { ...category, parentId: targetParentId }
+              : category.parentId && change.from.includes(category.parentId) ? { ...category, parentId: newParentId }
+              : category
+          );
+      }
+
+      migration = {
+        version: taxonomy.version + 1,
+        type: change.type,
+        from: change.from,
+        to: change.to,
+        appliedAt: new Date().toISOString(),
+      };
+
+      return { ...taxonomy, categories, migrations: [...taxonomy.migrations, migration] };
+    });
+
+    return migration!;
+  }
+
+  /**
+   * Apply a change to the taxonomy, validate the result and bump its version
+   */
+  private mutate(change: (taxonomy: CategoryTaxonomy) => CategoryTaxonomy): Promise<CategoryTaxonomy> {
+    const run = this.writeQueue.then(async () => {
+      const current = await this.load();
+      const next = CategoryTaxonomySchema.parse({
+        ...change(current),
+        version: current.version + 1,
+        updatedAt: new Date().toISOString(),
+      });
+
+      this.taxonomy = next;
+      await this.persist();
+      return next;
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<CategoryTaxonomy> {
+    if (this.taxonomy) return this.taxonomy;
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      // No taxonomy saved yet - the built-in categories apply
+      this.taxonomy = defaultTaxonomy();
+      return this.taxonomy;
+    }
+
+    // The file may be edited by hand, so a broken taxonomy fails loudly instead of being overwritten
+    const parsed = CategoryTaxonomySchema.safeParse(data);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid category taxonomy in ${this.filePath}: ${issue?.path.join('.') || 'root'} - ${issue?.message}`);
+    }
+
+    this.taxonomy = parsed.data;
+    return this.taxonomy;
+  }
+
+  private async persist(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(this.taxonomy, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+let categoryTaxonomyStore: CategoryTaxonomyStore | null = null;
+
+export const getCategoryTaxonomyStore = (): CategoryTaxonomyStore => {
+  categoryTaxonomyStore ??= new CategoryTaxonomyStore(ENV.categoryTaxonomyPath);
+  return categoryTaxonomyStore;
+};
+
+export interface CategoryMigrationResult {
+  migration: CategoryMigration;
+  transactionsUpdated: number;
+  rulesUpdated: number;
+}
+
+/**
+ * Rename or merge categories: save the taxonomy change, then move the stored transactions, merchant rules,
+ * queued reviews, budgets and export category names of the old categories to the new one
+ */
+export const migrateCategories = async (change: {
+  type: CategoryMigration['type'];
+  from: string[];
+  to: string;
+}): Promise<CategoryMigrationResult> => {
+  const migration = await getCategoryTaxonomyStore().applyMigration(change);
+  console.log(`🗂️ Taxonomy v${migration.version}: ${migration.type} ${migration.from.join(', ')} → ${migration.to}`);
+
+  const vectorProvider = createVectorStorageProvider();
+  const updatedAt = new Date().toISOString();
+  let transactionsUpdated = 0;
+
+  for (const category of migration.from) {
+    for (const record of await listAllTransactions(vectorProvider, { category })) {
+      await vectorProvider.updateMetadata(record.id, { category: migration.to, updatedAt });
+      transactionsUpdated++;
+    }
+  }
+
+  const rulesUpdated = await getMerchantRuleStore().recategorize(migration.from, migration.to);
+  await getReviewQueueStore().recategorize(migration.from, migration.to);
+  await getBudgetStore().recategorize(migration.from, migration.to);
+  await getExportCategoryMappingStore().recategorize(migration.from, migration.to);
+
+  console.log(`✅ Moved ${transactionsUpdated} transactions and ${rulesUpdated} merchant rules to "${migration.to}"`);
+  return { migration, transactionsUpdated, rulesUpdated };
+};
+
+export const listCategoriesTool = createTool({
+  id: 'list-categories',
+  description: 'List the transaction categories and subcategories of the category taxonomy, with Hebrew and English labels and descriptions, its version and its rename/merge history',
+  inputSchema: z.object({
+    parentId: TransactionCategorySchema.optional().describe('Only the subcategories of this category'),
+  }),
+  outputSchema: z.object({
+    version: z.number(),
+    categories: z.array(CategoryDefinitionSchema),
+    migrations: z.array(CategoryMigrationSchema),
+  }),
+  execute: async ({ context }) => {
+    const taxonomy = await getCategoryTaxonomyStore().get();
+
+    return {
+      version: taxonomy.version,
+      categories: context.parentId
+        ? taxonomy.categories.filter(category => category.parentId === context.parentId)
+        : taxonomy.categories,
+      migrations: taxonomy.migrations,
+    };
+  },
+});
+
+export const saveCategoryTool = createTool({
+  id: 'save-category',
+  description: 'Create a category or subcategory (e.g. "kids_afterschool" / חוגים under "kids"), or update the labels, description or parent of an existing one. Use migrate-categories to rename or merge categories.',
+  inputSchema: CategoryDefinitionSchema.extend({
+    parentId: TransactionCategorySchema.nullable().default(null).describe('Parent category for a subcategory; omit for a top-level category'),
+  }),
+  outputSchema: z.object({
+    version: z.number().describe('Taxonomy version after the change'),
+    category: CategoryDefinitionSchema,
+  }),
+  execute: async ({ context }) => {
+    const taxonomy = await getCategoryTaxonomyStore().save(context);
+    return { version: taxonomy.version, category: context };
+  },
+});
+
+export const migrateCategoriesTool = createTool({
+  id: 'migrate-categories',
+  description: 'Rename a category or merge categories into an existing one, and move every stored transaction and merchant rule of the old categories to the new one',
+  inputSchema: z.object({
+    type: z.enum(['rename', 'merge']).describe('rename = give one category a new ID, merge = fold categories into an existing one'),
+    from: z.array(TransactionCategorySchema).min(1).describe('Category to rename, or categories to merge'),
+    to: TransactionCategorySchema.describe('New ID (rename) or existing category to merge into (merge)'),
+  }),
+  outputSchema: z.object({
+    migration: CategoryMigrationSchema,
+    transactionsUpdated: z.number().describe('Stored transactions moved to the new category'),
+    rulesUpdated: z.number().describe('Merchant rules moved to the new category'),
+  }),
+  execute: async ({ context }) => {
+    return await migrateCategories(context);
+  },
+});
@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { openai } from '@ai-sdk/openai';
 import { generateObject } from 'ai';
 import { CreditCardData, CreditCardDataSchema } from './types';
+import { extractStatementHeaderData } from './parsers';
 
 export const creditCardDataExtractorTool = createTool({
   id: 'extract-credit-card-data',
@@ -18,7 +19,14 @@ export const creditCardDataExtractorTool = createTool({
   },
 });
 
-const extractCreditCardData = async (csvText: string): Promise<CreditCardData> => {
+export const extractCreditCardData = async (csvText: string): Promise<CreditCardData> => {
+  // Try the deterministic header parser first; the LLM is only needed when a field is missing
+  const headerData = CreditCardDataSchema.safeParse(extractStatementHeaderData(csvText));
+  if (headerData.success) {
+    console.log('🧾 Statement header data extracted without LLM');
+    return headerData.data;
+  }
+
   const result = await generateObject({
     model: openai(process.env.MODEL ?? "gpt-4o"),
     prompt: `
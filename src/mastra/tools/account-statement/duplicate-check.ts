@@ -0,0 +1,48 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { createVectorStorageProvider } from './providers/factory';
+import {
+  buildTransactionFingerprint,
+  createTransactionId,
+  findPossibleDuplicates
+} from './transaction-identity';
+
+export const duplicateCheckTool = createTool({
+  id: 'check-transaction-duplicates',
+  description: 'Check whether a transaction is already stored (same deterministic ID) or has near-identical duplicates, without any LLM or embedding cost',
+  inputSchema: z.object({
+    transactionText: z.string()
+      .min(5, 'Transaction text must contain meaningful content')
+      .describe('Single Hebrew transaction text from bank statement'),
+    lastFourDigits: z.string().regex(/^\d{4}$/).optional().describe('Last 4 digits of the card the statement belongs to'),
+    bankAccountNumber: z.string().regex(/^\d+$/).optional().describe('Bank account number the statement belongs to'),
+  }),
+  outputSchema: z.object({
+    transactionId: z.string().describe('Deterministic ID this transaction would be stored under'),
+    alreadyStored: z.boolean().describe('Whether a record with this ID already exists'),
+    possibleDuplicates: z.array(z.object({
+      id: z.string().describe('ID of the stored transaction that looks like the same charge'),
+      similarity: z.number().describe('Merchant text similarity (0-1)'),
+      originalText: z.string().describe('Original text of the stored transaction'),
+      transactionDate: z.string().nullable().describe('Transaction date of the stored transaction (YYYY-MM-DD)'),
+      amount: z.number().describe('Amount of the stored transaction'),
+    })).describe('Near-identical transactions already in the store under a different ID'),
+  }),
+  execute: async ({ context }) => {
+    const fingerprint = buildTransactionFingerprint(context.transactionText, {
+      lastFourDigits: context.lastFourDigits,
+      bankAccountNumber: context.bankAccountNumber,
+    });
+    const transactionId = createTransactionId(fingerprint);
+
+    const vectorProvider = createVectorStorageProvider();
+    const existingRecord = await vectorProvider.getById(transactionId);
+    const possibleDuplicates = await findPossibleDuplicates(fingerprint, vectorProvider, transactionId);
+
+    return {
+      transactionId,
+      alreadyStored: existingRecord !== null,
+      possibleDuplicates,
+    };
+  },
+});
@@ -0,0 +1,58 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import { CreditCardDataSchema, ParsedTransactionRowSchema, SkippedStatementRowSchema } from './types';
+import { parseStatementWorkbook } from './parsers';
+
+/**
+ * Load workbook bytes from a local path or a base64 string (as uploaded through the playground)
+ */
+export const readExcelInput = async (input: { filePath?: string; fileBase64?: string }): Promise<Uint8Array> => {
+  if (input.filePath) {
+    return new Uint8Array(await fs.readFile(input.filePath));
+  }
+  if (input.fileBase64) {
+    return new Uint8Array(Buffer.from(input.fileBase64, 'base64'));
+  }
+  throw new Error('Provide either filePath or fileBase64 of the Excel statement');
+};
+
+export const excelStatementImportTool = createTool({
+  id: 'import-excel-statement',
+  description: 'Read an XLSX/XLS statement workbook (Max, Cal, Isracard downloads) locally, sheet by sheet, into typed transaction rows tagged with their sheet and row of origin',
+  inputSchema: z.object({
+    filePath: z.string().optional().describe('Local path of the .xlsx or .xls file'),
+    fileBase64: z.string().optional().describe('Base64-encoded workbook content, when no local path is available'),
+    profileId: z.enum(['isracard', 'cal', 'max', 'leumi', 'hapoalim', 'mizrahi']).optional()
+      .describe('Force a column profile instead of auto-detecting it per sheet'),
+  }).refine(input => input.filePath || input.fileBase64, 'Provide either filePath or fileBase64'),
+  outputSchema: z.object({
+    sheets: z.array(z.object({
+      sheetName: z.string(),
+      profileId: z.string().nullable().describe('Detected column profile, null when the sheet has no statement table'),
+      rowCount: z.number(),
+      skippedCount: z.number(),
+      error: z.string().optional().describe('Why the sheet was skipped'),
+    })).describe('Per-sheet parsing summary'),
+    headerData: CreditCardDataSchema.partial().describe('Statement header fields found in the sheet preambles'),
+    rows: z.array(ParsedTransactionRowSchema).describe('Parsed transaction rows from all sheets'),
+    skippedRows: z.array(SkippedStatementRowSchema).describe('Rows that were not transactions (totals, notes, section headers)'),
+  }),
+  execute: async ({ context }) => {
+    const data = await readExcelInput(context);
+    const workbook = parseStatementWorkbook(data, { profileId: context.profileId });
+
+    return {
+      sheets: workbook.sheets.map(sheet => ({
+        sheetName: sheet.sheetName,
+        profileId: sheet.statement?.profile.id ?? null,
+        rowCount: sheet.statement?.rows.length ?? 0,
+        skippedCount: sheet.statement?.skippedRows.length ?? 0,
+        error: sheet.error,
+      })),
+      headerData: workbook.headerData,
+      rows: workbook.rows,
+      skippedRows: workbook.skippedRows,
+    };
+  },
+});
@@ -0,0 +1,323 @@
+// Offline Bank of Israel representative exchange rates (שערים יציגים), stored locally and importable
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ENV } from '../../config/environment';
+import { decodeStatementText, normalizeCell, parseAmount, parseCsv, parseDate } from './parsers';
+import { VectorMetadata } from './providers/base';
+import { UnconvertedTransaction } from './types';
+
+// Rates are not published on weekends and holidays - the last earlier rate is used within this window
+const MAX_RATE_AGE_DAYS = 7;
+
+// Hebrew currency names used in Bank of Israel table headers
+const HEBREW_CURRENCY_NAMES: Array<[RegExp, string]> = [
+  [/דולר\s*(?:ארה"ב|אמריקאי)|^דולר$/, 'USD'],
+  [/יורו/, 'EUR'],
+  [/לירה\s*שטרלינג|ליש"ט/, 'GBP'],
+  [/ין\s*יפני|^ין$/, 'JPY'],
+  [/פרנק\s*שוויצרי/, 'CHF'],
+  [/דולר\s*קנדי/, 'CAD'],
+  [/דולר\s*אוסטרלי/, 'AUD'],
+];
+
+export interface ExchangeRateEntry {
+  currency: string;
+  /** ISO YYYY-MM-DD publication date */
+  date: string;
+  /** ILS per one unit of the currency */
+  rate: number;
+}
+
+export interface IlsAmount {
+  /** Amount in ILS (or in the original currency when amountSource is 'original') */
+  amount: number;
+  /** charged = ILS amount from the statement, converted = original amount x representative rate, original = no rate found */
+  amountSource: 'charged' | 'converted' | 'original';
+  exchangeRate: number | null;
+}
+
+interface ExchangeRateFile {
+  version: 1;
+  /** Currency → ISO date → ILS per unit */
+  rates: Record<string, Record<string, number>>;
+}
+
+export class ExchangeRateTable {
+  private filePath: string;
+  private rates: Map<string, Map<string, number>> | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = 'data/exchange-rates.json') {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Representative rate for the date, or the last one published up to a week before it.
+   * Without a date the latest known rate is used.
+   */
+  async getRate(currency: string, date: string | null): Promise<{ rate: number; date: string } | null> {
+    const byDate = (await this.load()).get(currency.toUpperCase());
+    if (!byDate || byDate.size === 0) return null;
+
+    const dates = Array.from(byDate.keys()).sort();
+    const rateDate = date
+      ? dates.filter(candidate => candidate <= date).pop()
+      : dates[dates.length - 1];
+
+    if (!rateDate) return null;
+    if (date && (Date.parse(date) - Date.parse(rateDate)) / (24 * 60 * 60 * 1000) > MAX_RATE_AGE_DAYS) {
+      return null;
+    }
+
+    return { rate: byDate.get(rateDate)!, date: rateDate };
+  }
+
+  /**
+   * Add or overwrite rates; existing dates of the same currency are replaced
+   */
+  async import(entries: ExchangeRateEntry[]): Promise<{ imported: number; currencies: string[] }> {
+    console.log(`💱 Importing ${entries.length} exchange rates into "${this.filePath}"`);
+
+    await this.mutate(rates => {
+      for (const entry of entries) {
+        const currency = entry.currency.toUpperCase();
+        if (!rates.has(currency)) rates.set(currency, new Map());
+        rates.get(currency)!.set(entry.date, entry.rate);
+      }
+    });
+
+    return {
+      imported: entries.length,
+      currencies: Array.from(new Set(entries.map(entry => entry.currency.toUpperCase()))).sort(),
+    };
+  }
+
+  /**
+   * Currencies in the table with the date range they cover
+   */
+  async coverage(): Promise<Array<{ currency: string; fromDate: string; toDate: string; count: number }>> {
+    const rates = await this.load();
+
+    return Array.from(rates.entries())
+      .filter(([, byDate]) => byDate.size > 0)
+      .map(([currency, byDate]) => {
+        const dates = Array.from(byDate.keys()).sort();
+        return { currency, fromDate: dates[0], toDate: dates[dates.length - 1], count: dates.length };
+      })
+      .sort((a, b) => a.currency.localeCompare(b.currency));
+  }
+
+  private mutate<T>(change: (rates: Map<string, Map<string, number>>) => T): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      const result = change(await this.load());
+      await this.persist();
+      return result;
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<Map<string, Map<string, number>>> {
+    if (this.rates) return this.rates;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as ExchangeRateFile;
+      this.rates = new Map(
+        Object.entries(data.rates).map(([currency, byDate]) => [currency, new Map(Object.entries(byDate))])
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      // No rates imported yet - foreign amounts stay unconverted
+      this.rates = new Map();
+    }
+
+    return this.rates;
+  }
+
+  private async persist(): Promise<void> {
+    const data: ExchangeRateFile = {
+      version: 1,
+      rates: Object.fromEntries(
+        Array.from(this.rates?.entries() ?? []).map(([currency, byDate]) => [
+          currency,
+          Object.fromEntries(Array.from(byDate.entries()).sort(([a], [b]) => a.localeCompare(b))),
+        ])
+      ),
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+let exchangeRateTable: ExchangeRateTable | null = null;
+
+export const getExchangeRateTable = (): ExchangeRateTable => {
+  exchangeRateTable ??= new ExchangeRateTable(ENV.exchangeRatesPath);
+  return exchangeRateTable;
+};
+
+/**
+ * ILS amount of a transaction: the statement's own ILS charge when there is one,
+ * otherwise the original amount converted at the Bank of Israel representative rate of its date
+ */
+export const resolveIlsAmount = async (transaction: {
+  currency: string;
+  originalAmount: number;
+  chargedAmount: number | null;
+  transactionDate: string | null;
+}): Promise<IlsAmount> => {
+  if (transaction.chargedAmount !== null) {
+    return { amount: transaction.chargedAmount, amountSource: 'charged', exchangeRate: null };
+  }
+  if (transaction.currency === 'ILS') {
+    return { amount: transaction.originalAmount, amountSource: 'charged', exchangeRate: null };
+  }
+
+  const rate = await getExchangeRateTable().getRate(transaction.currency, transaction.transactionDate);
+  if (!rate) {
+    console.warn(`⚠️ No ${transaction.currency} exchange rate for ${transaction.transactionDate ?? 'undated transaction'} - amount kept in ${transaction.currency} and left out of ILS totals`);
+    return { amount: transaction.originalAmount, amountSource: 'original', exchangeRate: null };
+  }
+
+  return {
+    amount: Math.round(transaction.originalAmount * rate.rate * 100) / 100,
+    amountSource: 'converted',
+    exchangeRate: rate.rate,
+  };
+};
+
+/**
+ * Whether a stored amount is in ILS and can be added to ILS totals (records stored before amountSource are)
+ */
+export const hasIlsAmount = (metadata: VectorMetadata): boolean => metadata.amountSource !== 'original';
+
+/**
+ * How a report lists a transaction it left out of its ILS totals
+ */
+export const toUnconvertedTransaction = ({ id, metadata }: { id: string; metadata: VectorMetadata }): UnconvertedTransaction => ({
+  id,
+  transactionDate: metadata.transactionDate ?? null,
+  merchant: metadata.merchantKey || metadata.originalText,
+  originalAmount: metadata.originalAmount ?? metadata.amount,
+  currency: metadata.currency,
+});
+
+const currencyFromHeader = (header: string): { currency: string; unit: number } | null => {
+  const upper = header.toUpperCase();
+  const unit = /(?<!\d)100(?!\d)/.test(header) ? 100 : 1;
+
+  const code = upper.match(/RER_([A-Z]{3})_ILS/)?.[1]
+    ?? upper.match(/(?<![A-Z])(?!ILS)([A-Z]{3})(?![A-Z])/)?.[1];
+  if (code) return { currency: code, unit };
+
+  const hebrew = HEBREW_CURRENCY_NAMES.find(([pattern]) => pattern.test(header));
+  return hebrew ? { currency: hebrew[1], unit } : null;
+};
+
+/**
+ * Parse a Bank of Israel exchange-rate export. Both layouts are supported:
+ * - wide: a date column and one column per currency (e.g. "DATE,RER_USD_ILS,RER_EUR_ILS" or Hebrew currency names)
+ * - long: series/currency, date and value columns (e.g. SDMX "SERIES_CODE,TIME_PERIOD,OBS_VALUE")
+ * Rates quoted per 100 units (a "100" in the column header) are divided down to one unit.
+ */
+export const parseExchangeRatesCsv = (input: string | Uint8Array): { entries: ExchangeRateEntry[]; skippedRows: number } => {
+  const [headerRow, ...rows] = parseCsv(decodeStatementText(input));
+  if (!headerRow) {
+    return { entries: [], skippedRows: 0 };
+  }
+
+  const headers = headerRow.cells.map(normalizeCell);
+  const findColumn = (pattern: RegExp) => headers.findIndex(header => pattern.test(header));
+
+  const dateIndex = findColumn(/^(?:date|time_period|תאריך)/i);
+  const valueIndex = findColumn(/^(?:obs_value|rate|value|שער)/i);
+  const seriesIndex = findColumn(/^(?:series|series_code|currency|מטבע)/i);
+
+  const entries: ExchangeRateEntry[] = [];
+  let skippedRows = 0;
+
+  for (const { cells } of rows) {
+    if (seriesIndex >= 0 && valueIndex >= 0) {
+      const series = currencyFromHeader(cells[seriesIndex] ?? '');
+      const date = parseDate(cells[dateIndex >= 0 ? dateIndex : 0] ?? '');
+      const rate = parseAmount(cells[valueIndex] ?? '');
+
+      if (series && date && rate && rate > 0) {
+        entries.push({ currency: series.currency, date, rate: rate / series.unit });
+      } else {
+        skippedRows++;
+      }
+      continue;
+    }
+
+    const date = parseDate(cells[dateIndex >= 0 ? dateIndex : 0] ?? '');
+    if (!date) {
+      skippedRows++;
+      continue;
+    }
+
+    headers.forEach((header, index) => {
+      if (index === (dateIndex >= 0 ? dateIndex : 0)) return;
+
+      const series = currencyFromHeader(header);
+      const rate = parseAmount(cells[index] ?? '');
+      if (series && rate && rate > 0) {
+        entries.push({ currency: series.currency, date, rate: rate / series.unit });
+      }
+    });
+  }
+
+  return { entries, skippedRows };
+};
+
+const exchangeRateEntrySchema = z.object({
+  currency: z.string().length(3).describe('ISO 4217 currency code'),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).describe('Publication date (YYYY-MM-DD)'),
+  rate: z.number().positive().describe('ILS per one unit of the currency'),
+});
+
+export const importExchangeRatesTool = createTool({
+  id: 'import-exchange-rates',
+  description: 'Import Bank of Israel representative exchange rates into the local rate table used to convert foreign-currency transactions without an ILS charge into shekels',
+  inputSchema: z.object({
+    csvText: z.string().optional().describe('Bank of Israel exchange-rate export (wide or SDMX long layout)'),
+    filePath: z.string().optional().describe('Local path of a Bank of Israel exchange-rate CSV file'),
+    rates: z.array(exchangeRateEntrySchema).optional().describe('Rates given directly'),
+  }).refine(input => input.csvText || input.filePath || input.rates, 'Provide csvText, filePath or rates'),
+  outputSchema: z.object({
+    imported: z.number().describe('Number of rates written'),
+    currencies: z.array(z.string()).describe('Currencies that received rates'),
+    skippedRows: z.number().describe('CSV rows without a valid date or rate'),
+    coverage: z.array(z.object({
+      currency: z.string(),
+      fromDate: z.string(),
+      toDate: z.string(),
+      count: z.number(),
+    })).describe('Date range covered per currency after the import'),
+  }),
+  execute: async ({ context }) => {
+    const parsed = context.filePath
+      ? parseExchangeRatesCsv(new Uint8Array(await fs.readFile(context.filePath)))
+      : context.csvText
+        ? parseExchangeRatesCsv(context.csvText)
+        : { entries: [], skippedRows: 0 };
+
+    const table = getExchangeRateTable();
+    const result = await table.import([...parsed.entries, ...(context.rates ?? [])]);
+
+    return {
+      ...result,
+      skippedRows: parsed.skippedRows,
+      coverage: await table.coverage(),
+    };
+  },
+});
@@ -0,0 +1,460 @@
+// Household registry: members, bank accounts and the cards linked to them, used to link each transaction to its owner
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ENV } from '../../config/environment';
+import {
+  BankAccount,
+  BankAccountSchema,
+  HouseholdCard,
+  HouseholdCardSchema,
+  HouseholdMember,
+  HouseholdMemberSchema,
+  TransactionOwner
+} from './types';
+import { VectorMetadataFilters } from './providers/base';
+import { createVectorStorageProvider } from './providers/factory';
+import { listAllTransactions } from './stored-transactions';
+
+interface HouseholdFile {
+  version: 1;
+  members: HouseholdMember[];
+  accounts: BankAccount[];
+  cards: HouseholdCard[];
+}
+
+interface Household {
+  members: Map<string, HouseholdMember>;
+  accounts: Map<string, BankAccount>;
+  cards: Map<string, HouseholdCard>;
+}
+
+/**
+ * Card and account a transaction was read with, from its statement or row
+ */
+export interface TransactionSource {
+  cardLastFour: string | null;
+  bankAccountNumber: string | null;
+}
+
+export interface MemberInput {
+  id: string;
+  name: string;
+}
+
+export interface BankAccountInput {
+  accountNumber: string;
+  bank?: string | null;
+  label?: string | null;
+  memberIds?: string[];
+}
+
+export interface CardInput {
+  lastFour: string;
+  accountNumber?: string | null;
+  memberId?: string | null;
+  label?: string | null;
+  issuer?: string | null;
+}
+
+const byName = <T>(key: (item: T) => string) => (a: T, b: T): number => key(a).localeCompare(key(b));
+
+/**
+ * Account and member of a transaction. The statement's account wins over the card's linked one; the member is the
+ * card owner, or the account owner when the account has exactly one.
+ */
+const resolveOwnerIn = (household: Household, source: TransactionSource): TransactionOwner => {
+  const card = source.cardLastFour ? household.cards.get(source.cardLastFour) : undefined;
+  const bankAccountNumber = source.bankAccountNumber ?? card?.accountNumber ?? null;
+  const account = bankAccountNumber ? household.accounts.get(bankAccountNumber) : undefined;
+  const soleOwner = account?.memberIds.length === 1 ? account.memberIds[0] : null;
+
+  return { bankAccountNumber, memberId: card?.memberId ?? soleOwner };
+};
+
+export class HouseholdRegistryStore {
+  private filePath: string;
+  private household: Household | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = 'data/household.json') {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async listMembers(): Promise<HouseholdMember[]> {
+    return Array.from((await this.load()).members.values()).sort(byName(member => member.name));
+  }
+
+  async listAccounts(): Promise<BankAccount[]> {
+    return Array.from((await this.load()).accounts.values()).sort(byName(account => account.accountNumber));
+  }
+
+  async listCards(): Promise<HouseholdCard[]> {
+    return Array.from((await this.load()).cards.values()).sort(byName(card => card.lastFour));
+  }
+
+  async getMember(id: string): Promise<HouseholdMember | null> {
+    return (await this.load()).members.get(id) ?? null;
+  }
+
+  async getAccount(accountNumber: string): Promise<BankAccount | null> {
+    return (await this.load()).accounts.get(accountNumber) ?? null;
+  }
+
+  async getCard(lastFour: string): Promise<HouseholdCard | null> {
+    return (await this.load()).cards.get(lastFour) ?? null;
+  }
+
+  /**
+   * Add a member, or rename the one with the same ID
+   */
+  async saveMember(input: MemberInput): Promise<HouseholdMember> {
+    console.log(`👤 Saving household member ${input.id} (${input.name})`);
+
+    return this.mutate(household => {
+      const now = new Date().toISOString();
+      const member: HouseholdMember = {
+        ...input,
+        createdAt: household.members.get(input.id)?.createdAt ?? now,
+        updatedAt: now,
+      };
+      household.members.set(input.id, member);
+      return member;
+    });
+  }
+
+  /**
+   * Add an account or update the given fields of an existing one
+   */
+  async saveAccount(input: BankAccountInput): Promise<BankAccount> {
+    console.log(`🏦 Saving bank account ${input.accountNumber}`);
+
+    return this.mutate(household => {
+      input.memberIds?.forEach(memberId => this.assertMember(household, memberId));
+
+      const existing = household.accounts.get(input.accountNumber);
+      const now = new Date().toISOString();
+      const account: BankAccount = {
+        accountNumber: input.accountNumber,
+        bank: input.bank !== undefined ? input.bank : existing?.bank ?? null,
+        label: input.label !== undefined ? input.label : existing?.label ?? null,
+        memberIds: input.memberIds ?? existing?.memberIds ?? [],
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      household.accounts.set(account.accountNumber, account);
+      return account;
+    });
+  }
+
+  /**
+   * Add a card or update the given fields of an existing one; linking it to an unknown account registers the account
+   */
+  async saveCard(input: CardInput): Promise<HouseholdCard> {
+    console.log(`💳 Saving card ${input.lastFour}`);
+
+    return this.mutate(household => {
+      if (input.memberId) {
+        this.assertMember(household, input.memberId);
+      }
+
+      const existing = household.cards.get(input.lastFour);
+      const now = new Date().toISOString();
+      const card: HouseholdCard = {
+        lastFour: input.lastFour,
+        accountNumber: input.accountNumber !== undefined ? input.accountNumber : existing?.accountNumber ?? null,
+        memberId: input.memberId !== undefined ? input.memberId : existing?.memberId ?? null,
+        label: input.label !== undefined ? input.label : existing?.label ?? null,
+        issuer: input.issuer !== undefined ? input.issuer : existing?.issuer ?? null,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      household.cards.set(card.lastFour, card);
+
+      if (card.accountNumber && !household.accounts.has(card.accountNumber)) {
+        household.accounts.set(card.accountNumber, this.newAccount(card.accountNumber, now));
+      }
+      return card;
+    });
+  }
+
+  /**
+   * Remove members, accounts and cards. Cards and accounts of a removed member lose their owner, cards of a removed
+   * account lose their account.
+   */
+  async delete(target: { memberIds?: string[]; accountNumbers?: string[]; cardLastFours?: string[] }): Promise<{
+    deletedMemberIds: string[];
+    deletedAccountNumbers: string[];
+    deletedCardLastFours: string[];
+  }> {
+    return this.mutate(household => {
+      const deletedMemberIds = (target.memberIds ?? []).filter(id => household.members.delete(id));
+      const deletedAccountNumbers = (target.accountNumbers ?? []).filter(number => household.accounts.delete(number));
+      const deletedCardLastFours = (target.cardLastFours ?? []).filter(lastFour => household.cards.delete(lastFour));
+
+      for (const card of household.cards.values()) {
+        if (card.memberId && deletedMemberIds.includes(card.memberId)) card.memberId = null;
+        if (card.accountNumber && deletedAccountNumbers.includes(card.accountNumber)) card.accountNumber = null;
+      }
+      for (const account of household.accounts.values()) {
+        account.memberIds = account.memberIds.filter(id => !deletedMemberIds.includes(id));
+      }
+
+      return { deletedMemberIds, deletedAccountNumbers, deletedCardLastFours };
+    });
+  }
+
+  /**
+   * Owner of a transaction from what the registry knows, without changing it
+   */
+  async resolveOwner(source: TransactionSource): Promise<TransactionOwner> {
+    return resolveOwnerIn(await this.load(), source);
+  }
+
+  /**
+   * Register the card and account of an ingested transaction when they are new (a card statement names the account
+   * it is debited from, so the card is linked to it), then resolve its owner
+   */
+  async linkSource(source: TransactionSource): Promise<TransactionOwner> {
+    const household = await this.load();
+    const card = source.cardLastFour ? household.cards.get(source.cardLastFour) : undefined;
+    const isNew = (source.bankAccountNumber && !household.accounts.has(source.bankAccountNumber))
+      || (source.cardLastFour && !card)
+      || (card && !card.accountNumber && source.bankAccountNumber);
+
+    if (!isNew) {
+      return resolveOwnerIn(household, source);
+    }
+
+    return this.mutate(current => {
+      const now = new Date().toISOString();
+
+      if (source.bankAccountNumber && !current.accounts.has(source.bankAccountNumber)) {
+        console.log(`🏦 New bank account ${source.bankAccountNumber} registered from a statement`);
+        current.accounts.set(source.bankAccountNumber, this.newAccount(source.bankAccountNumber, now));
+      }
+
+      if (source.cardLastFour) {
+        const existing = current.cards.get(source.cardLastFour);
+        if (!existing) {
+          console.log(`💳 New card ${source.cardLastFour} registered from a statement`);
+          current.cards.set(source.cardLastFour, {
+            lastFour: source.cardLastFour,
+            accountNumber: source.bankAccountNumber,
+            memberId: null,
+            label: null,
+            issuer: null,
+            createdAt: now,
+            updatedAt: now,
+          });
+        } else if (!existing.accountNumber && source.bankAccountNumber) {
+          existing.accountNumber = source.bankAccountNumber;
+          existing.updatedAt = now;
+        }
+      }
+
+      return resolveOwnerIn(current, source);
+    });
+  }
+
+  private newAccount(accountNumber: string, now: string): BankAccount {
+    return { accountNumber, bank: null, label: null, memberIds: [], createdAt: now, updatedAt: now };
+  }
+
+  private assertMember(household: Household, memberId: string): void {
+    if (!household.members.has(memberId)) {
+      throw new Error(`Unknown household member "${memberId}". Add it with save-household-member first.`);
+    }
+  }
+
+  private mutate<T>(change: (household: Household) => T): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      const result = change(await this.load());
+      await this.persist();
+      return result;
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<Household> {
+    if (this.household) return this.household;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as HouseholdFile;
+      this.household = {
+        members: new Map(data.members.map(member => [member.id, member])),
+        accounts: new Map(data.accounts.map(account => [account.accountNumber, account])),
+        cards: new Map(data.cards.map(card => [card.lastFour, card])),
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      // Nothing registered yet
+      this.household = { members: new Map(), accounts: new Map(), cards: new Map() };
+    }
+
+    return this.household;
+  }
+
+  private async persist(): Promise<void> {
+    const data: HouseholdFile = {
+      version: 1,
+      members: Array.from(this.household?.members.values() ?? []),
+      accounts: Array.from(this.household?.accounts.values() ?? []),
+      cards: Array.from(this.household?.cards.values() ?? []),
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+let householdRegistryStore: HouseholdRegistryStore | null = null;
+
+export const getHouseholdRegistryStore = (): HouseholdRegistryStore => {
+  householdRegistryStore ??= new HouseholdRegistryStore(ENV.householdRegistryPath);
+  return householdRegistryStore;
+};
+
+/**
+ * Re-resolve the account and member of stored transactions after the registry changed, so filters and reports
+ * see the new links. Returns the number of transactions updated.
+ */
+export const relinkTransactions = async (filters: VectorMetadataFilters): Promise<number> => {
+  const vectorProvider = createVectorStorageProvider();
+  const registry = getHouseholdRegistryStore();
+  let updated = 0;
+
+  for (const { id, metadata } of await listAllTransactions(vectorProvider, filters)) {
+    const card = metadata.cardLastFour ? await registry.getCard(metadata.cardLastFour) : null;
+    // A card linked to an account by the user moves its transactions to that account
+    const owner = await registry.resolveOwner({
+      cardLastFour: metadata.cardLastFour,
+      bankAccountNumber: card?.accountNumber ?? metadata.bankAccountNumber,
+    });
+
+    if (owner.bankAccountNumber === metadata.bankAccountNumber && owner.memberId === (metadata.memberId ?? null)) continue;
+
+    await vectorProvider.updateMetadata(id, { ...owner, updatedAt: new Date().toISOString() });
+    updated++;
+  }
+
+  if (updated > 0) {
+    console.log(`🔗 Relinked ${updated} stored transaction(s) to their household account and member`);
+  }
+  return updated;
+};
+
+export const saveHouseholdMemberTool = createTool({
+  id: 'save-household-member',
+  description: 'Add a household member (a person who owns cards or bank accounts), or rename an existing one',
+  inputSchema: z.object({
+    id: z.string().regex(/^[a-z0-9-]+$/).describe('Short stable ID, lowercase letters, digits and dashes (e.g. "dana")'),
+    name: z.string().min(1).describe('Display name'),
+  }),
+  outputSchema: z.object({
+    member: HouseholdMemberSchema,
+  }),
+  execute: async ({ context }) => {
+    return { member: await getHouseholdRegistryStore().saveMember(context) };
+  },
+});
+
+export const saveBankAccountTool = createTool({
+  id: 'save-bank-account',
+  description: 'Add a household bank account or update it (bank, label, owners); stored transactions of the account are relinked to its owner',
+  inputSchema: z.object({
+    accountNumber: z.string().regex(/^\d+$/).describe('Bank account number as printed on statements'),
+    bank: z.string().nullable().optional().describe('Bank name'),
+    label: z.string().nullable().optional().describe('Name for the account (e.g. "joint account")'),
+    memberIds: z.array(z.string()).optional().describe('Owners of the account; replaces the current owners'),
+  }),
+  outputSchema: z.object({
+    account: BankAccountSchema,
+    relinkedTransactions: z.number().describe('Stored transactions whose member changed'),
+  }),
+  execute: async ({ context }) => {
+    const account = await getHouseholdRegistryStore().saveAccount(context);
+    return { account, relinkedTransactions: await relinkTransactions({ bankAccountNumber: account.accountNumber }) };
+  },
+});
+
+export const saveCardTool = createTool({
+  id: 'save-card',
+  description: 'Add a household card or update it: the bank account it is debited from, the member who owns it, a label and the issuer. Stored transactions of the card are relinked to its account and owner.',
+  inputSchema: z.object({
+    lastFour: z.string().regex(/^\d{4}$/).describe('Last four digits of the card'),
+    accountNumber: z.string().regex(/^\d+$/).nullable().optional().describe('Bank account the card is debited from'),
+    memberId: z.string().nullable().optional().describe('Member who owns the card'),
+    label: z.string().nullable().optional().describe('Name for the card (e.g. "Dana\'s Visa")'),
+    issuer: z.string().nullable().optional().describe('Card issuer (Isracard, Max, Cal...)'),
+  }),
+  outputSchema: z.object({
+    card: HouseholdCardSchema,
+    relinkedTransactions: z.number().describe('Stored transactions whose account or member changed'),
+  }),
+  execute: async ({ context }) => {
+    const card = await getHouseholdRegistryStore().saveCard(context);
+    return { card, relinkedTransactions: await relinkTransactions({ cardLastFour: card.lastFour }) };
+  },
+});
+
+export const listHouseholdTool = createTool({
+  id: 'list-household',
+  description: 'List the household members, bank accounts and cards, with the account and owner each card is linked to',
+  inputSchema: z.object({}),
+  outputSchema: z.object({
+    members: z.array(HouseholdMemberSchema),
+    accounts: z.array(BankAccountSchema),
+    cards: z.array(HouseholdCardSchema),
+  }),
+  execute: async () => {
+    const registry = getHouseholdRegistryStore();
+    return {
+      members: await registry.listMembers(),
+      accounts: await registry.listAccounts(),
+      cards: await registry.listCards(),
+    };
+  },
+});
+
+export const deleteHouseholdEntriesTool = createTool({
+  id: 'delete-household-entries',
+  description: 'Remove household members, bank accounts or cards; stored transactions linked to them are relinked without them',
+  inputSchema: z.object({
+    memberIds: z.array(z.string()).optional().describe('Members to remove'),
+    accountNumbers: z.array(z.string().regex(/^\d+$/)).optional().describe('Bank accounts to remove'),
+    cardLastFours: z.array(z.string().regex(/^\d{4}$/)).optional().describe('Cards to remove'),
+  }).refine(
+    input => [input.memberIds, input.accountNumbers, input.cardLastFours].some(list => list && list.length > 0),
+    { message: 'Pass memberIds, accountNumbers or cardLastFours' }
+  ),
+  outputSchema: z.object({
+    deletedMemberIds: z.array(z.string()),
+    deletedAccountNumbers: z.array(z.string()),
+    deletedCardLastFours: z.array(z.string()),
+    relinkedTransactions: z.number(),
+  }),
+  execute: async ({ context }) => {
+    const deleted = await getHouseholdRegistryStore().delete(context);
+
+    const filters: VectorMetadataFilters[] = [
+      ...deleted.deletedMemberIds.map(memberId => ({ memberId })),
+      ...deleted.deletedAccountNumbers.map(bankAccountNumber => ({ bankAccountNumber })),
+      ...deleted.deletedCardLastFours.map(cardLastFour => ({ cardLastFour })),
+    ];
+
+    let relinkedTransactions = 0;
+    for (const filter of filters) {
+      relinkedTransactions += await relinkTransactions(filter);
+    }
+    return { ...deleted, relinkedTransactions };
+  },
+});
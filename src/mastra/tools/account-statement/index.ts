@@ -1,13 +1,73 @@
-// Account Statement Analysis Tools - Cloudflare Vectorize
+// Account Statement Analysis Tools
 
 // Core tools
 export { creditCardDataExtractorTool } from './credit-card-extractor';
 export { transactionAnalyzerTool } from './transaction-analyzer';
 export { vectorSearchTool } from './vector-search';
+export { duplicateCheckTool } from './duplicate-check';
+export { statementParserTool } from './statement-parser';
+export { excelStatementImportTool } from './excel-import';
+export { bankFileImportTool } from './bank-file-import';
+export { statementReconciliationTool } from './reconciliation';
+export { importExchangeRatesTool } from './exchange-rates';
+export { installmentCommitmentsTool } from './installments';
+export { refundMatchingTool } from './refund-matching';
+export { spendingReportTool } from './spending-report';
+export {
+  saveBudgetTool,
+  listBudgetsTool,
+  deleteBudgetsTool,
+  checkBudgetsTool
+} from './budgets';
+export { detectSubscriptionsTool } from './subscriptions';
+export { cashFlowForecastTool } from './cash-flow-forecast';
+export {
+  detectAnomaliesTool,
+  saveCardReplacementTool,
+  listCardReplacementsTool,
+  deleteCardReplacementsTool
+} from './anomaly-detection';
+export {
+  saveHouseholdMemberTool,
+  saveBankAccountTool,
+  saveCardTool,
+  listHouseholdTool,
+  deleteHouseholdEntriesTool
+} from './household-registry';
+export { listStatementsTool } from './ledger';
+export { rebuildVectorIndexTool, backfillLedgerTool } from './vector-index-rebuild';
+export {
+  exportTransactionsTool,
+  saveExportCategoryMappingTool,
+  listExportCategoryMappingsTool
+} from './transaction-export';
+export {
+  listMerchantRulesTool,
+  saveMerchantRuleTool,
+  deleteMerchantRulesTool
+} from './merchant-rules';
+export {
+  listCategoriesTool,
+  saveCategoryTool,
+  migrateCategoriesTool
+} from './category-taxonomy';
+export {
+  listPendingReviewsTool,
+  approveReviewsTool,
+  correctReviewsTool
+} from './review-queue';
+export {
+  getTransactionTool,
+  updateTransactionTool,
+  deleteTransactionsTool,
+  listTransactionsTool,
+  countTransactionsTool
+} from './transaction-management';
 
 // Vector storage provider implementations and factory
 export {
   CloudflareVectorizeProvider,
+  LocalFileVectorProvider,
   createVectorStorageProvider,
   getProviderInfo
 } from './providers/vector-storage';
@@ -18,7 +78,11 @@ export type {
   VectorRecord,
   VectorSearchResult,
   VectorSearchOptions,
-  VectorMetadata
+  VectorMetadata,
+  VectorMetadataFilters,
+  VectorListOptions,
+  VectorListResult,
+  VectorDeleteTarget
 } from './providers/vector-storage';
 
 // Schema exports (Zod schemas)
@@ -26,7 +90,44 @@ export {
   CreditCardDataSchema,
   TransactionAnalysisSchema,
   TransactionTypeSchema,
-  TransactionCategorySchema
+  TransactionCategorySchema,
+  CategoryDefinitionSchema,
+  CategoryMigrationSchema,
+  CategoryTaxonomySchema,
+  CategorySourceSchema,
+  ParsedTransactionRowSchema,
+  SkippedStatementRowSchema,
+  InstallmentSchema,
+  ReconciliationReportSchema,
+  RefundMatchSchema,
+  UnmatchedRefundSchema,
+  RefundMatchingReportSchema,
+  MerchantRuleSchema,
+  ReviewItemSchema,
+  ReviewCorrectionSchema,
+  ReviewResolutionSchema,
+  UnconvertedTransactionSchema,
+  BudgetSchema,
+  BudgetStatusSchema,
+  BudgetWarningSchema,
+  BudgetCheckReportSchema,
+  SubscriptionCadenceSchema,
+  SubscriptionPriceChangeSchema,
+  SubscriptionSchema,
+  SubscriptionReportSchema,
+  AnomalySeveritySchema,
+  AnomalyReasonSchema,
+  AnomalySchema,
+  AnomalyReportSchema,
+  CardReplacementSchema,
+  CashFlowEventSchema,
+  CashFlowPeriodSchema,
+  CashFlowForecastSchema,
+  HouseholdMemberSchema,
+  BankAccountSchema,
+  HouseholdCardSchema,
+  TransactionOwnerSchema,
+  LedgerStatementSchema
 } from './types';
 
 // Type exports (TypeScript types)
@@ -34,8 +135,121 @@ export type {
   CreditCardData,
   TransactionAnalysis,
   TransactionType,
-  TransactionCategory
+  TransactionCategory,
+  CategoryDefinition,
+  CategoryMigration,
+  CategoryTaxonomy,
+  CategorySource,
+  ParsedTransactionRow,
+  Installment,
+  ReconciliationCause,
+  ReconciliationReport,
+  RefundMatch,
+  UnmatchedRefund,
+  RefundMatchingReport,
+  MerchantRule,
+  ReviewItem,
+  ReviewCorrection,
+  ReviewResolution,
+  UnconvertedTransaction,
+  Budget,
+  BudgetStatus,
+  BudgetWarning,
+  BudgetCheckReport,
+  SubscriptionCadence,
+  SubscriptionPriceChange,
+  Subscription,
+  SubscriptionReport,
+  AnomalySeverity,
+  AnomalyReason,
+  Anomaly,
+  AnomalyReport,
+  CardReplacement,
+  CashFlowEvent,
+  CashFlowPeriod,
+  CashFlowForecast,
+  HouseholdMember,
+  BankAccount,
+  HouseholdCard,
+  TransactionOwner,
+  LedgerStatement
 } from './types';
 
 // Utilities
-export { generatePromptFromSchema, getFieldDescription } from './schema-prompt-generator'; 
\ No newline at end of file
+export { generatePromptFromSchema, getFieldDescription } from './schema-prompt-generator';
+export {
+  buildTransactionFingerprint,
+  buildRowFingerprint,
+  buildMerchantKey,
+  createTransactionId,
+  createInstallmentGroupId,
+  findPossibleDuplicates,
+  merchantSimilarity
+} from './transaction-identity';
+export type { TransactionFingerprint, PossibleDuplicate } from './transaction-identity';
+export { reconcileStatement } from './reconciliation';
+export {
+  ExchangeRateTable,
+  getExchangeRateTable,
+  resolveIlsAmount,
+  hasIlsAmount,
+  parseExchangeRatesCsv
+} from './exchange-rates';
+export type { ExchangeRateEntry, IlsAmount } from './exchange-rates';
+export { buildInstallmentMetadata, listInstallmentCommitments } from './installments';
+export type { InstallmentCommitment, CardInstallmentCommitments } from './installments';
+export { listAllTransactions } from './stored-transactions';
+export { matchRefunds, netSpendingAmount } from './refund-matching';
+export { MerchantRuleStore, getMerchantRuleStore } from './merchant-rules';
+export { classifyByNeighbors, buildTemplateSummaries, KNN_DEFAULTS } from './knn-classifier';
+export type { KnnClassification, KnnOptions } from './knn-classifier';
+export type { MerchantRuleInput } from './merchant-rules';
+export {
+  CategoryTaxonomyStore,
+  getCategoryTaxonomyStore,
+  buildCategorySchema,
+  migrateCategories,
+  DEFAULT_CATEGORIES
+} from './category-taxonomy';
+export type { CategoryMigrationResult } from './category-taxonomy';
+export { ReviewQueueStore, getReviewQueueStore, needsReview, resolveReviews } from './review-queue';
+export { buildSpendingReport, renderSpendingReportTable } from './spending-report';
+export type {
+  SpendingReport,
+  SpendingReportOptions,
+  SpendingGroup,
+  SpendingDimension,
+  MonthlySpending
+} from './spending-report';
+export { BudgetStore, getBudgetStore, checkBudgets } from './budgets';
+export type { BudgetInput } from './budgets';
+export { detectSubscriptions, SUBSCRIPTION_DEFAULTS } from './subscriptions';
+export type { SubscriptionDetectionOptions } from './subscriptions';
+export { CardReplacementStore, getCardReplacementStore, detectAnomalies, ANOMALY_DEFAULTS } from './anomaly-detection';
+export type { AnomalyDetectionOptions } from './anomaly-detection';
+export { forecastCashFlow } from './cash-flow-forecast';
+export type { CashFlowForecastOptions } from './cash-flow-forecast';
+export { HouseholdRegistryStore, getHouseholdRegistryStore, relinkTransactions } from './household-registry';
+export type { TransactionSource, MemberInput, BankAccountInput, CardInput } from './household-registry';
+export { TransactionLedger, getTransactionLedger, createStatementId } from './ledger';
+export type { LedgerTransaction } from './ledger';
+export { rebuildVectorIndex, backfillLedger } from './vector-index-rebuild';
+export type { VectorIndexRebuildResult } from './vector-index-rebuild';
+
+// Deterministic statement parsing
+export {
+  parseStatementCsv,
+  parseStatementTable,
+  extractStatementHeaderData,
+  formatRowForAnalysis,
+  parseStatementWorkbook,
+  parseTransactionText,
+  STATEMENT_PROFILES
+} from './parsers';
+export type {
+  ParsedStatement,
+  ParsedWorkbook,
+  ParsedTransactionText,
+  StatementProfile,
+  StatementProfileId
+} from './parsers';
@@ -0,0 +1,224 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { createVectorStorageProvider } from './providers/factory';
+import { VectorMetadata } from './providers/base';
+import { TransactionFingerprint, createInstallmentGroupId } from './transaction-identity';
+import { IlsAmount } from './exchange-rates';
+import { listAllTransactions } from './stored-transactions';
+
+type InstallmentMetadata = Pick<
+  VectorMetadata,
+  'installmentNumber' | 'installmentCount' | 'installmentDealAmount' | 'installmentRemaining' | 'installmentGroupId'
+>;
+
+export interface InstallmentCommitment {
+  groupId: string;
+  merchant: string;
+  purchaseDate: string | null;
+  payment: number;
+  dealAmount: number;
+  paidCount: number;
+  totalCount: number;
+  remainingCount: number;
+  remainingBalance: number;
+  nextPaymentMonth: string | null;
+  finalPaymentMonth: string;
+}
+
+export interface CardInstallmentCommitments {
+  cardLastFour: string | null;
+  bankAccountNumber: string | null;
+  remainingBalance: number;
+  commitments: InstallmentCommitment[];
+  schedule: Array<{ month: string; amount: number }>;
+}
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Installment fields of a stored transaction. The deal amount comes from the export when it lists
+ * the whole purchase next to the payment, otherwise it is the payment times the number of payments.
+ */
+export const buildInstallmentMetadata = (
+  fingerprint: TransactionFingerprint,
+  ilsAmount: IlsAmount
+): InstallmentMetadata => {
+  const { installment } = fingerprint;
+  if (!installment) {
+    return {
+      installmentNumber: null,
+      installmentCount: null,
+      installmentDealAmount: null,
+      installmentRemaining: null,
+      installmentGroupId: null,
+    };
+  }
+
+  const payment = ilsAmount.amount;
+  const listedDeal = fingerprint.currency === 'ILS' && Math.abs(fingerprint.originalAmount) > Math.abs(payment) + 0.01
+    ? fingerprint.originalAmount
+    : null;
+
+  return {
+    installmentNumber: installment.number,
+    installmentCount: installment.total,
+    installmentDealAmount: round(listedDeal ?? payment * installment.total),
+    installmentRemaining: round(payment * (installment.total - installment.number)),
+    installmentGroupId: createInstallmentGroupId(fingerprint),
+  };
+};
+
+const toMonth = (isoDate: string): string => isoDate.slice(0, 7);
+
+const addMonths = (month: string, count: number): string => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, monthNumber - 1 + count, 1));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Month the latest recorded payment was charged in: its charge date, or - for card deals,
+ * where payment n is charged about n months after the purchase - estimated from the purchase date
+ */
+const paymentMonth = (metadata: VectorMetadata): string | null => {
+  if (metadata.chargeDate) return toMonth(metadata.chargeDate);
+  if (!metadata.transactionDate) return null;
+  return addMonths(toMonth(metadata.transactionDate), metadata.installmentNumber ?? 1);
+};
+
+/**
+ * Outstanding installment payments per card, projected month by month from the latest stored payment of each deal
+ */
+export const listInstallmentCommitments = async (options: {
+  cardLastFour?: string;
+  bankAccountNumber?: string;
+  memberId?: string;
+  months?: number;
+  asOf?: string;
+} = {}): Promise<{ asOf: string; cards: CardInstallmentCommitments[]; remainingBalance: number }> => {
+  const asOf = options.asOf ?? new Date().toISOString().slice(0, 10);
+  const firstMonth = toMonth(asOf);
+  const lastMonth = addMonths(firstMonth, (options.months ?? 12) - 1);
+
+  const vectorProvider = createVectorStorageProvider();
+  const records = await listAllTransactions(vectorProvider, {
+    transactionType: 'installment',
+    cardLastFour: options.cardLastFour,
+    bankAccountNumber: options.bankAccountNumber,
+    memberId: options.memberId,
+  });
+
+  // Latest stored payment of every deal
+  const latestByGroup = new Map<string, VectorMetadata>();
+  for (const { metadata } of records) {
+    if (!metadata.installmentGroupId || metadata.installmentNumber == null || metadata.installmentCount == null) continue;
+
+    const current = latestByGroup.get(metadata.installmentGroupId);
+    if (!current || metadata.installmentNumber > current.installmentNumber!) {
+      latestByGroup.set(metadata.installmentGroupId, metadata);
+    }
+  }
+
+  const cards = new Map<string, CardInstallmentCommitments>();
+
+  for (const [groupId, latest] of Array.from(latestByGroup.entries())) {
+    const lastPaidMonth = paymentMonth(latest);
+    const left = latest.installmentCount! - latest.installmentNumber!;
+    if (!lastPaidMonth || left <= 0) continue;
+
+    // Payments due from the as-of month on; earlier ones are assumed paid even if their statement is not stored
+    const dueMonths = Array.from({ length: left }, (_, i) => addMonths(lastPaidMonth, i + 1))
+      .filter(month => month >= firstMonth);
+    if (dueMonths.length === 0) continue;
+
+    const cardKey = latest.cardLastFour ?? latest.bankAccountNumber ?? '';
+    if (!cards.has(cardKey)) {
+      cards.set(cardKey, {
+        cardLastFour: latest.cardLastFour ?? null,
+        bankAccountNumber: latest.bankAccountNumber ?? null,
+        remainingBalance: 0,
+        commitments: [],
+        schedule: [],
+      });
+    }
+    const card = cards.get(cardKey)!;
+
+    const remainingBalance = round(latest.amount * dueMonths.length);
+    card.commitments.push({
+      groupId,
+      merchant: latest.originalText,
+      purchaseDate: latest.transactionDate,
+      payment: latest.amount,
+      dealAmount: latest.installmentDealAmount ?? round(latest.amount * latest.installmentCount!),
+      paidCount: latest.installmentCount! - dueMonths.length,
+      totalCount: latest.installmentCount!,
+      remainingCount: dueMonths.length,
+      remainingBalance,
+      nextPaymentMonth: dueMonths[0] ?? null,
+      finalPaymentMonth: dueMonths[dueMonths.length - 1],
+    });
+    card.remainingBalance = round(card.remainingBalance + remainingBalance);
+
+    for (const month of dueMonths.filter(month => month <= lastMonth)) {
+      const entry = card.schedule.find(candidate => candidate.month === month);
+      if (entry) {
+        entry.amount = round(entry.amount + latest.amount);
+      } else {
+        card.schedule.push({ month, amount: latest.amount });
+      }
+    }
+  }
+
+  const result = Array.from(cards.values()).map(card => ({
+    ...card,
+    commitments: card.commitments.sort((a, b) => b.remainingBalance - a.remainingBalance),
+    schedule: card.schedule.sort((a, b) => a.month.localeCompare(b.month)),
+  }));
+
+  return {
+    asOf,
+    cards: result,
+    remainingBalance: round(result.reduce((total, card) => total + card.remainingBalance, 0)),
+  };
+};
+
+export const installmentCommitmentsTool = createTool({
+  id: 'list-installment-commitments',
+  description: 'List outstanding installment (תשלומים) commitments per card: remaining payments and balance of every installment purchase and the amount due in each of the coming months',
+  inputSchema: z.object({
+    cardLastFour: z.string().regex(/^\d{4}$/).optional().describe('Only this card'),
+    bankAccountNumber: z.string().regex(/^\d+$/).optional().describe('Only the cards linked to this bank account'),
+    memberId: z.string().optional().describe('Only the cards of this household member'),
+    months: z.number().min(1).max(60).default(12).describe('Number of months to project, starting with the as-of month'),
+    asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Project from this date (YYYY-MM-DD), defaults to today'),
+  }),
+  outputSchema: z.object({
+    asOf: z.string(),
+    remainingBalance: z.number().describe('ILS still to be paid across all cards'),
+    cards: z.array(z.object({
+      cardLastFour: z.string().nullable(),
+      bankAccountNumber: z.string().nullable(),
+      remainingBalance: z.number().describe('ILS still to be paid on this card'),
+      commitments: z.array(z.object({
+        groupId: z.string().describe('Shared ID of all payments of the purchase'),
+        merchant: z.string(),
+        purchaseDate: z.string().nullable(),
+        payment: z.number().describe('Monthly payment in ILS'),
+        dealAmount: z.number().describe('Whole purchase amount in ILS'),
+        paidCount: z.number(),
+        totalCount: z.number(),
+        remainingCount: z.number(),
+        remainingBalance: z.number(),
+        nextPaymentMonth: z.string().nullable().describe('YYYY-MM'),
+        finalPaymentMonth: z.string().describe('YYYY-MM'),
+      })),
+      schedule: z.array(z.object({
+        month: z.string().describe('YYYY-MM'),
+        amount: z.number().describe('Installment payments due in ILS'),
+      })).describe('Installment payments due per month'),
+    })),
+  }),
+  execute: async ({ context }) => {
+    return await listInstallmentCommitments(context);
+  },
+});
@@ -0,0 +1,130 @@
+// Nearest-neighbor categorization: label a transaction like the stored transactions closest to it
+
+import { VectorMetadata, VectorStorageProvider } from './providers/base';
+import { CategoryDefinition, TransactionCategory, TransactionType } from './types';
+
+export interface KnnOptions {
+  /** Neighbors fetched from the store */
+  topK?: number;
+  /** Neighbors less similar than this do not vote */
+  minSimilarity?: number;
+  /** Fewer voting neighbors than this is never enough */
+  minNeighbors?: number;
+  /** Share of the weighted vote the winning category and type both need */
+  threshold?: number;
+}
+
+export interface KnnClassification {
+  category: TransactionCategory;
+  transactionType: TransactionType;
+  /** Weighted share of the neighbors agreeing with the category and the type, the lower of the two */
+  confidence: number;
+  neighborIds: string[];
+}
+
+export const KNN_DEFAULTS: Required<KnnOptions> = {
+  topK: 10,
+  minSimilarity: 0.5,
+  minNeighbors: 3,
+  threshold: 0.8,
+};
+
+// User corrections count most; labels this classifier produced itself count least, so it does not feed on itself
+const SOURCE_WEIGHTS: Record<string, number> = { user: 1.5, rule: 1.2, llm: 1, knn: 0.5 };
+
+const TYPE_LABELS: Record<TransactionType, { he: string; en: string }> = {
+  regular: { he: 'רכישה', en: 'Purchase' },
+  monthly: { he: 'תשלום חודשי', en: 'Monthly payment' },
+  credit: { he: 'זיכוי', en: 'Credit' },
+  installment: { he: 'תשלום', en: 'Installment payment' },
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Winning label of a weighted vote and its share of the total weight
+ */
+const vote = <T extends string>(ballots: Array<{ label: T; weight: number }>): { label: T; share: number } => {
+  const totals = new Map<T, number>();
+  ballots.forEach(({ label, weight }) => totals.set(label, (totals.get(label) ?? 0) + weight));
+
+  const [label, weight] = Array.from(totals.entries()).sort((a, b) => b[1] - a[1])[0];
+  const total = ballots.reduce((sum, ballot) => sum + ballot.weight, 0);
+
+  return { label, share: total > 0 ? weight / total : 0 };
+};
+
+/**
+ * Classify a transaction from its nearest stored neighbors. Returns null when too few neighbors are close
+ * enough or they disagree - those cases go to the LLM. Only neighbors on the same side (charge or credit)
+ * vote, so a refund is not typed like the purchases at the same merchant.
+ */
+export const classifyByNeighbors = async (
+  queryVector: number[],
+  vectorProvider: VectorStorageProvider,
+  transaction: { amount: number; excludeId?: string },
+  options: KnnOptions = {}
+): Promise<KnnClassification | null> => {
+  const { topK, minSimilarity, minNeighbors, threshold } = { ...KNN_DEFAULTS, ...options };
+  const isCredit = transaction.amount < 0;
+
+  const neighbors = (await vectorProvider.search(queryVector, { topK }))
+    .filter(result => result.id !== transaction.excludeId)
+    .filter(result => result.score >= minSimilarity)
+    .filter(result => (result.metadata.amount < 0) === isCredit);
+
+  if (neighbors.length < minNeighbors) {
+    return null;
+  }
+
+  const weightOf = (metadata: VectorMetadata, score: number): number =>
+    score * (SOURCE_WEIGHTS[metadata.categorySource ?? 'llm'] ?? 1);
+
+  const category = vote(neighbors.map(({ metadata, score }) => ({
+    label: metadata.category as TransactionCategory,
+    weight: weightOf(metadata, score),
+  })));
+
+  // Installments are recognized from their counter, not from similar purchases
+  const transactionType = vote(neighbors.map(({ metadata, score }) => ({
+    label: (metadata.transactionType === 'installment' ? 'regular' : metadata.transactionType) as TransactionType,
+    weight: weightOf(metadata, score),
+  })));
+
+  const confidence = round(Math.min(category.share, transactionType.share));
+  if (confidence < threshold) {
+    console.log(`🧭 Neighbors disagree (confidence ${confidence}) - falling back to the LLM`);
+    return null;
+  }
+
+  return {
+    category: category.label,
+    transactionType: transactionType.label,
+    confidence,
+    neighborIds: neighbors.map(neighbor => neighbor.id),
+  };
+};
+
+/**
+ * Summaries for a transaction categorized without the LLM, in the same "merchant + amount + nature" shape
+ * the analyzer prompt asks for, so their embeddings sit next to the LLM-written ones
+ */
+export const buildTemplateSummaries = (transaction: {
+  merchantText: string;
+  amount: number;
+  currency: string;
+  categoryLabels: CategoryDefinition['labels'];
+  transactionType: TransactionType;
+}): { summary: string; englishSummary: string } => {
+  const type = TYPE_LABELS[transaction.transactionType];
+  const category = transaction.categoryLabels;
+  const absolute = Math.abs(transaction.amount);
+  const amount = Number.isInteger(absolute) ? String(absolute) : absolute.toFixed(2);
+  const hebrewCurrency = transaction.currency === 'ILS' ? 'שקלים' : transaction.currency;
+  const englishCurrency = transaction.currency === 'ILS' ? 'NIS' : transaction.currency;
+
+  return {
+    summary: `${type.he} ב${transaction.merchantText} בסך ${amount} ${hebrewCurrency} בקטגוריית ${category.he}`,
+    englishSummary: `${type.en} at ${transaction.merchantText} for ${amount} ${englishCurrency} in the ${category.en} category`,
+  };
+};
@@ -0,0 +1,382 @@
+// Transaction ledger: relational record (libsql) of statements, transactions, categories and accounts.
+// It is written before the vector index, which can be rebuilt from it.
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { createClient, Client, InStatement, Row } from '@libsql/client';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ENV } from '../../config/environment';
+import { VectorMetadata, VectorRecord } from './providers/base';
+import { StatementSource } from './transaction-identity';
+import { parseDate } from './parsers';
+import { CategoryTaxonomy, LedgerStatement, LedgerStatementSchema } from './types';
+
+/**
+ * Transaction as stored in the ledger; `values` is null when it was recorded without its embedding
+ */
+export interface LedgerTransaction {
+  id: string;
+  metadata: VectorMetadata;
+  values: number[] | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS accounts (
+    account_key TEXT PRIMARY KEY,          -- Card last four digits, or the bank account number
+    kind TEXT NOT NULL,                    -- card | bank
+    card_last_four TEXT,
+    bank_account_number TEXT,              -- For a card: the account it is debited from
+    member_id TEXT,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS categories (
+    id TEXT PRIMARY KEY,
+    parent_id TEXT,
+    label_he TEXT NOT NULL,
+    label_en TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS statements (
+    id TEXT PRIMARY KEY,
+    account_key TEXT REFERENCES accounts(account_key),
+    card_last_four TEXT,
+    bank_account_number TEXT,
+    statement_date TEXT,                   -- YYYY-MM-DD
+    first_imported_at TEXT NOT NULL,
+    last_imported_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS transactions (
+    id TEXT PRIMARY KEY,                   -- Also the ID of the transaction's vector
+    statement_id TEXT REFERENCES statements(id),
+    account_key TEXT REFERENCES accounts(account_key),
+    category TEXT,                         -- categories.id, unenforced: records older than the taxonomy keep theirs
+    transaction_type TEXT NOT NULL,
+    transaction_date TEXT,
+    charge_date TEXT,
+    amount REAL NOT NULL,                  -- ILS
+    currency TEXT NOT NULL,
+    original_amount REAL NOT NULL,
+    merchant_key TEXT NOT NULL,
+    member_id TEXT,
+    original_text TEXT NOT NULL,
+    metadata TEXT NOT NULL,                -- Complete vector metadata (JSON)
+    embedding BLOB,                        -- Float32 vector, so the index can be rebuilt without new embedding calls
+    embedding_model TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS transactions_by_date ON transactions (transaction_date);
+  CREATE INDEX IF NOT EXISTS transactions_by_statement ON transactions (statement_id);
+  CREATE INDEX IF NOT EXISTS transactions_by_category ON transactions (category);
+  CREATE INDEX IF NOT EXISTS transactions_by_account ON transactions (account_key);
+`;
+
+// Columns taken from the metadata; the embedding is written separately so metadata updates keep it
+const TRANSACTION_COLUMNS = [
+  'statement_id', 'account_key', 'category', 'transaction_type', 'transaction_date', 'charge_date', 'amount', 'currency',
+  'original_amount', 'merchant_key', 'member_id', 'original_text', 'metadata', 'created_at', 'updated_at',
+] as const;
+
+const accountKeyOf = (metadata: Pick<VectorMetadata, 'cardLastFour' | 'bankAccountNumber'>): string | null =>
+  metadata.cardLastFour ?? metadata.bankAccountNumber ?? null;
+
+/**
+ * Statements are identified by their card or account and statement date, so re-importing one updates it
+ */
+export const createStatementId = (source: StatementSource): string | null => {
+  const accountKey = source.lastFourDigits ?? source.bankAccountNumber;
+  const statementDate = source.statementDate ? parseDate(source.statementDate) : null;
+  if (!accountKey || !statementDate) return null;
+
+  return `stmt_${createHash('sha256').update(`${accountKey}|${statementDate}`).digest('hex').slice(0, 16)}`;
+};
+
+// Records stored before a field existed lack it; the ledger stores null instead
+const transactionValues = (metadata: VectorMetadata): Array<string | number | null> => [
+  metadata.statementId ?? null,
+  accountKeyOf(metadata),
+  metadata.category,
+  metadata.transactionType,
+  metadata.transactionDate ?? null,
+  metadata.chargeDate ?? null,
+  metadata.amount,
+  metadata.currency ?? 'ILS',
+  metadata.originalAmount ?? metadata.amount,
+  metadata.merchantKey ?? '',
+  metadata.memberId ?? null,
+  metadata.originalText,
+  JSON.stringify(metadata),
+  metadata.createdAt,
+  metadata.updatedAt ?? metadata.createdAt,
+];
+
+const encodeEmbedding = (values: number[]): Uint8Array => new Uint8Array(new Float32Array(values).buffer);
+
+const decodeEmbedding = (blob: unknown): number[] | null => {
+  if (!(blob instanceof ArrayBuffer) || blob.byteLength === 0) return null;
+  return Array.from(new Float32Array(blob));
+};
+
+const toLedgerTransaction = (row: Row): LedgerTransaction => ({
+  id: String(row.id),
+  metadata: JSON.parse(String(row.metadata)) as VectorMetadata,
+  values: decodeEmbedding(row.embedding),
+});
+
+export class TransactionLedger {
+  private url: string;
+  private authToken?: string;
+  private ready: Promise<Client> | null = null;
+
+  constructor(url: string = 'file:data/ledger.db', authToken?: string) {
+    this.url = url;
+    this.authToken = authToken;
+  }
+
+  /**
+   * Create or update the statement a transaction batch was imported from; null when the source does not identify one
+   */
+  async recordStatement(source: StatementSource): Promise<string | null> {
+    const id = createStatementId(source);
+    if (!id) return null;
+
+    const accountKey = source.lastFourDigits ?? source.bankAccountNumber!;
+    const now = new Date().toISOString();
+    const client = await this.client();
+
+    await client.batch([
+      ...this.accountStatements({ cardLastFour: source.lastFourDigits ?? null, bankAccountNumber: source.bankAccountNumber ?? null }, null, now),
+      {
+        sql: `INSERT INTO statements (id, account_key, card_last_four, bank_account_number, statement_date, first_imported_at, last_imported_at)
+              VALUES (?, ?, ?, ?, ?, ?, ?)
+              ON CONFLICT (id) DO UPDATE SET last_imported_at = excluded.last_imported_at,
+                bank_account_number = COALESCE(excluded.bank_account_number, statements.bank_account_number)`,
+        args: [id, accountKey, source.lastFourDigits ?? null, source.bankAccountNumber ?? null, parseDate(source.statementDate!), now, now],
+      },
+    ], 'write');
+
+    console.log(`📒 Ledger statement ${id} (${accountKey}, ${source.statementDate})`);
+    return id;
+  }
+
+  /**
+   * Keep the categories table in step with the taxonomy; categories removed from the taxonomy stay for old transactions
+   */
+  async syncCategories(taxonomy: CategoryTaxonomy): Promise<void> {
+    const client = await this.client();
+    await client.batch(taxonomy.categories.map(category => ({
+      sql: `INSERT INTO categories (id, parent_id, label_he, label_en) VALUES (?, ?, ?, ?)
+            ON CONFLICT (id) DO UPDATE SET parent_id = excluded.parent_id, label_he = excluded.label_he, label_en = excluded.label_en`,
+      args: [category.id, category.parentId ?? null, category.labels.he, category.labels.en],
+    })), 'write');
+  }
+
+  /**
+   * Insert or replace transactions with their embeddings, in one database transaction
+   */
+  async upsertTransactions(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const client = await this.client();
+    const columns = ['id', ...TRANSACTION_COLUMNS, 'embedding', 'embedding_model'];
+    // A record without a statement (e.g. a manual correction) keeps the statement it was imported with
+    const updates = [...TRANSACTION_COLUMNS.filter(column => column !== 'created_at'), 'embedding', 'embedding_model']
+      .map(column => column === 'statement_id'
+        ? 'statement_id = COALESCE(excluded.statement_id, transactions.statement_id)'
+        : `${column} = excluded.${column}`)
+      .join(', ');
+
+    const statements: InStatement[] = records.flatMap(record => [
+      ...this.accountStatements(record.metadata, record.metadata.memberId ?? null, record.metadata.updatedAt),
+      {
+        sql: `INSERT INTO transactions (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+              ON CONFLICT (id) DO UPDATE SET ${updates}`,
+        args: [
+          record.id,
+          ...transactionValues(record.metadata),
+          record.values.length > 0 ? encodeEmbedding(record.values) : null,
+          record.values.length > 0 ? record.metadata.embeddingModel : null,
+        ],
+      },
+    ]);
+
+    await client.batch(statements, 'write');
+    console.log(`📒 Ledger recorded ${records.length} transaction(s)`);
+  }
+
+  /**
+   * Merge metadata changes into a recorded transaction, keeping its embedding. Returns false when it is not recorded.
+   */
+  async updateTransaction(id: string, changes: Partial<VectorMetadata>): Promise<boolean> {
+    const client = await this.client();
+    const result = await client.execute({ sql: 'SELECT metadata FROM transactions WHERE id = ?', args: [id] });
+    if (result.rows.length === 0) return false;
+
+    const metadata = { ...JSON.parse(String(result.rows[0].metadata)), ...changes } as VectorMetadata;
+    await client.batch([
+      ...this.accountStatements(metadata, metadata.memberId ?? null, metadata.updatedAt),
+      {
+        sql: `UPDATE transactions SET ${TRANSACTION_COLUMNS.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+        args: [...transactionValues(metadata), id],
+      },
+    ], 'write');
+    return true;
+  }
+
+  async deleteTransactions(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const client = await this.client();
+    await client.batch(ids.map(id => ({ sql: 'DELETE FROM transactions WHERE id = ?', args: [id] })), 'write');
+  }
+
+  async getTransaction(id: string): Promise<LedgerTransaction | null> {
+    const client = await this.client();
+    const result = await client.execute({ sql: 'SELECT id, metadata, embedding FROM transactions WHERE id = ?', args: [id] });
+    return result.rows.length > 0 ? toLedgerTransaction(result.rows[0]) : null;
+  }
+
+  /**
+   * One page of recorded transactions in ID order, for rebuilding the vector index
+   */
+  async listTransactions(options: { limit: number; offset: number }): Promise<LedgerTransaction[]> {
+    const client = await this.client();
+    const result = await client.execute({
+      sql: 'SELECT id, metadata, embedding FROM transactions ORDER BY id LIMIT ? OFFSET ?',
+      args: [options.limit, options.offset],
+    });
+    return result.rows.map(toLedgerTransaction);
+  }
+
+  /**
+   * Which of these IDs are recorded
+   */
+  async findRecorded(ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) return new Set();
+
+    const client = await this.client();
+    const result = await client.execute({
+      sql: `SELECT id FROM transactions WHERE id IN (${ids.map(() => '?').join(', ')})`,
+      args: ids,
+    });
+    return new Set(result.rows.map(row => String(row.id)));
+  }
+
+  async countTransactions(): Promise<number> {
+    const client = await this.client();
+    const result = await client.execute('SELECT COUNT(*) AS count FROM transactions');
+    return Number(result.rows[0].count);
+  }
+
+  /**
+   * Imported statements, newest first, with the number, ILS total and date range of their stored transactions.
+   * Foreign amounts without an exchange rate are counted apart from the total.
+   */
+  async listStatements(options: { cardLastFour?: string; bankAccountNumber?: string } = {}): Promise<LedgerStatement[]> {
+    const client = await this.client();
+    const result = await client.execute({
+      sql: `SELECT s.id, s.card_last_four, s.bank_account_number, s.statement_date, s.first_imported_at, s.last_imported_at,
+                   COUNT(t.id) AS transaction_count,
+                   COALESCE(SUM(CASE WHEN json_extract(t.metadata, '$.amountSource') = 'original' THEN 0 ELSE t.amount END), 0) AS total,
+                   COUNT(CASE WHEN json_extract(t.metadata, '$.amountSource') = 'original' THEN 1 END) AS unconverted_count,
+                   MIN(t.transaction_date) AS first_transaction_date, MAX(t.transaction_date) AS last_transaction_date
+            FROM statements s
+            LEFT JOIN transactions t ON t.statement_id = s.id
+            WHERE (? IS NULL OR s.card_last_four = ?) AND (? IS NULL OR s.bank_account_number = ?)
+            GROUP BY s.id
+            ORDER BY s.statement_date DESC, s.id`,
+      args: [
+        options.cardLastFour ?? null, options.cardLastFour ?? null,
+        options.bankAccountNumber ?? null, options.bankAccountNumber ?? null,
+      ],
+    });
+
+    return result.rows.map(row => ({
+      id: String(row.id),
+      cardLastFour: row.card_last_four === null ? null : String(row.card_last_four),
+      bankAccountNumber: row.bank_account_number === null ? null : String(row.bank_account_number),
+      statementDate: row.statement_date === null ? null : String(row.statement_date),
+      transactionCount: Number(row.transaction_count),
+      total: Math.round(Number(row.total) * 100) / 100,
+      unconvertedCount: Number(row.unconverted_count),
+      firstTransactionDate: row.first_transaction_date === null ? null : String(row.first_transaction_date),
+      lastTransactionDate: row.last_transaction_date === null ? null : String(row.last_transaction_date),
+      firstImportedAt: String(row.first_imported_at),
+      lastImportedAt: String(row.last_imported_at),
+    }));
+  }
+
+  /**
+   * Upsert of the card or account a transaction belongs to; none for free text without either
+   */
+  private accountStatements(
+    source: Pick<VectorMetadata, 'cardLastFour' | 'bankAccountNumber'>,
+    memberId: string | null,
+    updatedAt: string
+  ): InStatement[] {
+    const accountKey = accountKeyOf(source);
+    if (!accountKey) return [];
+
+    // A later statement fills in what an earlier one did not say; it never erases a known account or member
+    return [{
+      sql: `INSERT INTO accounts (account_key, kind, card_last_four, bank_account_number, member_id, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT (account_key) DO UPDATE SET
+              bank_account_number = COALESCE(excluded.bank_account_number, accounts.bank_account_number),
+              member_id = COALESCE(excluded.member_id, accounts.member_id),
+              updated_at = excluded.updated_at`,
+      args: [
+        accountKey,
+        source.cardLastFour ? 'card' : 'bank',
+        source.cardLastFour ?? null,
+        source.bankAccountNumber ?? null,
+        memberId,
+        updatedAt,
+      ],
+    }];
+  }
+
+  private client(): Promise<Client> {
+    this.ready ??= (async () => {
+      // A local database file needs its directory
+      if (this.url.startsWith('file:')) {
+        await fs.mkdir(path.dirname(path.resolve(this.url.slice('file:'.length))), { recursive: true });
+      }
+
+      const client = createClient({ url: this.url, authToken: this.authToken });
+      await client.executeMultiple(SCHEMA);
+      return client;
+    })();
+
+    // A failed connection is retried on the next call
+    this.ready.catch(() => { this.ready = null; });
+    return this.ready;
+  }
+}
+
+let transactionLedger: TransactionLedger | null = null;
+
+export const getTransactionLedger = (): TransactionLedger => {
+  transactionLedger ??= new TransactionLedger(ENV.ledgerDatabaseUrl, ENV.ledgerAuthToken);
+  return transactionLedger;
+};
+
+export const listStatementsTool = createTool({
+  id: 'list-statements',
+  description: 'List the imported statements from the transaction ledger, newest first, with the number of stored transactions, their ILS total and date range',
+  inputSchema: z.object({
+    cardLastFour: z.string().regex(/^\d{4}$/).optional().describe('Only the statements of this card'),
+    bankAccountNumber: z.string().regex(/^\d+$/).optional().describe('Only the statements of this bank account'),
+  }),
+  outputSchema: z.object({
+    statements: z.array(LedgerStatementSchema),
+  }),
+  execute: async ({ context }) => {
+    return { statements: await getTransactionLedger().listStatements(context) };
+  },
+});
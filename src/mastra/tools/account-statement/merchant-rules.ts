@@ -0,0 +1,292 @@
+// Persistent merchant-to-category rules, learned from user corrections and applied before the LLM
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ENV } from '../../config/environment';
+import { MerchantRule, MerchantRuleSchema, TransactionCategory, TransactionCategorySchema, TransactionType, TransactionTypeSchema } from './types';
+import { buildMerchantKey } from './transaction-identity';
+import { getCategoryTaxonomyStore } from './category-taxonomy';
+
+// Exact rules beat alias rules, alias rules beat regular expressions
+const MATCH_TYPE_PRIORITY: Record<MerchantRule['matchType'], number> = { exact: 0, alias: 1, regex: 2 };
+
+interface MerchantRuleFile {
+  version: 1;
+  rules: MerchantRule[];
+}
+
+export interface MerchantRuleInput {
+  matchType: MerchantRule['matchType'];
+  pattern: string;
+  aliases?: string[];
+  category: TransactionCategory;
+  transactionType?: TransactionType | null;
+  source?: MerchantRule['source'];
+}
+
+/**
+ * Rules are keyed by match type and normalized pattern, so saving the same merchant again updates its rule
+ */
+const createRuleId = (matchType: MerchantRule['matchType'], pattern: string): string => {
+  const key = `${matchType}|${matchType === 'regex' ? pattern : buildMerchantKey(pattern)}`;
+  return `rule_${createHash('sha256').update(key).digest('hex').slice(0, 16)}`;
+};
+
+const containsWords = (merchantKey: string, phrase: string): boolean => {
+  const key = buildMerchantKey(phrase);
+  return key.length > 0 && ` ${merchantKey} `.includes(` ${key} `);
+};
+
+/**
+ * Whether the rule matches the normalized merchant key (or, for regular expressions, the transaction text)
+ */
+const matchesRule = (rule: MerchantRule, merchantKey: string, text: string): boolean => {
+  switch (rule.matchType) {
+    case 'exact':
+      return merchantKey === buildMerchantKey(rule.pattern);
+    case 'alias':
+      return [rule.pattern, ...rule.aliases].some(alias => containsWords(merchantKey, alias));
+    case 'regex': {
+      const pattern = new RegExp(rule.pattern, 'iu');
+      return pattern.test(merchantKey) || pattern.test(text);
+    }
+  }
+};
+
+export class MerchantRuleStore {
+  private filePath: string;
+  private rules: Map<string, MerchantRule> | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = 'data/merchant-rules.json') {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async list(): Promise<MerchantRule[]> {
+    return Array.from((await this.load()).values())
+      .sort((a, b) => b.hitCount - a.hitCount || a.pattern.localeCompare(b.pattern));
+  }
+
+  /**
+   * Best rule for a merchant: exact before alias before regex; among aliases the longest match,
+   * otherwise the most recently updated rule
+   */
+  async findMatch(merchantKey: string, text: string = ''): Promise<MerchantRule | null> {
+    if (!merchantKey && !text) return null;
+
+    const matches = Array.from((await this.load()).values())
+      .filter(rule => matchesRule(rule, merchantKey, text));
+
+    return matches.sort((a, b) =>
+      MATCH_TYPE_PRIORITY[a.matchType] - MATCH_TYPE_PRIORITY[b.matchType]
+      || b.pattern.length - a.pattern.length
+      || b.updatedAt.localeCompare(a.updatedAt)
+    )[0] ?? null;
+  }
+
+  /**
+   * Create a rule, or update the one with the same match type and pattern (its hit count is kept)
+   */
+  async save(input: MerchantRuleInput): Promise<MerchantRule> {
+    if (input.matchType === 'regex') {
+      // Fail on save, not on every lookup
+      new RegExp(input.pattern, 'iu');
+    } else if (!buildMerchantKey(input.pattern)) {
+      throw new Error(`Merchant rule pattern "${input.pattern}" has no letters or digits`);
+    }
+
+    const id = createRuleId(input.matchType, input.pattern);
+    console.log(`📏 Saving ${input.matchType} merchant rule "${input.pattern}" → ${input.category}`);
+
+    return this.mutate(rules => {
+      const now = new Date().toISOString();
+      const existing = rules.get(id);
+
+      const rule: MerchantRule = {
+        id,
+        matchType: input.matchType,
+        pattern: input.pattern,
+        aliases: input.aliases ?? existing?.aliases ?? [],
+        category: input.category,
+        transactionType: input.transactionType ?? null,
+        source: input.source ?? 'manual',
+        hitCount: existing?.hitCount ?? 0,
+        lastHitAt: existing?.lastHitAt ?? null,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+
+      rules.set(id, rule);
+      return rule;
+    });
+  }
+
+  /**
+   * Learn an exact rule for the merchant of a recategorized transaction. A type is only learned when the user
+   * corrected it; otherwise the existing rule's type (or none) is kept.
+   */
+  async learnFromCorrection(correction: {
+    merchantKey: string;
+    category: TransactionCategory;
+    transactionType?: TransactionType;
+  }): Promise<MerchantRule | null> {
+    if (!correction.merchantKey) return null;
+
+    const existing = (await this.load()).get(createRuleId('exact', correction.merchantKey));
+
+    return this.save({
+      matchType: 'exact',
+      pattern: correction.merchantKey,
+      category: correction.category,
+      transactionType: correction.transactionType ?? existing?.transactionType ?? null,
+      source: 'user_correction',
+    });
+  }
+
+  /**
+   * Move the rules of renamed or merged categories to their new category; returns how many moved
+   */
+  async recategorize(fromCategories: string[], toCategory: TransactionCategory): Promise<number> {
+    return this.mutate(rules => {
+      const now = new Date().toISOString();
+      let moved = 0;
+
+      for (const rule of rules.values()) {
+        if (fromCategories.includes(rule.category)) {
+          rule.category = toCategory;
+          rule.updatedAt = now;
+          moved++;
+        }
+      }
+      return moved;
+    });
+  }
+
+  async delete(ids: string[]): Promise<string[]> {
+    return this.mutate(rules => ids.filter(id => rules.delete(id)));
+  }
+
+  /**
+   * Count rule applications; one ID per categorized transaction
+   */
+  async recordHits(ruleIds: string[]): Promise<void> {
+    if (ruleIds.length === 0) return;
+
+    await this.mutate(rules => {
+      const now = new Date().toISOString();
+      for (const id of ruleIds) {
+        const rule = rules.get(id);
+        if (rule) {
+          rule.hitCount++;
+          rule.lastHitAt = now;
+        }
+      }
+    });
+  }
+
+  private mutate<T>(change: (rules: Map<string, MerchantRule>) => T): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      const result = change(await this.load());
+      await this.persist();
+      return result;
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<Map<string, MerchantRule>> {
+    if (this.rules) return this.rules;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as MerchantRuleFile;
+      this.rules = new Map(data.rules.map(rule => [rule.id, rule]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      // No rules yet - every transaction is categorized by the LLM
+      this.rules = new Map();
+    }
+
+    return this.rules;
+  }
+
+  private async persist(): Promise<void> {
+    const data: MerchantRuleFile = {
+      version: 1,
+      rules: Array.from(this.rules?.values() ?? []),
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+let merchantRuleStore: MerchantRuleStore | null = null;
+
+export const getMerchantRuleStore = (): MerchantRuleStore => {
+  merchantRuleStore ??= new MerchantRuleStore(ENV.merchantRulesPath);
+  return merchantRuleStore;
+};
+
+export const listMerchantRulesTool = createTool({
+  id: 'list-merchant-rules',
+  description: 'List the merchant-to-category rules applied before the LLM categorizes a transaction, most used first, with how often each one fired',
+  inputSchema: z.object({
+    category: TransactionCategorySchema.optional().describe('Only rules assigning this category'),
+    merchantText: z.string().optional().describe('Only the rule that would categorize this merchant text'),
+  }),
+  outputSchema: z.object({
+    rules: z.array(MerchantRuleSchema),
+  }),
+  execute: async ({ context }) => {
+    const store = getMerchantRuleStore();
+
+    if (context.merchantText) {
+      const rule = await store.findMatch(buildMerchantKey(context.merchantText), context.merchantText);
+      return { rules: rule ? [rule] : [] };
+    }
+
+    const rules = await store.list();
+    return { rules: context.category ? rules.filter(rule => rule.category === context.category) : rules };
+  },
+});
+
+export const saveMerchantRuleTool = createTool({
+  id: 'save-merchant-rule',
+  description: 'Create or update a merchant-to-category rule (exact merchant name, merchant with aliases, or regular expression); saving the same match type and pattern again updates the rule',
+  inputSchema: z.object({
+    matchType: z.enum(['exact', 'alias', 'regex']).describe('exact = whole merchant name, alias = merchant name or one of its aliases appears in the text, regex = regular expression'),
+    pattern: z.string().min(2).describe('Merchant name or regular expression'),
+    aliases: z.array(z.string()).optional().describe('Other spellings of the merchant (alias rules)'),
+    category: TransactionCategorySchema,
+    transactionType: TransactionTypeSchema.optional().describe('Type to assign; omit to keep the analyzed type'),
+  }),
+  outputSchema: z.object({
+    rule: MerchantRuleSchema,
+  }),
+  execute: async ({ context }) => {
+    await getCategoryTaxonomyStore().assertCategory(context.category);
+    return { rule: await getMerchantRuleStore().save({ ...context, source: 'manual' }) };
+  },
+});
+
+export const deleteMerchantRulesTool = createTool({
+  id: 'delete-merchant-rules',
+  description: 'Delete merchant-to-category rules by ID',
+  inputSchema: z.object({
+    ids: z.array(z.string()).min(1).describe('Rule IDs to delete'),
+  }),
+  outputSchema: z.object({
+    deletedIds: z.array(z.string()),
+  }),
+  execute: async ({ context }) => {
+    return { deletedIds: await getMerchantRuleStore().delete(context.ids) };
+  },
+});
@@ -0,0 +1,77 @@
+// Structured bank file import: format detection and dispatch to the OFX, QIF and CAMT.053 parsers
+
+import { BankFileFormat } from '../types';
+import { decodeStatementText } from './csv';
+import { BankFileStatement } from './bank-statement';
+import { parseOfx } from './ofx';
+import { parseQif, QifDateOrder } from './qif';
+import { parseCamt053 } from './camt';
+
+export interface ParseBankFileOptions {
+  /** Force a format instead of detecting it from the content */
+  format?: BankFileFormat;
+  /** Day/month order of QIF dates, detected when not given */
+  qifDateOrder?: QifDateOrder;
+  /** Currency of QIF amounts (default ILS) */
+  qifCurrency?: string;
+}
+
+export interface ParsedBankFile {
+  format: BankFileFormat;
+  statements: BankFileStatement[];
+}
+
+/**
+ * Recognize a bank file from its content: OFX headers or root element, the CAMT.053 document, or QIF list headers
+ */
+export const detectBankFileFormat = (text: string): BankFileFormat | null => {
+  if (/OFXHEADER|<OFX>/i.test(text)) return 'ofx';
+  if (/camt\.053|<(?:\w+:)?BkToCstmrStmt\b/.test(text)) return 'camt053';
+  if (/^\s*!(?:Type|Account|Option)/im.test(text)) return 'qif';
+  return null;
+};
+
+/**
+ * Parse an OFX/QFX, QIF or CAMT.053 file (UTF-8 or Windows-1255 bytes, or text) into one statement per account
+ */
+export const parseBankFile = (input: string | Uint8Array, options: ParseBankFileOptions = {}): ParsedBankFile => {
+  const text = decodeStatementText(input);
+  const format = options.format ?? detectBankFileFormat(text);
+  if (!format) {
+    throw new Error('Could not detect the bank file format. Supported formats: OFX/QFX, QIF, CAMT.053');
+  }
+
+  const statements = format === 'ofx' ? parseOfx(text)
+    : format === 'camt053' ? parseCamt053(text)
+    : parseQif(text, { dateOrder: options.qifDateOrder, currency: options.qifCurrency });
+
+  if (statements.length === 0) {
+    throw new Error(`No bank or card statement found in the ${format} file`);
+  }
+
+  const rowCount = statements.reduce((total, statement) => total + statement.rows.length, 0);
+  const skippedCount = statements.reduce((total, statement) => total + statement.skippedRows.length, 0);
+  console.log(`🏦 Parsed ${rowCount} rows (${skippedCount} skipped) from ${statements.length} ${format} statement(s)`);
+
+  return { format, statements };
+};
+
+/**
+ * The statement to import: the only one in the file, or the one of the given account
+ */
+export const selectBankFileStatement = (file: ParsedBankFile, accountId?: string): BankFileStatement => {
+  if (accountId) {
+    const statement = file.statements.find(candidate => candidate.accountId === accountId);
+    if (!statement) {
+      throw new Error(`No statement for account "${accountId}". Accounts in the file: ${file.statements.map(candidate => candidate.accountId).join(', ')}`);
+    }
+    return statement;
+  }
+
+  if (file.statements.length > 1) {
+    throw new Error(
+      `The file holds ${file.statements.length} statements; choose one with accountId: ${file.statements.map(candidate => candidate.accountId).join(', ')}`
+    );
+  }
+  return file.statements[0];
+};
@@ -0,0 +1,76 @@
+// Statement shape shared by the structured bank file parsers (OFX, QIF, CAMT.053)
+
+import { CreditCardData, ParsedTransactionRow } from '../types';
+import { SkippedStatementRow } from './statement';
+import { normalizeCell, parseInstallment } from './values';
+
+export interface BankFileStatement {
+  /** Account as the file identifies it: card or account number, IBAN, or the QIF account name */
+  accountId: string;
+  kind: 'credit_card' | 'bank_account';
+  /** Header fields the file carries; bank files have no card digits, and only card statements a total */
+  headerData: Partial<CreditCardData>;
+  rows: ParsedTransactionRow[];
+  skippedRows: SkippedStatementRow[];
+}
+
+export interface BankFileRowInput {
+  rowNumber: number;
+  date: string;
+  chargeDate: string | null;
+  merchant: string;
+  notes: string | null;
+  /** Amount in `currency`. Positive = money out, negative = refund or credit */
+  amount: number;
+  currency: string;
+  /** Amount and currency of the purchase, when the file records a foreign amount next to the booked one */
+  original: { amount: number; currency: string } | null;
+  cardLastFour: string | null;
+  rawText: string;
+}
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Build a typed row. Booked ILS amounts are the charged amount; other currencies are left for the rate table.
+ */
+export const buildBankFileRow = (input: BankFileRowInput): ParsedTransactionRow => {
+  const merchant = normalizeCell(input.merchant);
+  const notes = input.notes ? normalizeCell(input.notes) || null : null;
+
+  return {
+    rowNumber: input.rowNumber,
+    date: input.date,
+    chargeDate: input.chargeDate && input.chargeDate !== input.date ? input.chargeDate : null,
+    merchant,
+    originalAmount: round(input.original?.amount ?? input.amount),
+    chargedAmount: input.currency === 'ILS' ? round(input.amount) : null,
+    currency: input.original?.currency ?? input.currency,
+    notes,
+    cardLastFour: input.cardLastFour,
+    installment: parseInstallment(`${merchant} ${notes ?? ''}`),
+    sheetName: null,
+    rawText: normalizeCell(input.rawText),
+  };
+};
+
+/**
+ * Last four digits of a (possibly masked) card number, e.g. "XXXXXXXXXXXX4357"
+ */
+export const cardLastFourOf = (accountId: string): string | null => accountId.match(/(\d{4})\D*$/)?.[1] ?? null;
+
+/**
+ * Digits of an account number, when they make a plausible Israeli account number (6 to 12 digits)
+ */
+export const accountDigitsOf = (accountId: string): string | null => {
+  const digits = accountId.replace(/\D/g, '');
+  return digits.length >= 6 && digits.length <= 12 ? digits : null;
+};
+
+/**
+ * ISO YYYY-MM-DD to the DD/MM/YYYY statement date of CreditCardData
+ */
+export const toStatementDate = (isoDate: string): string => {
+  const [year, month, day] = isoDate.split('-');
+  return `${day}/${month}/${year}`;
+};
@@ -0,0 +1,158 @@
+// ISO 20022 CAMT.053 bank-to-customer statement parser
+
+import { ParsedTransactionRow } from '../types';
+import { SkippedStatementRow } from './statement';
+import { XmlElement, childText, findChild, findChildren, findDescendants, parseXml } from './xml';
+import { parseDate } from './values';
+import { BankFileStatement, accountDigitsOf, buildBankFileRow, toStatementDate } from './bank-statement';
+
+/**
+ * Dates come as <Dt>2026-03-15</Dt> or <DtTm>2026-03-15T10:00:00</DtTm>
+ */
+const parseCamtDate = (element: XmlElement | undefined): string | null => {
+  const value = childText(element, 'Dt') ?? childText(element, 'DtTm') ?? element?.text.trim() ?? null;
+  return value ? parseDate(value.slice(0, 10)) : null;
+};
+
+const parseCamtAmount = (element: XmlElement | undefined): { amount: number; currency: string } | null => {
+  const amount = Number(element?.text.trim());
+  if (!element || !element.text.trim() || !Number.isFinite(amount)) return null;
+  return { amount, currency: (element.attributes.Ccy ?? 'ILS').toUpperCase() };
+};
+
+/**
+ * Israeli IBANs (IL + check digits + bank + branch + account) map to branch and account digits, the way the
+ * statements print "577-181036"; other account IDs keep their digits
+ */
+const accountNumberOf = (accountId: string): string | null => {
+  const israeliIban = accountId.replace(/\s/g, '').match(/^IL\d{2}\d{3}(\d{3})(\d{13})$/);
+  if (israeliIban) {
+    return accountDigitsOf(`${israeliIban[1]}${israeliIban[2].replace(/^0+/, '')}`);
+  }
+  return accountDigitsOf(accountId);
+};
+
+/**
+ * Counterparty name: the creditor of a payment, the debtor of an incoming transfer (pre-2019 versions name
+ * the party directly, later ones wrap it in <Pty>)
+ */
+const counterpartyOf = (details: XmlElement | undefined, debit: boolean): string | null => {
+  const party = findChild(details, 'RltdPties', debit ? 'Cdtr' : 'Dbtr');
+  return childText(party, 'Nm') ?? childText(party, 'Pty', 'Nm');
+};
+
+const remittanceOf = (details: XmlElement | undefined): string | null => {
+  const lines = findDescendants(findChild(details, 'RmtInf'), 'Ustrd').map(line => line.text.trim()).filter(line => line);
+  return lines.length > 0 ? lines.join(' ') : null;
+};
+
+/**
+ * Amount of a transaction within a batch entry, when the bank itemizes it
+ */
+const detailAmountOf = (details: XmlElement): { amount: number; currency: string } | null =>
+  parseCamtAmount(findChild(details, 'Amt')) ?? parseCamtAmount(findChild(details, 'AmtDtls', 'TxAmt', 'Amt'));
+
+const mapEntry = (
+  entry: XmlElement,
+  details: XmlElement | undefined,
+  booked: { amount: number; currency: string },
+  creditDebit: string | null
+): ParsedTransactionRow | { reason: string } => {
+  const date = parseCamtDate(findChild(entry, 'BookgDt')) ?? parseCamtDate(findChild(entry, 'ValDt'));
+  if (!date) {
+    return { reason: 'no booking or value date' };
+  }
+  if (creditDebit !== 'DBIT' && creditDebit !== 'CRDT') {
+    return { reason: 'no credit/debit indicator' };
+  }
+
+  const debit = creditDebit === 'DBIT';
+  const remittance = remittanceOf(details);
+  const additionalInfo = childText(details, 'AddtlTxInf') ?? childText(entry, 'AddtlNtryInf');
+  const merchant = counterpartyOf(details, debit) ?? remittance ?? additionalInfo;
+  if (!merchant) {
+    return { reason: 'no counterparty, remittance or entry information' };
+  }
+
+  const sign = debit ? 1 : -1;
+  const instructed = parseCamtAmount(findChild(details, 'AmtDtls', 'InstdAmt', 'Amt'));
+  const notes = [remittance, additionalInfo].filter(text => text && text !== merchant).join(' ') || null;
+
+  return buildBankFileRow({
+    rowNumber: (details ?? entry).line,
+    date,
+    chargeDate: parseCamtDate(findChild(entry, 'ValDt')),
+    merchant,
+    notes,
+    amount: sign * booked.amount,
+    currency: booked.currency,
+    original: instructed && instructed.currency !== booked.currency
+      ? { amount: sign * instructed.amount, currency: instructed.currency }
+      : null,
+    cardLastFour: null,
+    rawText: [childText(entry, 'BookgDt', 'Dt'), merchant, notes, `${debit ? '-' : ''}${booked.amount} ${booked.currency}`]
+      .filter(part => part).join(' '),
+  });
+};
+
+const parseStatement = (statement: XmlElement): BankFileStatement => {
+  const account = findChild(statement, 'Acct');
+  const accountId = childText(account, 'Id', 'IBAN') ?? childText(account, 'Id', 'Othr', 'Id') ?? '';
+  const rows: ParsedTransactionRow[] = [];
+  const skippedRows: SkippedStatementRow[] = [];
+
+  for (const entry of findChildren(statement, 'Ntry')) {
+    const status = childText(entry, 'Sts', 'Cd') ?? childText(entry, 'Sts');
+    const booked = parseCamtAmount(findChild(entry, 'Amt'));
+    const entryText = [childText(entry, 'BookgDt', 'Dt'), childText(entry, 'AddtlNtryInf'), booked && `${booked.amount} ${booked.currency}`]
+      .filter(part => part).join(' ');
+
+    if (status && status !== 'BOOK') {
+      skippedRows.push({ rowNumber: entry.line, reason: `entry not booked (status ${status})`, text: entryText });
+      continue;
+    }
+    if (!booked) {
+      skippedRows.push({ rowNumber: entry.line, reason: 'no amount', text: entryText });
+      continue;
+    }
+
+    // A batch entry that itemizes its transactions becomes one row per transaction
+    const details = findDescendants(findChild(entry, 'NtryDtls'), 'TxDtls');
+    const itemized = details.length > 1 && details.every(detail => detailAmountOf(detail))
+      ? details.map(detail => ({
+          detail,
+          amount: detailAmountOf(detail)!,
+          creditDebit: childText(detail, 'CdtDbtInd') ?? childText(entry, 'CdtDbtInd'),
+        }))
+      : [{ detail: details[0], amount: booked, creditDebit: childText(entry, 'CdtDbtInd') }];
+
+    for (const { detail, amount, creditDebit } of itemized) {
+      const result = mapEntry(entry, detail, amount, creditDebit);
+      if ('reason' in result) {
+        skippedRows.push({ rowNumber: (detail ?? entry).line, reason: result.reason, text: entryText });
+      } else {
+        rows.push(result);
+      }
+    }
+  }
+
+  const headerData: BankFileStatement['headerData'] = {};
+  const accountNumber = accountNumberOf(accountId);
+  if (accountNumber) headerData.bankAccountNumber = accountNumber;
+
+  const closingBalance = findChildren(statement, 'Bal')
+    .find(balance => childText(balance, 'Tp', 'CdOrPrtry', 'Cd') === 'CLBD');
+  const statementDate = parseCamtDate(findChild(statement, 'FrToDt', 'ToDtTm'))
+    ?? parseCamtDate(findChild(closingBalance, 'Dt'))
+    ?? parseCamtDate(findChild(statement, 'CreDtTm'));
+  if (statementDate) headerData.statementDate = toStatementDate(statementDate);
+
+  return { accountId, kind: 'bank_account', headerData, rows, skippedRows };
+};
+
+/**
+ * Parse every statement (<Stmt>) of a CAMT.053 file
+ */
+export const parseCamt053 = (text: string): BankFileStatement[] => {
+  return findDescendants(parseXml(text), 'Stmt').map(parseStatement);
+};
@@ -0,0 +1,106 @@
+// CSV decoding and tokenizing for Israeli bank and card exports
+
+/**
+ * Decode raw statement bytes. Israeli bank exports are either UTF-8 (often with a BOM)
+ * or legacy Windows-1255; strings are passed through unchanged.
+ */
+export const decodeStatementText = (input: string | Uint8Array): string => {
+  if (typeof input === 'string') {
+    return input.replace(/^\ufeff/, '');
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(input).replace(/^\ufeff/, '');
+  } catch {
+    // Not valid UTF-8 - fall back to the Hebrew Windows code page
+    return new TextDecoder('windows-1255').decode(input);
+  }
+};
+
+/**
+ * Pick the delimiter that splits the first non-empty lines most consistently
+ */
+export const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).filter(line => line.trim().length > 0).slice(0, 20);
+  const candidates = [',', '\t', ';'];
+
+  const scored = candidates.map(delimiter => ({
+    delimiter,
+    score: sample.reduce((total, line) => total + countOutsideQuotes(line, delimiter), 0),
+  }));
+
+  return scored.sort((a, b) => b.score - a.score)[0].score > 0 ? scored[0].delimiter : ',';
+};
+
+const countOutsideQuotes = (line: string, delimiter: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  let cellStart = true;
+  for (const char of line) {
+    if (char === '"' && (inQuotes || cellStart)) inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+    cellStart = char === delimiter && !inQuotes;
+  }
+  return count;
+};
+
+/**
+ * Tokenize CSV text into rows of cells (RFC 4180: quoted fields, escaped quotes, newlines inside quotes).
+ * Each row keeps the 1-based line number it started on for traceability.
+ */
+export const parseCsv = (
+  text: string,
+  delimiter: string = detectDelimiter(text)
+): Array<{ lineNumber: number; cells: string[] }> => {
+  const rows: Array<{ lineNumber: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let lineNumber = 1;
+  let rowStartLine = 1;
+
+  const endRow = () => {
+    cells.push(current);
+    if (cells.some(cell => cell.trim().length > 0)) {
+      rows.push({ lineNumber: rowStartLine, cells: cells.map(cell => cell.trim()) });
+    }
+    cells = [];
+    current = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') lineNumber++;
+        current += char;
+      }
+      continue;
+    }
+
+    // A quote only opens a quoted field at the start of a cell; inside a cell it is literal (סה"כ)
+    if (char === '"' && current.trim().length === 0) {
+      current = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(current);
+      current = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      lineNumber++;
+      rowStartLine = lineNumber;
+    } else {
+      current += char;
+    }
+  }
+  endRow();
+
+  return rows;
+};
@@ -0,0 +1,176 @@
+// Excel (XLSX/XLS) statement import - read locally with SheetJS, then parsed like CSV tables
+
+import * as XLSX from 'xlsx';
+import { ParsedTransactionRow, CreditCardData } from '../types';
+import {
+  ParseStatementOptions,
+  ParsedStatement,
+  SkippedStatementRow,
+  parseStatementTable,
+  extractStatementHeaderData
+} from './statement';
+
+export interface WorkbookSheetTable {
+  sheetName: string;
+  rows: Array<{ lineNumber: number; cells: string[] }>;
+}
+
+export interface ParsedWorkbookSheet {
+  sheetName: string;
+  statement: ParsedStatement | null;
+  headerData: Partial<CreditCardData>;
+  error?: string;
+}
+
+export interface ParsedWorkbook {
+  sheets: ParsedWorkbookSheet[];
+  rows: ParsedTransactionRow[];
+  skippedRows: SkippedStatementRow[];
+  /** Header fields found in any sheet preamble (card digits, account, statement date, total) */
+  headerData: Partial<CreditCardData>;
+  /** Sheet contents as delimited text, for the LLM header extraction fallback */
+  text: string;
+}
+
+/**
+ * Date cells come back as Date objects; render them the way Israeli exports print dates
+ */
+const formatCell = (value: unknown): string => {
+  if (value instanceof Date) {
+    const day = String(value.getDate()).padStart(2, '0');
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    return `${day}/${month}/${value.getFullYear()}`;
+  }
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+};
+
+/**
+ * Copy the value of each merged range into every cell it covers, so a merged Hebrew
+ * header (e.g. "סכום" spanning "עסקה" and "חיוב") labels all of its columns
+ */
+const fillMergedCells = (sheet: XLSX.WorkSheet, grid: string[][], origin: XLSX.CellAddress): void => {
+  for (const merge of sheet['!merges'] ?? []) {
+    const value = grid[merge.s.r - origin.r]?.[merge.s.c - origin.c] ?? '';
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        const row = grid[r - origin.r];
+        if (row && !row[c - origin.c]) row[c - origin.c] = value;
+      }
+    }
+  }
+};
+
+/**
+ * Two-row headers (a merged group title above the column titles) are joined into one row,
+ * e.g. "סכום" + "חיוב" → "סכום חיוב", so the profiles can match them. Titles that only
+ * appear in the upper row (e.g. "תאריך עסקה" next to the group) are carried down.
+ */
+const joinGroupedHeaders = (grid: string[][], sheet: XLSX.WorkSheet, origin: XLSX.CellAddress): void => {
+  const horizontalMerges = (sheet['!merges'] ?? []).filter(merge => merge.e.c > merge.s.c && merge.s.r === merge.e.r);
+
+  for (const merge of horizontalMerges) {
+    const groupRow = grid[merge.s.r - origin.r];
+    const titleRow = grid[merge.s.r - origin.r + 1];
+    if (!groupRow || !titleRow) continue;
+
+    // Only a real sub-header row has a text title under every column of the group
+    const subTitles = titleRow.slice(merge.s.c - origin.c, merge.e.c - origin.c + 1);
+    if (!subTitles.every(title => title.length > 0 && !/^[\d.,\-/\s]+$/.test(title))) continue;
+
+    for (let c = merge.s.c; c <= merge.e.c; c++) {
+      const index = c - origin.c;
+      if (groupRow[index] && !titleRow[index].includes(groupRow[index])) {
+        titleRow[index] = `${groupRow[index]} ${titleRow[index]}`;
+      }
+    }
+
+    groupRow.forEach((title, index) => {
+      if (title && !titleRow[index]) titleRow[index] = title;
+    });
+  }
+};
+
+/**
+ * Read every sheet of an XLSX/XLS workbook into rows of string cells with their 1-based Excel row numbers
+ */
+export const readWorkbookTables = (data: Uint8Array): WorkbookSheetTable[] => {
+  const workbook = XLSX.read(data, { type: 'array', cellDates: true });
+
+  return workbook.SheetNames.map(sheetName => {
+    const sheet = workbook.Sheets[sheetName];
+    if (!sheet['!ref']) {
+      return { sheetName, rows: [] };
+    }
+
+    const range = XLSX.utils.decode_range(sheet['!ref']);
+    const values = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+      header: 1,
+      raw: true,
+      defval: '',
+      blankrows: true,
+    });
+
+    const grid = values.map(row => row.map(formatCell));
+    fillMergedCells(sheet, grid, range.s);
+    joinGroupedHeaders(grid, sheet, range.s);
+
+    return {
+      sheetName,
+      rows: grid
+        .map((cells, index) => ({ lineNumber: range.s.r + index + 1, cells }))
+        .filter(row => row.cells.some(cell => cell.length > 0)),
+    };
+  });
+};
+
+/**
+ * Parse every sheet of a workbook (e.g. one sheet per card) into typed rows tagged with their sheet
+ */
+export const parseStatementWorkbook = (
+  data: Uint8Array,
+  options: Omit<ParseStatementOptions, 'sheetName'> = {}
+): ParsedWorkbook => {
+  const tables = readWorkbookTables(data);
+
+  const sheets: ParsedWorkbookSheet[] = tables.map(({ sheetName, rows }) => {
+    const sheetText = rows.map(row => row.cells.join(' ')).join('\n');
+    const headerData = extractStatementHeaderData(sheetText);
+
+    try {
+      const statement = parseStatementTable(rows, { ...options, sheetName });
+
+      // Rows of a per-card sheet inherit the card digits from the sheet's own header
+      statement.rows = statement.rows.map(row => ({
+        ...row,
+        cardLastFour: row.cardLastFour ?? headerData.lastFourDigits ?? null,
+      }));
+
+      return { sheetName, statement, headerData };
+    } catch (error) {
+      // Summary or empty sheets are common in issuer workbooks - skip them, but say why
+      return {
+        sheetName,
+        statement: null,
+        headerData,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+
+  if (sheets.every(sheet => sheet.statement === null)) {
+    throw new Error(
+      `No statement table found in any sheet: ${sheets.map(sheet => `${sheet.sheetName} (${sheet.error})`).join('; ')}`
+    );
+  }
+
+  return {
+    sheets,
+    rows: sheets.flatMap(sheet => sheet.statement?.rows ?? []),
+    skippedRows: sheets.flatMap(sheet => sheet.statement?.skippedRows ?? []),
+    headerData: Object.assign({}, ...sheets.map(sheet => sheet.headerData).reverse()),
+    text: tables
+      .map(table => `# ${table.sheetName}\n${table.rows.map(row => row.cells.join(',')).join('\n')}`)
+      .join('\n\n'),
+  };
+};
@@ -0,0 +1,26 @@
+// Deterministic statement parsing (no LLM involved)
+
+export {
+  parseStatementCsv,
+  parseStatementTable,
+  extractStatementHeaderData,
+  formatRowForAnalysis
+} from './statement';
+export type { ParsedStatement, ParseStatementOptions, SkippedStatementRow } from './statement';
+
+export { readWorkbookTables, parseStatementWorkbook } from './excel';
+export type { ParsedWorkbook, ParsedWorkbookSheet, WorkbookSheetTable } from './excel';
+
+export { STATEMENT_PROFILES, detectProfile, matchHeader, getStatementProfile } from './profiles';
+export type { StatementProfile, StatementProfileId, StatementColumn, HeaderMatch } from './profiles';
+
+export { detectBankFileFormat, parseBankFile, selectBankFileStatement } from './bank-file';
+export type { ParsedBankFile, ParseBankFileOptions } from './bank-file';
+export type { BankFileStatement } from './bank-statement';
+export type { QifDateOrder } from './qif';
+
+export { parseTransactionText } from './transaction-text';
+export type { ParsedTransactionText } from './transaction-text';
+
+export { decodeStatementText, detectDelimiter, parseCsv } from './csv';
+export { normalizeCell, parseAmount, parseCurrency, parseDate, parseInstallment } from './values';
@@ -0,0 +1,133 @@
+// OFX / QFX statement parser: 1.x SGML and 2.x XML, bank and credit card statements
+
+import { ParsedTransactionRow } from '../types';
+import { SkippedStatementRow } from './statement';
+import { XmlElement, childText, findChild, findChildren, findDescendants, parseXml } from './xml';
+import { parseDate } from './values';
+import {
+  BankFileStatement,
+  accountDigitsOf,
+  buildBankFileRow,
+  cardLastFourOf,
+  toStatementDate
+} from './bank-statement';
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * OFX datetime ("20260315", "20260315120000.000[+2:IST]") to ISO YYYY-MM-DD
+ */
+const parseOfxDate = (value: string | null): string | null => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? parseDate(`${match[1]}-${match[2]}-${match[3]}`) : null;
+};
+
+/**
+ * OFX amounts use a dot, but some exporters write a decimal comma
+ */
+const parseOfxAmount = (value: string | null): number | null => {
+  if (!value) return null;
+  const amount = Number(value.replace(/\s/g, '').replace(',', '.'));
+  return Number.isFinite(amount) ? amount : null;
+};
+
+/**
+ * One STMTTRN. TRNAMT is negative for money out, the row's amounts positive. A <CURRENCY> aggregate means the
+ * amount is in that currency; <ORIGCURRENCY> means it was converted to the statement currency from it at CURRATE.
+ */
+const mapTransaction = (
+  transaction: XmlElement,
+  statementCurrency: string,
+  cardLastFour: string | null
+): ParsedTransactionRow | { reason: string } => {
+  const rawText = transaction.children.map(child => child.text.trim()).filter(text => text.length > 0).join(' ');
+
+  const postedDate = parseOfxDate(childText(transaction, 'DTPOSTED'));
+  const date = parseOfxDate(childText(transaction, 'DTUSER')) ?? postedDate;
+  if (!date) {
+    return { reason: 'no transaction date' };
+  }
+
+  const trnamt = parseOfxAmount(childText(transaction, 'TRNAMT'));
+  if (trnamt === null) {
+    return { reason: 'no amount' };
+  }
+
+  const name = childText(transaction, 'NAME') ?? childText(transaction, 'PAYEE', 'NAME');
+  const memo = childText(transaction, 'MEMO');
+  const merchant = name ?? memo;
+  if (!merchant) {
+    return { reason: 'no payee name or memo' };
+  }
+
+  const amount = -trnamt;
+  const currency = findChild(transaction, 'CURRENCY');
+  const origCurrency = findChild(transaction, 'ORIGCURRENCY');
+  const rate = parseOfxAmount(childText(origCurrency, 'CURRATE'));
+  const origSymbol = childText(origCurrency, 'CURSYM');
+
+  return buildBankFileRow({
+    rowNumber: transaction.line,
+    date,
+    chargeDate: postedDate,
+    merchant,
+    notes: name ? memo : null,
+    amount,
+    currency: childText(currency, 'CURSYM') ?? statementCurrency,
+    original: origSymbol && rate ? { amount: round(amount / rate), currency: origSymbol } : null,
+    cardLastFour,
+    rawText,
+  });
+};
+
+const parseStatement = (statement: XmlElement, kind: BankFileStatement['kind']): BankFileStatement => {
+  const account = findChild(statement, kind === 'credit_card' ? 'CCACCTFROM' : 'BANKACCTFROM');
+  const accountId = childText(account, 'ACCTID') ?? '';
+  const cardLastFour = kind === 'credit_card' ? cardLastFourOf(accountId) : null;
+  const currency = childText(statement, 'CURDEF')?.toUpperCase() ?? 'ILS';
+  const transactionList = findChild(statement, 'BANKTRANLIST');
+
+  const rows: ParsedTransactionRow[] = [];
+  const skippedRows: SkippedStatementRow[] = [];
+  for (const transaction of findChildren(transactionList, 'STMTTRN')) {
+    const result = mapTransaction(transaction, currency, cardLastFour);
+    if ('reason' in result) {
+      skippedRows.push({
+        rowNumber: transaction.line,
+        reason: result.reason,
+        text: transaction.children.map(child => child.text.trim()).filter(text => text.length > 0).join(' '),
+      });
+    } else {
+      rows.push(result);
+    }
+  }
+
+  const headerData: BankFileStatement['headerData'] = {};
+  if (cardLastFour) headerData.lastFourDigits = cardLastFour;
+  const accountDigits = kind === 'bank_account' ? accountDigitsOf(accountId) : null;
+  if (accountDigits) headerData.bankAccountNumber = accountDigits;
+
+  const statementDate = parseOfxDate(childText(statement, 'LEDGERBAL', 'DTASOF'))
+    ?? parseOfxDate(childText(transactionList, 'DTEND'));
+  if (statementDate) headerData.statementDate = toStatementDate(statementDate);
+
+  // A card statement's ledger balance is the amount owed (negative); a bank balance is not a statement total
+  const balance = parseOfxAmount(childText(statement, 'LEDGERBAL', 'BALAMT'));
+  if (kind === 'credit_card' && currency === 'ILS' && balance !== null && balance < 0) {
+    headerData.totalAmount = round(-balance);
+  }
+
+  return { accountId, kind, headerData, rows, skippedRows };
+};
+
+/**
+ * Parse every bank (STMTRS) and credit card (CCSTMTRS) statement of an OFX or QFX file
+ */
+export const parseOfx = (text: string): BankFileStatement[] => {
+  const document = parseXml(text);
+
+  return [
+    ...findDescendants(document, 'STMTRS').map(statement => parseStatement(statement, 'bank_account')),
+    ...findDescendants(document, 'CCSTMTRS').map(statement => parseStatement(statement, 'credit_card')),
+  ];
+};
@@ -0,0 +1,192 @@
+// Column-mapping profiles for common Israeli card issuer and bank statement exports
+
+import { normalizeCell } from './values';
+
+export type StatementColumn =
+  | 'date'
+  | 'chargeDate'
+  | 'merchant'
+  | 'originalAmount'
+  | 'chargedAmount'
+  | 'currency'
+  | 'debit'
+  | 'credit'
+  | 'notes'
+  | 'cardLastFour';
+
+export type StatementProfileId = 'isracard' | 'cal' | 'max' | 'leumi' | 'hapoalim' | 'mizrahi';
+
+export interface StatementProfile {
+  id: StatementProfileId;
+  displayName: string;
+  kind: 'credit_card' | 'bank_account';
+  /** Header texts (after normalization) that identify each column, most specific first */
+  columns: Partial<Record<StatementColumn, string[]>>;
+  /** Words in the preamble that identify the issuer when several profiles fit the header */
+  issuerHints: string[];
+}
+
+export const STATEMENT_PROFILES: StatementProfile[] = [
+  {
+    id: 'isracard',
+    displayName: 'Isracard / American Express',
+    kind: 'credit_card',
+    columns: {
+      date: ['תאריך רכישה', 'תאריך עסקה'],
+      merchant: ['שם בית עסק', 'שם בית העסק'],
+      originalAmount: ['סכום עסקה', 'סכום מקורי'],
+      currency: ['מטבע מקור', 'מטבע עסקה'],
+      chargedAmount: ['סכום חיוב', 'סכום לחיוב'],
+      chargeDate: ['תאריך חיוב'],
+      notes: ['פירוט נוסף'],
+    },
+    issuerHints: ['ישראכרט', 'isracard', 'אמריקן אקספרס', 'american express'],
+  },
+  {
+    id: 'cal',
+    displayName: 'Cal (Visa Cal / Diners)',
+    kind: 'credit_card',
+    columns: {
+      date: ['תאריך העסקה', 'תאריך עסקה'],
+      merchant: ['שם בית העסק', 'שם בית עסק'],
+      originalAmount: ['סכום העסקה', 'סכום עסקה'],
+      chargedAmount: ['סכום החיוב', 'סכום חיוב'],
+      chargeDate: ['מועד חיוב', 'תאריך חיוב'],
+      notes: ['הערות', 'פירוט נוסף'],
+    },
+    issuerHints: ['כאל', 'cal', 'כרטיסי אשראי לישראל', 'דיינרס', 'diners'],
+  },
+  {
+    id: 'max',
+    displayName: 'Max (formerly Leumi Card)',
+    kind: 'credit_card',
+    columns: {
+      date: ['תאריך עסקה'],
+      merchant: ['שם בית העסק'],
+      originalAmount: ['סכום עסקה מקורי'],
+      currency: ['מטבע עסקה מקורי'],
+      chargedAmount: ['סכום חיוב'],
+      chargeDate: ['תאריך חיוב'],
+      notes: ['הערות'],
+      cardLastFour: ['4 ספרות אחרונות של כרטיס האשראי'],
+    },
+    issuerHints: ['max', 'מקס', 'לאומי קארד'],
+  },
+  {
+    id: 'leumi',
+    displayName: 'Bank Leumi',
+    kind: 'bank_account',
+    columns: {
+      date: ['תאריך'],
+      chargeDate: ['תאריך ערך'],
+      merchant: ['תיאור', 'תאור'],
+      debit: ['בחובה'],
+      credit: ['בזכות'],
+      notes: ['אסמכתא'],
+    },
+    issuerHints: ['לאומי', 'leumi'],
+  },
+  {
+    id: 'hapoalim',
+    displayName: 'Bank Hapoalim',
+    kind: 'bank_account',
+    columns: {
+      date: ['תאריך'],
+      chargeDate: ['תאריך ערך'],
+      merchant: ['תיאור הפעולה', 'הפעולה'],
+      debit: ['חובה'],
+      credit: ['זכות'],
+      notes: ['פרטים'],
+    },
+    issuerHints: ['הפועלים', 'poalim'],
+  },
+  {
+    id: 'mizrahi',
+    displayName: 'Mizrahi-Tefahot',
+    kind: 'bank_account',
+    columns: {
+      date: ['תאריך'],
+      chargeDate: ['ת. ערך', 'תאריך ערך'],
+      merchant: ['סוג תנועה', 'תיאור'],
+      debit: ['חובה'],
+      credit: ['זכות'],
+      notes: ['אסמכתא'],
+    },
+    issuerHints: ['מזרחי', 'טפחות', 'mizrahi'],
+  },
+];
+
+export interface HeaderMatch {
+  profile: StatementProfile;
+  /** Column → index of the header cell it was found in */
+  columnIndexes: Partial<Record<StatementColumn, number>>;
+  score: number;
+}
+
+const normalizeHeader = (cell: string): string => normalizeCell(cell).replace(/[:*]/g, '').trim();
+
+/**
+ * Map header cells to profile columns. Exact matches win over partial ones,
+ * so "תאריך ערך" goes to chargeDate rather than date.
+ */
+export const matchHeader = (cells: string[], profile: StatementProfile): HeaderMatch | null => {
+  const headers = cells.map(normalizeHeader);
+  const columnIndexes: Partial<Record<StatementColumn, number>> = {};
+  const taken = new Set<number>();
+  let score = 0;
+
+  for (const exact of [true, false]) {
+    for (const [column, aliases] of Object.entries(profile.columns) as Array<[StatementColumn, string[]]>) {
+      if (columnIndexes[column] !== undefined) continue;
+
+      const index = headers.findIndex((header, i) =>
+        !taken.has(i) && aliases.some(alias => exact ? header === alias : header.includes(alias))
+      );
+
+      if (index >= 0) {
+        columnIndexes[column] = index;
+        taken.add(index);
+        score += exact ? 2 : 1;
+      }
+    }
+  }
+
+  const hasAmount = ['originalAmount', 'chargedAmount', 'debit', 'credit']
+    .some(column => columnIndexes[column as StatementColumn] !== undefined);
+
+  if (columnIndexes.date === undefined || columnIndexes.merchant === undefined || !hasAmount) {
+    return null;
+  }
+
+  return { profile, columnIndexes, score };
+};
+
+/**
+ * Find the best profile for a header row, using issuer hints from the preamble to break ties
+ */
+export const detectProfile = (
+  cells: string[],
+  preamble: string,
+  profiles: StatementProfile[] = STATEMENT_PROFILES
+): HeaderMatch | null => {
+  const preambleText = normalizeCell(preamble).toLowerCase();
+
+  const matches = profiles
+    .map(profile => matchHeader(cells, profile))
+    .filter((match): match is HeaderMatch => match !== null)
+    .map(match => ({
+      ...match,
+      score: match.score + (match.profile.issuerHints.some(hint => preambleText.includes(hint)) ? 3 : 0),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  return matches[0] ?? null;
+};
+
+export const getStatementProfile = (id: StatementProfileId): StatementProfile => {
+  const profile = STATEMENT_PROFILES.find(candidate => candidate.id === id);
+  if (!profile) {
+    throw new Error(`Unknown statement profile "${id}"`);
+  }
+  return profile;
+};
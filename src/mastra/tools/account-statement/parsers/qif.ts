@@ -0,0 +1,200 @@
+// QIF (Quicken Interchange Format) parser: bank, cash and credit card transaction lists
+
+import { ParsedTransactionRow } from '../types';
+import { parseAmount, parseDate } from './values';
+import { BankFileStatement, accountDigitsOf, buildBankFileRow, cardLastFourOf } from './bank-statement';
+
+export type QifDateOrder = 'mdy' | 'dmy';
+
+export interface ParseQifOptions {
+  /** QIF dates carry no format; detected from the file when not given (month first when ambiguous) */
+  dateOrder?: QifDateOrder;
+  /** QIF amounts carry no currency */
+  currency?: string;
+}
+
+// Transaction lists; investment, category, class and memorized lists are not bank transactions
+const TRANSACTION_TYPES: Record<string, BankFileStatement['kind']> = {
+  bank: 'bank_account',
+  cash: 'bank_account',
+  'oth a': 'bank_account',
+  'oth l': 'bank_account',
+  ccard: 'credit_card',
+};
+
+interface QifRecord {
+  lineNumber: number;
+  fields: Map<string, string[]>;
+}
+
+interface QifSection {
+  accountName: string | null;
+  type: string;
+  records: QifRecord[];
+}
+
+// 03/25/2026, 3/25'26, 25.03.26, 3/ 5/2026
+const DATE_PATTERN = /^(\d{1,2})\s*[/.-]\s*(\d{1,2})\s*(?:[/.-]|')\s*(\d{2}|\d{4})$/;
+
+/**
+ * Split the file into sections (one per !Type header), remembering the account each belongs to
+ */
+const readSections = (text: string): QifSection[] => {
+  const sections: QifSection[] = [];
+  let accountName: string | null = null;
+  let inAccountBlock = false;
+  let section: QifSection | null = null;
+  let record: QifRecord | null = null;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('!')) {
+      const header = line.slice(1).toLowerCase();
+      inAccountBlock = header === 'account';
+      if (header.startsWith('type:')) {
+        section = { accountName, type: header.slice(5).trim(), records: [] };
+        sections.push(section);
+      }
+      // !Option and !Clear lines only switch Quicken's auto-switch mode
+      record = null;
+      return;
+    }
+
+    if (inAccountBlock) {
+      if (line[0] === 'N') accountName = line.slice(1).trim();
+      return;
+    }
+    if (!section) return;
+
+    if (line === '^') {
+      record = null;
+      return;
+    }
+
+    if (!record) {
+      record = { lineNumber: index + 1, fields: new Map() };
+      section.records.push(record);
+    }
+    record.fields.set(line[0], [...(record.fields.get(line[0]) ?? []), line.slice(1).trim()]);
+  });
+
+  return sections;
+};
+
+const dateParts = (value: string): [number, number, string] | null => {
+  const match = value.replace(/\s+/g, ' ').match(DATE_PATTERN);
+  return match ? [Number(match[1]), Number(match[2]), match[3]] : null;
+};
+
+/**
+ * A first part above 12 can only be a day; otherwise month first, as Quicken writes them
+ */
+const detectDateOrder = (dates: string[]): QifDateOrder => {
+  const parts = dates.map(dateParts).filter((part): part is [number, number, string] => part !== null);
+  if (parts.some(([first]) => first > 12)) return 'dmy';
+  return 'mdy';
+};
+
+const parseQifDate = (value: string, order: QifDateOrder): string | null => {
+  if (/^\d{4}-\d{1,2}-\d{1,2}$/.test(value)) return parseDate(value);
+
+  const parts = dateParts(value);
+  if (!parts) return null;
+
+  const [first, second, year] = parts;
+  const [day, month] = order === 'dmy' ? [first, second] : [second, first];
+  const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year);
+  return parseDate(`${fullYear}-${month}-${day}`);
+};
+
+const mapRecord = (
+  record: QifRecord,
+  dateOrder: QifDateOrder,
+  currency: string,
+  cardLastFour: string | null
+): ParsedTransactionRow | { reason: string } => {
+  const field = (code: string): string | null => record.fields.get(code)?.[0] || null;
+
+  const date = field('D') ? parseQifDate(field('D')!, dateOrder) : null;
+  if (!date) {
+    return { reason: 'no transaction date' };
+  }
+
+  // T and U both hold the amount (U in newer Quicken exports); splits ($) add up to it
+  const amount = parseAmount(field('T') ?? field('U') ?? '');
+  if (amount === null) {
+    return { reason: 'no amount' };
+  }
+
+  const payee = field('P');
+  const memo = field('M');
+  const merchant = payee ?? memo;
+  if (!merchant) {
+    return { reason: 'no payee or memo' };
+  }
+
+  return buildBankFileRow({
+    rowNumber: record.lineNumber,
+    date,
+    chargeDate: null,
+    merchant,
+    notes: [payee ? memo : null, field('N') && `#${field('N')}`].filter(part => part).join(' ') || null,
+    amount: -amount,
+    currency,
+    original: null,
+    cardLastFour,
+    rawText: Array.from(record.fields.values()).flat().join(' '),
+  });
+};
+
+/**
+ * Parse the bank, cash and credit card lists of a QIF file, one statement per account (or per list when the
+ * file has no !Account blocks). QIF amounts are negative for money out.
+ */
+export const parseQif = (text: string, options: ParseQifOptions = {}): BankFileStatement[] => {
+  const sections = readSections(text);
+  const dateOrder = options.dateOrder ?? detectDateOrder(
+    sections.flatMap(section => section.records.map(record => record.fields.get('D')?.[0] ?? ''))
+  );
+  const currency = options.currency ?? 'ILS';
+  const statements = new Map<string, BankFileStatement>();
+
+  for (const section of sections) {
+    const kind = TRANSACTION_TYPES[section.type];
+    const accountId = section.accountName ?? section.type;
+
+    if (!kind) {
+      console.warn(`⚠️ Skipping ${section.records.length} QIF "${section.type}" records: not a bank or card list`);
+      continue;
+    }
+
+    const key = `${kind}:${accountId}`;
+    if (!statements.has(key)) {
+      const headerData: BankFileStatement['headerData'] = {};
+      const lastFour = kind === 'credit_card' && section.accountName ? cardLastFourOf(section.accountName) : null;
+      const accountDigits = kind === 'bank_account' && section.accountName ? accountDigitsOf(section.accountName) : null;
+      if (lastFour) headerData.lastFourDigits = lastFour;
+      if (accountDigits) headerData.bankAccountNumber = accountDigits;
+
+      statements.set(key, { accountId, kind, headerData, rows: [], skippedRows: [] });
+    }
+    const statement = statements.get(key)!;
+
+    for (const record of section.records) {
+      const result = mapRecord(record, dateOrder, currency, statement.headerData.lastFourDigits ?? null);
+      if ('reason' in result) {
+        statement.skippedRows.push({
+          rowNumber: record.lineNumber,
+          reason: result.reason,
+          text: Array.from(record.fields.values()).flat().join(' '),
+        });
+      } else {
+        statement.rows.push(result);
+      }
+    }
+  }
+
+  return Array.from(statements.values());
+};
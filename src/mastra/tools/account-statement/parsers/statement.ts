@@ -0,0 +1,243 @@
+// Deterministic statement parser: header detection, row mapping and header-data extraction
+
+import { CreditCardData, ParsedTransactionRow } from '../types';
+import { decodeStatementText, parseCsv } from './csv';
+import {
+  StatementColumn,
+  StatementProfile,
+  StatementProfileId,
+  HeaderMatch,
+  detectProfile,
+  matchHeader,
+  getStatementProfile
+} from './profiles';
+import { normalizeCell, parseAmount, parseCurrency, parseDate, parseInstallment } from './values';
+
+// The column header is expected within the first lines; everything above it is preamble
+const HEADER_SEARCH_DEPTH = 40;
+
+// Total and subtotal labels as whole words, so merchants like "TOTAL ENERGIES" are not totals
+const TOTAL_WORD_PATTERN = /(?<![\p{L}\p{N}])(?:סה["״]כ|סך הכל|total)(?![\p{L}\p{N}])/iu;
+
+// A cell that is a total label ("סה"כ לחיוב", "Total:", "Total for card 1234"), for total rows that carry a date
+const TOTAL_LABEL_PATTERN = /^(?:סה["״]כ|סך הכל)(?![\p{L}\p{N}])|^(?:sub|grand )?total(?:\s*:|\s+for\b|\s*$)/iu;
+
+export interface ParseStatementOptions {
+  /** Force a profile instead of auto-detecting it from the header row */
+  profileId?: StatementProfileId;
+  /** Workbook sheet the table came from, recorded on every row for traceability */
+  sheetName?: string;
+}
+
+export interface SkippedStatementRow {
+  rowNumber: number;
+  reason: string;
+  text: string;
+  /** Workbook sheet the row came from, when the table is one sheet of a workbook */
+  sheetName?: string | null;
+}
+
+export interface ParsedStatement {
+  profile: Pick<StatementProfile, 'id' | 'displayName' | 'kind'>;
+  headerRowNumber: number;
+  /** Preamble lines above the header row (card, account and statement date usually live here) */
+  preamble: string[];
+  rows: ParsedTransactionRow[];
+  skippedRows: SkippedStatementRow[];
+}
+
+/**
+ * Parse a statement export (UTF-8 or Windows-1255 bytes, or already-decoded text) into typed rows
+ */
+export const parseStatementCsv = (
+  input: string | Uint8Array,
+  options: ParseStatementOptions = {}
+): ParsedStatement => {
+  const text = decodeStatementText(input);
+  return parseStatementTable(parseCsv(text), options);
+};
+
+/**
+ * Parse already-tokenized rows of cells. Shared by the CSV path and other tabular sources.
+ */
+export const parseStatementTable = (
+  table: Array<{ lineNumber: number; cells: string[] }>,
+  options: ParseStatementOptions = {}
+): ParsedStatement => {
+  const forcedProfile = options.profileId ? getStatementProfile(options.profileId) : null;
+
+  // Locate the header row
+  let header: HeaderMatch | null = null;
+  let headerIndex = -1;
+
+  for (let i = 0; i < Math.min(table.length, HEADER_SEARCH_DEPTH); i++) {
+    const preamble = table.slice(0, i).map(row => row.cells.join(' ')).join('\n');
+    const match = forcedProfile
+      ? matchHeader(table[i].cells, forcedProfile)
+      : detectProfile(table[i].cells, preamble);
+
+    if (match) {
+      header = match;
+      headerIndex = i;
+      break;
+    }
+  }
+
+  if (!header) {
+    throw new Error(
+      forcedProfile
+        ? `Could not find a "${forcedProfile.displayName}" header row in the statement`
+        : 'Could not detect the statement format: no known column header found. Supported profiles: isracard, cal, max, leumi, hapoalim, mizrahi'
+    );
+  }
+
+  const rows: ParsedTransactionRow[] = [];
+  const skippedRows: SkippedStatementRow[] = [];
+
+  for (const { lineNumber, cells } of table.slice(headerIndex + 1)) {
+    const rowText = cells.filter(cell => cell.length > 0).join(' ');
+
+    // Some exports repeat the header per section (e.g. domestic and abroad transactions)
+    const repeatedHeader = matchHeader(cells, header.profile);
+    if (repeatedHeader) {
+      header = { ...repeatedHeader, score: header.score };
+      skippedRows.push({ rowNumber: lineNumber, reason: 'section header', text: rowText, sheetName: options.sheetName ?? null });
+      continue;
+    }
+
+    const result = mapRow(cells, header.columnIndexes, lineNumber, rowText, options.sheetName ?? null);
+    if ('reason' in result) {
+      skippedRows.push({ rowNumber: lineNumber, reason: result.reason, text: rowText, sheetName: options.sheetName ?? null });
+    } else {
+      rows.push(result);
+    }
+  }
+
+  console.log(`🧾 Parsed ${rows.length} rows (${skippedRows.length} skipped) using profile "${header.profile.id}"`);
+
+  return {
+    profile: {
+      id: header.profile.id,
+      displayName: header.profile.displayName,
+      kind: header.profile.kind,
+    },
+    headerRowNumber: table[headerIndex].lineNumber,
+    preamble: table.slice(0, headerIndex).map(row => row.cells.filter(cell => cell.length > 0).join(' ')),
+    rows,
+    skippedRows,
+  };
+};
+
+const mapRow = (
+  cells: string[],
+  columnIndexes: Partial<Record<StatementColumn, number>>,
+  rowNumber: number,
+  rawText: string,
+  sheetName: string | null
+): ParsedTransactionRow | { reason: string } => {
+  const cell = (column: StatementColumn): string => {
+    const index = columnIndexes[column];
+    return index === undefined ? '' : normalizeCell(cells[index] ?? '');
+  };
+
+  // Undated rows mentioning a total are totals; a dated row only when it starts with a total label
+  const date = parseDate(cell('date'));
+  const firstCell = cells.map(normalizeCell).find(value => value.length > 0) ?? '';
+  if (date ? TOTAL_LABEL_PATTERN.test(firstCell) : TOTAL_WORD_PATTERN.test(rawText)) {
+    return { reason: 'total row' };
+  }
+
+  if (!date) {
+    return { reason: 'no transaction date (header, footer or note row)' };
+  }
+
+  const merchant = cell('merchant');
+  if (!merchant) {
+    return { reason: 'no merchant or description' };
+  }
+
+  // Bank exports split money out / money in into two columns
+  const debit = parseAmount(cell('debit'));
+  const credit = parseAmount(cell('credit'));
+  const bankAmount = debit || credit ? (debit ?? 0) - (credit ?? 0) : null;
+
+  const originalAmountCell = cell('originalAmount');
+  const originalAmount = parseAmount(originalAmountCell);
+  const chargedAmount = parseAmount(cell('chargedAmount')) ?? bankAmount;
+
+  const currency = parseCurrency(cell('currency'))
+    ?? parseCurrency(originalAmountCell)
+    ?? 'ILS';
+
+  if (originalAmount === null && chargedAmount === null) {
+    return { reason: 'no amount' };
+  }
+
+  const cardLastFour = cell('cardLastFour').match(/\d{4}$/)?.[0] ?? null;
+  const notes = cell('notes') || null;
+
+  return {
+    rowNumber,
+    date,
+    chargeDate: parseDate(cell('chargeDate')),
+    merchant,
+    originalAmount: originalAmount ?? chargedAmount ?? 0,
+    // A foreign-currency row without a charged amount cannot be expressed in ILS yet
+    chargedAmount: chargedAmount ?? (currency === 'ILS' ? originalAmount : null),
+    currency,
+    notes,
+    cardLastFour,
+    installment: parseInstallment(`${merchant} ${notes ?? ''}`),
+    sheetName,
+    rawText,
+  };
+};
+
+/**
+ * Extract statement header data (card, account, date, total) from preamble text with regexes.
+ * Returns only the fields that were found; callers fall back to the LLM for the rest.
+ */
+export const extractStatementHeaderData = (text: string): Partial<CreditCardData> => {
+  const normalized = normalizeCell(text.replace(/\r?\n/g, ' '));
+  const result: Partial<CreditCardData> = {};
+
+  const card = normalized.match(/(?:המסתיים|מסתיים|המסתיימת)\s*ב[-\s]*(\d{4})\b/)
+    ?? normalized.match(/כרטיס[^\d]{0,30}(?:\d{4}[-\s*]+){0,3}(\d{4})\b/);
+  if (card) result.lastFourDigits = card[1];
+
+  const account = normalized.match(/(?:לחשבון|חשבון|חש')[^\d]{0,30}(\d{2,4}[-\s]?\d{3,9}(?:[-\s]?\d{1,3})?)/);
+  if (account) {
+    const digits = account[1].replace(/\D/g, '');
+    if (digits.length >= 6 && digits.length <= 12) result.bankAccountNumber = digits;
+  }
+
+  const statementDate = normalized.match(/(?:לחיוב ב|מועד חיוב|תאריך חיוב)[-:\s]*(\d{1,2}[./-]\d{1,2}[./-]\d{2,4})/);
+  const isoDate = statementDate ? parseDate(statementDate[1]) : null;
+  if (isoDate) {
+    const [year, month, day] = isoDate.split('-');
+    result.statementDate = `${day}/${month}/${year}`;
+  }
+
+  const total = normalized.match(/(?:סה"כ|סך הכל)[^\d-]{0,40}(-?[\d,]+\.\d{2})/);
+  const totalAmount = total ? parseAmount(total[1]) : null;
+  if (totalAmount !== null && totalAmount > 0) result.totalAmount = totalAmount;
+
+  return result;
+};
+
+/**
+ * Text handed to the LLM for one row: merchant, amount and notes only, in a stable order
+ */
+export const formatRowForAnalysis = (row: ParsedTransactionRow): string => {
+  const [year, month, day] = row.date.split('-');
+  const amount = row.chargedAmount ?? row.originalAmount;
+  const currency = row.chargedAmount !== null ? 'ILS' : row.currency;
+
+  return [
+    `${day}/${month}/${year}`,
+    row.merchant,
+    `${amount} ${currency}`,
+    row.currency !== 'ILS' && row.chargedAmount !== null ? `(${row.originalAmount} ${row.currency})` : '',
+    row.notes ?? '',
+  ].filter(part => part.length > 0).join(' ');
+};
@@ -0,0 +1,167 @@
+// Free-text transaction parsing: amounts, currencies and dates in Israeli statement formats
+
+import { CURRENCY_MARKERS, normalizeCell, parseAmount, parseCurrency, parseDate, parseInstallment } from './values';
+
+export interface ParsedTransactionText {
+  /** First date found in the text, ISO YYYY-MM-DD */
+  transactionDate: string | null;
+  /** ISO 4217 currency of the original amount */
+  currency: string;
+  /** Amount in the original currency. Positive = money out, negative = refund or credit */
+  originalAmount: number | null;
+  /** Amount charged in ILS, null when the text only has a foreign amount */
+  chargedAmount: number | null;
+  /** Installment position ("תשלום 3 מתוך 12"), null for a regular charge */
+  installment: { number: number; total: number } | null;
+  /** Text left after removing dates, times, amounts and currency marks - merchant and description */
+  merchantText: string;
+}
+
+interface AmountMatch {
+  amount: number;
+  currency: string | null;
+  hasDecimals: boolean;
+}
+
+// A number with an optional leading or trailing minus and an optional currency mark on either side
+const AMOUNT_PATTERN = new RegExp(
+  String.raw`(?:(?<!\p{L})(${CURRENCY_MARKERS})\s?)?(?<![\p{L}\d.,])(-?\d{1,3}(?:,\d{3})+(?:\.\d+)?|-?\d+(?:\.\d+)?)(-(?!\d))?(?!\d|\s?%)(?:\s?(${CURRENCY_MARKERS})(?!\p{L}))?`,
+  'giu'
+);
+
+const ENGLISH_MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const HEBREW_MONTHS = ['ינואר', 'פברואר', 'מרץ', 'אפריל', 'מאי', 'יוני', 'יולי', 'אוגוסט', 'ספטמבר', 'אוקטובר', 'נובמבר', 'דצמבר'];
+
+const DATE_PATTERNS: Array<{ pattern: RegExp; toIso: (match: RegExpExecArray) => string | null }> = [
+  // 2024-08-27
+  { pattern: /(?<!\d)\d{4}-\d{1,2}-\d{1,2}(?!\d)/g, toIso: match => parseDate(match[0]) },
+  // 27/08/2024, 27.08.24, 27-08-2024
+  { pattern: /(?<!\d)\d{1,2}[./-]\d{1,2}[./-](?:\d{4}|\d{2})(?!\d)/g, toIso: match => parseDate(match[0]) },
+  // Aug 27 2024 (JavaScript Date strings pasted from spreadsheets)
+  {
+    pattern: /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})\b/gi,
+    toIso: match => fromParts(match[3], ENGLISH_MONTHS.indexOf(match[1].toLowerCase()) + 1, match[2]),
+  },
+  // 27 Aug 2024
+  {
+    pattern: /\b(\d{1,2})\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?,?\s+(\d{4})\b/gi,
+    toIso: match => fromParts(match[3], ENGLISH_MONTHS.indexOf(match[2].toLowerCase()) + 1, match[1]),
+  },
+  // 27 באוגוסט 2024
+  {
+    pattern: new RegExp(String.raw`(?<!\d)(\d{1,2})\s+ב?(${HEBREW_MONTHS.join('|')})\s+(\d{4})(?!\d)`, 'g'),
+    toIso: match => fromParts(match[3], HEBREW_MONTHS.indexOf(match[2]) + 1, match[1]),
+  },
+];
+
+// Numbers that look like amounts but are not: times, time zones, card digits, installment counters
+const NOISE_PATTERNS = [
+  /\d{1,2}:\d{2}(?::\d{2})?/g,
+  /GMT[+-]\d{4}(?:\s*\([^)]*\))?/gi,
+  /\b(?:sun|mon|tue|wed|thu|fri|sat)[a-z]*\b/gi,
+  /(?:המסתיים|מסתיים|המסתיימת)\s*ב[-\s]*\d{4}/g,
+  /(?:[*xX]{2,}[-\s]?)+\d{4}(?!\d)/g,
+  /(?<!\d)\d{4}(?:[-\s]\d{4}){3}(?!\d)/g,
+  /(?:תשלום\s*)?(?<![\d.,])\d{1,2}\s*(?:מתוך|מ-|\/)\s*\d{1,2}(?![\d.,])/g,
+  /installment\s*\d{1,2}\s*(?:of|\/)\s*\d{1,2}/gi,
+];
+
+const fromParts = (year: string, month: number, day: string): string | null => {
+  if (month < 1) return null;
+  return parseDate(`${year}-${String(month).padStart(2, '0')}-${day.padStart(2, '0')}`);
+};
+
+/**
+ * Find the first date in the text and return the text with every date removed
+ */
+const extractDates = (text: string): { transactionDate: string | null; rest: string } => {
+  let first: { index: number; iso: string } | null = null;
+  let rest = text;
+
+  for (const { pattern, toIso } of DATE_PATTERNS) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      const iso = toIso(match as RegExpExecArray);
+      if (!iso) continue;
+
+      if (!first || match.index! < first.index) {
+        first = { index: match.index!, iso };
+      }
+      rest = rest.replace(match[0], ' ');
+    }
+  }
+
+  return { transactionDate: first?.iso ?? null, rest };
+};
+
+/**
+ * Every amount in the text with the currency mark next to it, if any
+ */
+const extractAmounts = (text: string): { amounts: AmountMatch[]; rest: string } => {
+  const amounts: AmountMatch[] = [];
+
+  const rest = text.replace(AMOUNT_PATTERN, (whole, prefix, number, trailingMinus, suffix) => {
+    const amount = parseAmount(`${number}${trailingMinus ?? ''}`);
+    const currency = parseCurrency(prefix ?? suffix ?? '');
+
+    // Long digit runs without a currency are reference or account numbers
+    if (amount === null || (!currency && !number.includes('.') && number.replace(/\D/g, '').length >= 6)) {
+      return whole;
+    }
+
+    amounts.push({ amount, currency, hasDecimals: number.includes('.') });
+    return ' ';
+  });
+
+  return { amounts, rest };
+};
+
+/**
+ * Parse a free-text transaction line such as "27/08/2024 שופרסל דיל 1,234.56 ₪" or
+ * "AMAZON.COM 20.00 USD 75.32" into its date, amounts and currency.
+ *
+ * Foreign-currency amounts become the original amount and the ILS amount the charged one;
+ * for installment rows the whole deal amount is the original amount. Without currency marks the last amount (preferring ones with agorot) is taken as the ILS charge,
+ * since Hebrew statement rows put the charged amount at the end of the line.
+ */
+export const parseTransactionText = (text: string): ParsedTransactionText => {
+  const normalized = normalizeCell(text).replace(/−/g, '-');
+
+  const { transactionDate, rest: withoutDates } = extractDates(normalized);
+  const withoutNoise = NOISE_PATTERNS.reduce((current, pattern) => current.replace(pattern, ' '), withoutDates);
+  const { amounts, rest } = extractAmounts(withoutNoise);
+
+  const foreign = amounts.filter(match => match.currency && match.currency !== 'ILS');
+  const shekel = amounts.filter(match => match.currency === 'ILS');
+  const unmarked = amounts.filter(match => !match.currency);
+  const preferredUnmarked = unmarked.filter(match => match.hasDecimals).pop() ?? unmarked[unmarked.length - 1];
+
+  let currency = 'ILS';
+  let originalAmount: number | null = null;
+  let chargedAmount: number | null = null;
+
+  if (foreign.length > 0) {
+    const original = foreign[foreign.length - 1];
+    currency = original.currency!;
+    originalAmount = original.amount;
+    chargedAmount = (shekel[shekel.length - 1] ?? preferredUnmarked)?.amount ?? null;
+  } else {
+    chargedAmount = (shekel[shekel.length - 1] ?? preferredUnmarked)?.amount ?? null;
+    originalAmount = chargedAmount;
+  }
+
+  // Installment rows list the whole deal amount next to this month's payment
+  const installment = parseInstallment(withoutDates);
+  const shekelAmounts = [...shekel, ...unmarked].map(match => match.amount);
+  if (installment && foreign.length === 0 && shekelAmounts.length > 1) {
+    originalAmount = shekelAmounts.reduce((largest, amount) => Math.abs(amount) > Math.abs(largest) ? amount : largest);
+  }
+
+  return {
+    transactionDate,
+    currency,
+    originalAmount,
+    chargedAmount,
+    installment,
+    merchantText: rest.replace(/\s+/g, ' ').trim(),
+  };
+};
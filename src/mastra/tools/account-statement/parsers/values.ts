@@ -0,0 +1,126 @@
+// Cell-level value parsing for Hebrew statement exports (dates, amounts, currencies)
+
+/**
+ * Strip bidi control marks, normalize Hebrew gershayim/geresh and collapse whitespace
+ */
+export const normalizeCell = (value: string): string => {
+  return value
+    .normalize('NFKC')
+    .replace(/[\u200e\u200f\u202a-\u202e\u2066-\u2069\ufeff]/g, '')
+    .replace(/\u05f4/g, '"')
+    .replace(/\u05f3/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Parse DD/MM/YYYY, DD.MM.YY, DD-MM-YYYY and ISO YYYY-MM-DD dates into ISO YYYY-MM-DD
+ */
+export const parseDate = (value: string): string | null => {
+  const text = normalizeCell(value);
+
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return toIsoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+
+  const dayFirst = text.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{2}|\d{4})\b/);
+  if (dayFirst) {
+    const year = dayFirst[3].length === 2 ? 2000 + Number(dayFirst[3]) : Number(dayFirst[3]);
+    return toIsoDate(year, Number(dayFirst[2]), Number(dayFirst[1]));
+  }
+
+  return null;
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  // Reject impossible dates such as 31/02
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Currency marks that can sit next to an amount, as a regex alternation. Longer forms come first (שקלים before שקל)
+ */
+export const CURRENCY_MARKERS = String.raw`₪|\$|€|£|ש"ח|שח|שקלים|שקל|דולר|יורו|ils|nis|usd|eur|gbp`;
+
+const CURRENCY_MARKER_PATTERN = new RegExp(CURRENCY_MARKERS, 'gi');
+
+/**
+ * Parse a monetary cell: thousands separators, currency marks, trailing minus and (parentheses) negatives
+ */
+export const parseAmount = (value: string): number | null => {
+  let text = normalizeCell(value)
+    .replace(CURRENCY_MARKER_PATTERN, '')
+    .replace(/\s/g, '');
+
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('-')) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  if (!/^\d{1,3}(,\d{3})*(\.\d+)?$|^\d+(\.\d+)?$/.test(text)) return null;
+
+  const amount = parseFloat(text.replace(/,/g, ''));
+  if (!Number.isFinite(amount)) return null;
+
+  return negative ? -amount : amount;
+};
+
+/**
+ * Map a currency cell or symbol to an ISO 4217 code
+ */
+export const parseCurrency = (value: string): string | null => {
+  const text = normalizeCell(value).toUpperCase();
+  if (!text) return null;
+
+  if (/₪|ש"ח|שקל|ILS|NIS/.test(text)) return 'ILS';
+  if (/\$|USD|דולר/.test(text)) return 'USD';
+  if (/€|EUR|יורו/.test(text)) return 'EUR';
+  if (/£|GBP|ליש"ט/.test(text)) return 'GBP';
+
+  return /^[A-Z]{3}$/.test(text) ? text : null;
+};
+
+// "תשלום 3 מתוך 12", "3 מתוך 12", "תשלום 3/12", "3/12 תשלומים", "installment 3 of 12"
+const INSTALLMENT_PATTERNS = [
+  /תשלום\s*(\d{1,2})\s*(?:מתוך|מ-|\/)\s*(\d{1,2})(?![\d.,])/,
+  /(?<![\d.,/])(\d{1,2})\s*מתוך\s*(\d{1,2})(?![\d.,])/,
+  /(?<![\d.,/])(\d{1,2})\s*\/\s*(\d{1,2})\s*תשלומים/,
+  /installment\s*(\d{1,2})\s*(?:of|\/)\s*(\d{1,2})(?![\d.,])/i,
+];
+
+/**
+ * Parse an installment counter from a notes or description cell
+ */
+export const parseInstallment = (value: string): { number: number; total: number } | null => {
+  const text = normalizeCell(value);
+
+  for (const pattern of INSTALLMENT_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+
+    const number = Number(match[1]);
+    const total = Number(match[2]);
+    if (total >= 2 && number >= 1 && number <= total) {
+      return { number, total };
+    }
+  }
+
+  return null;
+};
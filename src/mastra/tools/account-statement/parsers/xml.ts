@@ -0,0 +1,121 @@
+// Minimal XML reader for structured bank files (OFX 2.x, CAMT.053), lenient enough for OFX 1.x SGML
+
+export interface XmlElement {
+  /** Local name, without its namespace prefix */
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Decoded text directly inside the element */
+  text: string;
+  /** 1-based line of the opening tag */
+  line: number;
+}
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[?!][\s\S]*?>|<(\/?)([^\s>/]+)([^>]*?)(\/?)>/g;
+
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()];
+  });
+
+const localName = (name: string): string => name.slice(name.indexOf(':') + 1);
+
+const countLines = (text: string): number => text.split('\n').length - 1;
+
+const parseAttributes = (text: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[localName(match[1])] = decodeEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+};
+
+/**
+ * Parse XML into an element tree under a "#document" root. Leaf elements may omit their closing tag, as in
+ * OFX 1.x SGML ("<TRNAMT>-12.50"): an element that holds text is closed by the next tag. Declarations,
+ * comments and processing instructions are skipped, and text outside the root element is ignored.
+ */
+export const parseXml = (text: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '', line: 1 };
+  const stack: XmlElement[] = [root];
+  let line = 1;
+  let lastIndex = 0;
+
+  const current = (): XmlElement => stack[stack.length - 1];
+  const addText = (value: string): void => {
+    if (current() !== root) current().text += value;
+  };
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const between = text.slice(lastIndex, match.index);
+    line += countLines(between);
+    if (between.trim()) addText(decodeEntities(between));
+
+    const tagLine = line;
+    line += countLines(match[0]);
+    lastIndex = match.index! + match[0].length;
+
+    const [, cdata, closing, rawName, attributes, selfClosing] = match;
+    if (cdata !== undefined) {
+      addText(cdata);
+      continue;
+    }
+    // Comment, declaration or processing instruction
+    if (!rawName) continue;
+
+    const name = localName(rawName);
+    const top = current();
+    if (top !== root && top.children.length === 0 && top.text.trim() && !(closing && top.name === name)) {
+      stack.pop();
+    }
+
+    if (closing) {
+      // Closing an outer element also closes the unterminated elements inside it
+      const index = stack.map(element => element.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const element: XmlElement = { name, attributes: parseAttributes(attributes), children: [], text: '', line: tagLine };
+    current().children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+
+  return root;
+};
+
+/**
+ * Follow a path of child names, taking the first match at each step
+ */
+export const findChild = (element: XmlElement | undefined, ...path: string[]): XmlElement | undefined => {
+  let found = element;
+  for (const name of path) {
+    found = found?.children.find(child => child.name === name);
+  }
+  return found;
+};
+
+export const findChildren = (element: XmlElement | undefined, name: string): XmlElement[] =>
+  element?.children.filter(child => child.name === name) ?? [];
+
+/**
+ * Every element with the name at any depth, in document order
+ */
+export const findDescendants = (element: XmlElement | undefined, name: string): XmlElement[] =>
+  element?.children.flatMap(child => [...(child.name === name ? [child] : []), ...findDescendants(child, name)]) ?? [];
+
+/**
+ * Trimmed text of the element at the path, null when it is missing or empty
+ */
+export const childText = (element: XmlElement | undefined, ...path: string[]): string | null => {
+  const text = findChild(element, ...path)?.text.trim();
+  return text ? text : null;
+};
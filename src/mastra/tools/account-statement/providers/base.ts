@@ -5,10 +5,35 @@ export interface VectorMetadata extends Record<string, string | number | boolean
   englishSummary: string;
   transactionType: string;
   category: string;
-  amount: number;
+  categorySource: string | null;  // rule | knn | llm | user (corrected through update-transaction)
+  categoryConfidence: number | null; // 0-1, 1 for rules and user corrections
+  merchantRuleId: string | null;  // Merchant rule that set the category
+  amount: number;                 // ILS; the original currency when amountSource is "original" (left out of ILS totals)
+  amountSource: string;           // charged | converted | original
+  exchangeRate: number | null;    // Representative rate used when amountSource is "converted"
+  currency: string;
+  originalAmount: number;
+  chargedAmount: number | null;
   originalText: string;
   createdAt: string;
+  updatedAt: string;
   embeddingModel: string;
+  transactionDate: string | null;
+  cardLastFour: string | null;
+  bankAccountNumber: string | null;       // The statement's account, or the one the card is linked to
+  memberId: string | null;                // Household member the card or account belongs to
+  statementId: string | null;             // Ledger statement the transaction was imported with
+  merchantKey: string;
+  chargeDate: string | null;
+  installmentNumber: number | null;       // 3 in "תשלום 3 מתוך 12"
+  installmentCount: number | null;        // 12 in "תשלום 3 מתוך 12"
+  installmentDealAmount: number | null;   // Whole purchase amount in ILS
+  installmentRemaining: number | null;    // ILS still to be paid after this payment
+  installmentGroupId: string | null;      // Shared by all payments of one purchase
+  refundOf: string | null;                // On a refund: ID of the purchase it reverses
+  refundMatchScore: number | null;        // On a refund: score of the match with that purchase
+  refundStatus: string | null;            // On a refund: matched | unmatched (waiting for review)
+  refundedAmount: number | null;          // On a purchase: ILS refunded so far by linked refunds
 }
 
 export interface VectorRecord {
@@ -23,22 +48,56 @@ export interface VectorSearchResult {
   metadata: VectorMetadata;
 }
 
+export interface VectorMetadataFilters {
+  transactionType?: string;
+  category?: string;
+  minAmount?: number;
+  maxAmount?: number;
+  currency?: string;
+  fromDate?: string;  // Inclusive YYYY-MM-DD bound on transactionDate
+  toDate?: string;    // Inclusive YYYY-MM-DD bound on transactionDate
+  cardLastFour?: string;
+  bankAccountNumber?: string;
+  memberId?: string;
+}
+
 export interface VectorSearchOptions {
   topK?: number;
-  filters?: {
-    transactionType?: string;
-    category?: string;
-    minAmount?: number;
-    maxAmount?: number;
-  };
+  filters?: VectorMetadataFilters;
+}
+
+export interface VectorListOptions {
+  limit?: number;
+  offset?: number;
+  filters?: VectorMetadataFilters;
 }
 
+export interface VectorListResult {
+  records: Array<{ id: string; metadata: VectorMetadata }>;
+  total: number;
+  nextOffset: number | null;
+}
+
+export type VectorDeleteTarget =
+  | { ids: string[] }
+  | { filters: VectorMetadataFilters };
+
 export interface VectorStorageProvider {
   name: string;
   isAvailable(): boolean;
   insert(vectors: VectorRecord[]): Promise<{ mutationId: string }>;
   search(
-    queryVector: number[], 
+    queryVector: number[],
     options?: VectorSearchOptions
   ): Promise<VectorSearchResult[]>;
-} 
\ No newline at end of file
+  getById(id: string): Promise<VectorRecord | null>;
+  updateMetadata(
+    id: string,
+    metadata: Partial<VectorMetadata>
+  ): Promise<VectorRecord | null>;
+  delete(target: VectorDeleteTarget): Promise<{ deletedIds: string[] }>;
+  list(options?: VectorListOptions): Promise<VectorListResult>;
+  /** Every matching record, newest first, read in one pass (no paging) */
+  listAll(filters?: VectorMetadataFilters): Promise<VectorRecord[]>;
+  count(filters?: VectorMetadataFilters): Promise<number>;
+}
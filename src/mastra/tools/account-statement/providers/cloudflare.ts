@@ -6,13 +6,33 @@ import {
   VectorRecord, 
   VectorSearchResult, 
   VectorSearchOptions,
-  VectorMetadata 
+  VectorMetadata,
+  VectorMetadataFilters,
+  VectorListOptions,
+  VectorListResult,
+  VectorDeleteTarget
 } from './base';
+import { matchesFilters, byCreatedAtDesc, hasAmountRange } from './filters';
+
+// Vectorize accepts at most this many IDs per get/delete request
+const VECTORIZE_ID_BATCH_SIZE = 20;
+
+interface VectorizeListVectorsResponse {
+  success: boolean;
+  errors: Array<{ message: string }>;
+  result: {
+    vectors: Array<{ id: string }>;
+    isTruncated: boolean;
+    nextCursor: string | null;
+  };
+}
 
 export class CloudflareVectorizeProvider implements VectorStorageProvider {
   name = 'CloudflareVectorize';
   private store: CloudflareVector;
   private indexName: string;
+  private accountId: string;
+  private apiToken: string;
   
   constructor(accountId: string, apiToken: string, indexName: string = 'finance-transactions') {
     this.store = new CloudflareVector({
@@ -20,6 +40,8 @@ export class CloudflareVectorizeProvider implements VectorStorageProvider {
       apiToken
     });
     this.indexName = indexName;
+    this.accountId = accountId;
+    this.apiToken = apiToken;
   }
   
   isAvailable(): boolean {
@@ -77,12 +99,15 @@ export class CloudflareVectorizeProvider implements VectorStorageProvider {
         filter: this.buildCloudflareFilter(filters)
       });
       
-      // Transform results to our format
-      const searchResults: VectorSearchResult[] = results.map(result => ({
-        id: result.id,
-        score: result.score || 0,
-        metadata: result.metadata as VectorMetadata
-      }));
+      // Transform results to our format. Vectorize compares the amount range with foreign amounts
+      // too, so records without an ILS amount are dropped here
+      const searchResults: VectorSearchResult[] = results
+        .map(result => ({
+          id: result.id,
+          score: result.score || 0,
+          metadata: result.metadata as VectorMetadata
+        }))
+        .filter(result => !hasAmountRange(filters) || result.metadata.amountSource !== 'original');
       
       console.log(`📊 [${this.name}] Found ${searchResults.length} results`);
       
@@ -93,6 +118,151 @@ export class CloudflareVectorizeProvider implements VectorStorageProvider {
     }
   }
   
+  async getById(id: string): Promise<VectorRecord | null> {
+    const [record] = await this.getByIds([id]);
+    return record ?? null;
+  }
+  
+  async updateMetadata(
+    id: string,
+    metadata: Partial<VectorMetadata>
+  ): Promise<VectorRecord | null> {
+    console.log(`✏️ [${this.name}] Updating metadata of vector "${id}" in index "${this.indexName}"`);
+    
+    try {
+      const existing = await this.getById(id);
+      if (!existing) return null;
+      
+      // Vectorize replaces the whole record on upsert, so resend the stored values
+      const updated: VectorRecord = {
+        ...existing,
+        metadata: { ...existing.metadata, ...metadata } as VectorMetadata
+      };
+      
+      await this.store.upsert({
+        indexName: this.indexName,
+        vectors: [updated.values],
+        metadata: [updated.metadata],
+        ids: [updated.id]
+      });
+      
+      return updated;
+    } catch (error) {
+      console.error(`❌ [${this.name}] Error updating vector metadata:`, error);
+      throw error;
+    }
+  }
+  
+  async delete(target: VectorDeleteTarget): Promise<{ deletedIds: string[] }> {
+    console.log(`🗑️ [${this.name}] Deleting vectors from index "${this.indexName}"`);
+    
+    try {
+      const ids = 'ids' in target
+        ? target.ids
+        : (await this.scan(target.filters)).map(record => record.id);
+      
+      for (let i = 0; i < ids.length; i += VECTORIZE_ID_BATCH_SIZE) {
+        await this.store.client.vectorize.indexes.deleteByIds(this.indexName, {
+          account_id: this.accountId,
+          ids: ids.slice(i, i + VECTORIZE_ID_BATCH_SIZE)
+        });
+      }
+      
+      console.log(`✅ [${this.name}] Deleted ${ids.length} vectors`);
+      
+      return { deletedIds: ids };
+    } catch (error) {
+      console.error(`❌ [${this.name}] Error deleting vectors:`, error);
+      throw error;
+    }
+  }
+  
+  async list(options: VectorListOptions = {}): Promise<VectorListResult> {
+    const { limit = 20, offset = 0, filters } = options;
+    
+    const matching = (await this.scan(filters)).sort(byCreatedAtDesc);
+    
+    const records = matching
+      .slice(offset, offset + limit)
+      .map(record => ({ id: record.id, metadata: record.metadata }));
+    
+    return {
+      records,
+      total: matching.length,
+      nextOffset: offset + limit < matching.length ? offset + limit : null
+    };
+  }
+  
+  async listAll(filters?: VectorMetadataFilters): Promise<VectorRecord[]> {
+    return (await this.scan(filters)).sort(byCreatedAtDesc);
+  }
+  
+  async count(filters?: VectorMetadataFilters): Promise<number> {
+    if (!filters) {
+      return (await this.listAllIds()).length;
+    }
+    return (await this.scan(filters)).length;
+  }
+  
+  /**
+   * Load every record and filter in memory - Vectorize has no metadata-only query,
+   * so this is what list, listAll, count and delete-by-filter are built on
+   */
+  private async scan(filters?: VectorMetadataFilters): Promise<VectorRecord[]> {
+    const ids = await this.listAllIds();
+    const records = await this.getByIds(ids);
+    return records.filter(record => matchesFilters(record.metadata, filters));
+  }
+  
+  private async getByIds(ids: string[]): Promise<VectorRecord[]> {
+    const records: VectorRecord[] = [];
+    
+    for (let i = 0; i < ids.length; i += VECTORIZE_ID_BATCH_SIZE) {
+      const response = await this.store.client.vectorize.indexes.getByIds(this.indexName, {
+        account_id: this.accountId,
+        ids: ids.slice(i, i + VECTORIZE_ID_BATCH_SIZE)
+      });
+      
+      const batch = (response ?? []) as Array<{ id: string; values: number[]; metadata: VectorMetadata }>;
+      records.push(...batch.map(vector => ({
+        id: vector.id,
+        values: vector.values,
+        metadata: vector.metadata
+      })));
+    }
+    
+    return records;
+  }
+  
+  private async listAllIds(): Promise<string[]> {
+    const ids: string[] = [];
+    let cursor: string | null = null;
+    
+    do {
+      const url = new URL(
+        `https://api.cloudflare.com/client/v4/accounts/${this.accountId}/vectorize/v2/indexes/${this.indexName}/list`
+      );
+      url.searchParams.set('count', '1000');
+      if (cursor) url.searchParams.set('cursor', cursor);
+      
+      const response = await fetch(url, {
+        headers: { Authorization: `Bearer ${this.apiToken}` }
+      });
+      const body = (await response.json()) as VectorizeListVectorsResponse;
+      
+      if (!response.ok || !body.success) {
+        throw new Error(
+          `Failed to list vectors in index "${this.indexName}": ${body.errors?.map(e => e.message).join(', ') || response.statusText}`
+        );
+      }
+      
+      ids.push(...body.result.vectors.map(vector => vector.id));
+      cursor = body.result.isTruncated ? body.result.nextCursor : null;
+    } while (cursor);
+    
+    return ids;
+  }
+  
   private async ensureIndexExists(dimension: number): Promise<void> {
     try {
       // Try to create index (will fail silently if it already exists)
@@ -107,7 +277,7 @@ export class CloudflareVectorizeProvider implements VectorStorageProvider {
     }
   }
   
-  private buildCloudflareFilter(filters?: Record<string, any>): Record<string, any> | undefined {
+  private buildCloudflareFilter(filters?: VectorMetadataFilters): Record<string, any> | undefined {
     if (!filters) return undefined;
     
     const cloudflareFilter: Record<string, any> = {};
@@ -133,6 +303,31 @@ export class CloudflareVectorizeProvider implements VectorStorageProvider {
       }
     }
     
+    if (filters.currency) {
+      cloudflareFilter.currency = { $eq: filters.currency };
+    }
+    
+    // String range operators work on the ISO transactionDate
+    if (filters.fromDate) {
+      cloudflareFilter.transactionDate = { $gte: filters.fromDate };
+    }
+    
+    if (filters.toDate) {
+      cloudflareFilter.transactionDate = { ...cloudflareFilter.transactionDate, $lte: filters.toDate };
+    }
+    
+    if (filters.cardLastFour) {
+      cloudflareFilter.cardLastFour = { $eq: filters.cardLastFour };
+    }
+    
+    if (filters.bankAccountNumber) {
+      cloudflareFilter.bankAccountNumber = { $eq: filters.bankAccountNumber };
+    }
+    
+    if (filters.memberId) {
+      cloudflareFilter.memberId = { $eq: filters.memberId };
+    }
+    
     return Object.keys(cloudflareFilter).length > 0 ? cloudflareFilter : undefined;
   }
 } 
\ No newline at end of file
@@ -1,16 +1,35 @@
-// Vector Storage Provider Factory - Cloudflare Vectorize Only
+// Vector Storage Provider Factory - selects the provider from VECTOR_STORAGE_MODE
 
 import { VectorStorageProvider } from './base';
 import { CloudflareVectorizeProvider } from './cloudflare';
+import { LocalFileVectorProvider } from './local';
+import { LedgerSyncedVectorProvider } from './ledger-synced';
+import { getTransactionLedger } from '../ledger';
 import { ENV } from '../../../config/environment';
 
+// One local provider per process so every tool shares the same in-memory view of the file
+let localProvider: LocalFileVectorProvider | null = null;
+
 /**
- * Create Cloudflare Vectorize provider - the only supported provider
+ * Create the vector storage provider configured by VECTOR_STORAGE_MODE. Writes go to the transaction ledger first.
  */
 export function createVectorStorageProvider(): VectorStorageProvider {
-  console.log('🏗️  Creating Cloudflare Vectorize provider...');
+  return new LedgerSyncedVectorProvider(createVectorIndexProvider(), getTransactionLedger());
+}
+
+/**
+ * The vector index alone, without the ledger; used to rebuild the index from the ledger
+ */
+export function createVectorIndexProvider(): VectorStorageProvider {
+  console.log(`🏗️  Creating vector storage provider (mode: ${ENV.vectorStorageMode})...`);
   console.log(`Environment: ${ENV.isProduction ? 'production' : 'development'}`);
-  
+
+  if (ENV.vectorStorageMode === 'local') {
+    console.log(`💾 Using local file vector provider (${ENV.localVectorStoragePath})`);
+    localProvider ??= new LocalFileVectorProvider(ENV.localVectorStoragePath);
+    return localProvider;
+  }
+
   // Validate Cloudflare credentials
   if (!ENV.cloudflareAccountId || !ENV.cloudflareApiToken) {
     throw new Error(
@@ -18,34 +37,49 @@ export function createVectorStorageProvider(): VectorStorageProvider {
       'See ENVIRONMENT-SETUP.md for configuration instructions.'
     );
   }
-  
+
   console.log('☁️ Using Cloudflare Vectorize provider');
   return new CloudflareVectorizeProvider(ENV.cloudflareAccountId, ENV.cloudflareApiToken);
 }
 
 /**
- * Get information about the Cloudflare provider
+ * Get information about the active vector storage provider
  */
 export function getProviderInfo(): {
+  mode: string;
   current: { name: string; available: boolean; reason: string };
   recommendation: string;
 } {
-  const cloudflareProvider = ENV.cloudflareAccountId && ENV.cloudflareApiToken 
+  if (ENV.vectorStorageMode === 'local') {
+    return {
+      mode: ENV.vectorStorageMode,
+      current: {
+        name: 'LocalFile',
+        available: true,
+        reason: `Local file-backed store at ${ENV.localVectorStoragePath}`
+      },
+      recommendation: 'Using the local vector store; set VECTOR_STORAGE_MODE=cloudflare to use Cloudflare Vectorize'
+    };
+  }
+
+  const cloudflareProvider = ENV.cloudflareAccountId && ENV.cloudflareApiToken
     ? new CloudflareVectorizeProvider(ENV.cloudflareAccountId, ENV.cloudflareApiToken)
     : null;
-  
+
   if (!cloudflareProvider) {
     return {
+      mode: ENV.vectorStorageMode,
       current: {
         name: 'None',
         available: false,
         reason: 'Cloudflare credentials not configured'
       },
-      recommendation: 'Configure CF_ACCOUNT_ID and CF_API_TOKEN environment variables'
+      recommendation: 'Configure CF_ACCOUNT_ID and CF_API_TOKEN environment variables, or set VECTOR_STORAGE_MODE=local'
     };
   }
-  
+
   return {
+    mode: ENV.vectorStorageMode,
     current: {
       name: cloudflareProvider.name,
       available: cloudflareProvider.isAvailable(),
@@ -55,4 +89,4 @@ export function getProviderInfo(): {
     },
     recommendation: `Using Cloudflare Vectorize for ${ENV.isProduction ? 'production' : 'development'}`
   };
-} 
\ No newline at end of file
+}
@@ -0,0 +1,77 @@
+// Shared in-memory metadata filtering for providers that scan records themselves
+
+import { VectorMetadata, VectorMetadataFilters } from './base';
+
+/**
+ * Apply the same metadata filters the Cloudflare provider translates into Vectorize filters
+ */
+export const matchesFilters = (metadata: VectorMetadata, filters?: VectorMetadataFilters): boolean => {
+  if (!filters) return true;
+
+  if (filters.transactionType && metadata.transactionType !== filters.transactionType) {
+    return false;
+  }
+
+  if (filters.category && metadata.category !== filters.category) {
+    return false;
+  }
+
+  // Amount ranges are in ILS - records kept in their original currency (no exchange rate) never match one
+  if (hasAmountRange(filters) && metadata.amountSource === 'original') {
+    return false;
+  }
+
+  if (filters.minAmount !== undefined && metadata.amount < filters.minAmount) {
+    return false;
+  }
+
+  if (filters.maxAmount !== undefined && metadata.amount > filters.maxAmount) {
+    return false;
+  }
+
+  // Records stored before currencies were parsed are all ILS
+  if (filters.currency && (metadata.currency ?? 'ILS') !== filters.currency) {
+    return false;
+  }
+
+  // ISO dates compare correctly as strings; undated records never match a date range
+  if (filters.fromDate && (!metadata.transactionDate || metadata.transactionDate < filters.fromDate)) {
+    return false;
+  }
+
+  if (filters.toDate && (!metadata.transactionDate || metadata.transactionDate > filters.toDate)) {
+    return false;
+  }
+
+  if (filters.cardLastFour && metadata.cardLastFour !== filters.cardLastFour) {
+    return false;
+  }
+
+  if (filters.bankAccountNumber && metadata.bankAccountNumber !== filters.bankAccountNumber) {
+    return false;
+  }
+
+  // Records stored before the household registry have no member
+  if (filters.memberId && (metadata.memberId ?? null) !== filters.memberId) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Whether the filters bound the ILS amount
+ */
+export const hasAmountRange = (filters?: VectorMetadataFilters): boolean =>
+  filters?.minAmount !== undefined || filters?.maxAmount !== undefined;
+
+/**
+ * Sort records newest first so paginated listings are stable and useful
+ */
+export const byCreatedAtDesc = (
+  a: { id: string; metadata: VectorMetadata },
+  b: { id: string; metadata: VectorMetadata }
+): number => {
+  const diff = (b.metadata.createdAt ?? '').localeCompare(a.metadata.createdAt ?? '');
+  return diff !== 0 ? diff : a.id.localeCompare(b.id);
+};
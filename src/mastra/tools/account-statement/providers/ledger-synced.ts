@@ -0,0 +1,77 @@
+// Ledger-synced provider: writes every change to the transaction ledger before the vector index
+
+import {
+  VectorStorageProvider,
+  VectorRecord,
+  VectorSearchResult,
+  VectorSearchOptions,
+  VectorMetadata,
+  VectorMetadataFilters,
+  VectorListOptions,
+  VectorListResult,
+  VectorDeleteTarget
+} from './base';
+import { TransactionLedger } from '../ledger';
+
+/**
+ * Wraps the vector provider so the ledger stays the source of truth: inserts, metadata updates and deletes go to
+ * the ledger first and only then to the index. Reads are served by the index.
+ */
+export class LedgerSyncedVectorProvider implements VectorStorageProvider {
+  name: string;
+  private index: VectorStorageProvider;
+  private ledger: TransactionLedger;
+
+  constructor(index: VectorStorageProvider, ledger: TransactionLedger) {
+    this.index = index;
+    this.ledger = ledger;
+    this.name = index.name;
+  }
+
+  isAvailable(): boolean {
+    return this.index.isAvailable();
+  }
+
+  async insert(vectors: VectorRecord[]): Promise<{ mutationId: string }> {
+    await this.ledger.upsertTransactions(vectors);
+    return this.index.insert(vectors);
+  }
+
+  search(queryVector: number[], options?: VectorSearchOptions): Promise<VectorSearchResult[]> {
+    return this.index.search(queryVector, options);
+  }
+
+  getById(id: string): Promise<VectorRecord | null> {
+    return this.index.getById(id);
+  }
+
+  async updateMetadata(id: string, metadata: Partial<VectorMetadata>): Promise<VectorRecord | null> {
+    const recorded = await this.ledger.updateTransaction(id, metadata);
+    const record = await this.index.updateMetadata(id, metadata);
+
+    // Transactions stored before the ledger existed are recorded the first time they change
+    if (!recorded && record) {
+      await this.ledger.upsertTransactions([record]);
+    }
+    return record;
+  }
+
+  async delete(target: VectorDeleteTarget): Promise<{ deletedIds: string[] }> {
+    const ids = 'ids' in target ? target.ids : (await this.index.listAll(target.filters)).map(record => record.id);
+
+    await this.ledger.deleteTransactions(ids);
+    return this.index.delete({ ids });
+  }
+
+  list(options?: VectorListOptions): Promise<VectorListResult> {
+    return this.index.list(options);
+  }
+
+  listAll(filters?: VectorMetadataFilters): Promise<VectorRecord[]> {
+    return this.index.listAll(filters);
+  }
+
+  count(filters?: VectorMetadataFilters): Promise<number> {
+    return this.index.count(filters);
+  }
+}
@@ -0,0 +1,229 @@
+// Local file-backed Vector Provider for development and CI (no Cloudflare account needed)
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  VectorStorageProvider,
+  VectorRecord,
+  VectorSearchResult,
+  VectorSearchOptions,
+  VectorMetadata,
+  VectorMetadataFilters,
+  VectorListOptions,
+  VectorListResult,
+  VectorDeleteTarget
+} from './base';
+import { matchesFilters, byCreatedAtDesc } from './filters';
+
+interface LocalVectorFile {
+  version: 1;
+  vectors: VectorRecord[];
+}
+
+export class LocalFileVectorProvider implements VectorStorageProvider {
+  name = 'LocalFile';
+  private filePath: string;
+  private vectors: Map<string, VectorRecord> | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = 'data/vectors.json') {
+    this.filePath = path.resolve(filePath);
+  }
+
+  isAvailable(): boolean {
+    // The local store only needs a writable file system
+    return true;
+  }
+
+  async insert(vectors: VectorRecord[]): Promise<{ mutationId: string }> {
+    console.log(`📦 [${this.name}] Inserting ${vectors.length} vectors into "${this.filePath}"`);
+
+    try {
+      await this.mutate(store => {
+        // Same ID replaces the existing record, matching Vectorize upsert semantics
+        for (const vector of vectors) {
+          store.set(vector.id, vector);
+        }
+      });
+
+      const mutationId = `local_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      console.log(`✅ [${this.name}] Successfully inserted ${vectors.length} vectors`);
+
+      return { mutationId };
+    } catch (error) {
+      console.error(`❌ [${this.name}] Error inserting vectors:`, error);
+      throw error;
+    }
+  }
+
+  async search(
+    queryVector: number[],
+    options: VectorSearchOptions = {}
+  ): Promise<VectorSearchResult[]> {
+    const { topK = 5, filters } = options;
+
+    console.log(`🔍 [${this.name}] Searching "${this.filePath}" with ${queryVector.length} dimensions...`);
+
+    try {
+      const store = await this.load();
+
+      const searchResults: VectorSearchResult[] = Array.from(store.values())
+        .filter(record => matchesFilters(record.metadata, filters))
+        .map(record => ({
+          id: record.id,
+          score: cosineSimilarity(queryVector, record.values),
+          metadata: record.metadata
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+
+      console.log(`📊 [${this.name}] Found ${searchResults.length} results`);
+
+      return searchResults;
+    } catch (error) {
+      console.error(`❌ [${this.name}] Error searching vectors:`, error);
+      throw error;
+    }
+  }
+
+  async getById(id: string): Promise<VectorRecord | null> {
+    const store = await this.load();
+    return store.get(id) ?? null;
+  }
+
+  async updateMetadata(
+    id: string,
+    metadata: Partial<VectorMetadata>
+  ): Promise<VectorRecord | null> {
+    console.log(`✏️ [${this.name}] Updating metadata of vector "${id}"`);
+
+    return this.mutate(store => {
+      const existing = store.get(id);
+      if (!existing) return null;
+
+      const updated: VectorRecord = {
+        ...existing,
+        metadata: { ...existing.metadata, ...metadata } as VectorMetadata
+      };
+      store.set(id, updated);
+      return updated;
+    });
+  }
+
+  async delete(target: VectorDeleteTarget): Promise<{ deletedIds: string[] }> {
+    console.log(`🗑️ [${this.name}] Deleting vectors from "${this.filePath}"`);
+
+    const deletedIds = await this.mutate(store => {
+      const ids = 'ids' in target
+        ? target.ids.filter(id => store.has(id))
+        : Array.from(store.values())
+            .filter(record => matchesFilters(record.metadata, target.filters))
+            .map(record => record.id);
+
+      ids.forEach(id => store.delete(id));
+      return ids;
+    });
+
+    console.log(`✅ [${this.name}] Deleted ${deletedIds.length} vectors`);
+
+    return { deletedIds };
+  }
+
+  async list(options: VectorListOptions = {}): Promise<VectorListResult> {
+    const { limit = 20, offset = 0, filters } = options;
+    const store = await this.load();
+
+    const matching = Array.from(store.values())
+      .filter(record => matchesFilters(record.metadata, filters))
+      .sort(byCreatedAtDesc);
+
+    const records = matching
+      .slice(offset, offset + limit)
+      .map(record => ({ id: record.id, metadata: record.metadata }));
+
+    return {
+      records,
+      total: matching.length,
+      nextOffset: offset + limit < matching.length ? offset + limit : null
+    };
+  }
+
+  async listAll(filters?: VectorMetadataFilters): Promise<VectorRecord[]> {
+    const store = await this.load();
+    return Array.from(store.values())
+      .filter(record => matchesFilters(record.metadata, filters))
+      .sort(byCreatedAtDesc);
+  }
+
+  async count(filters?: VectorMetadataFilters): Promise<number> {
+    const store = await this.load();
+    return Array.from(store.values())
+      .filter(record => matchesFilters(record.metadata, filters))
+      .length;
+  }
+
+  /**
+   * Serialize read-modify-write cycles so concurrent tool calls never lose updates
+   */
+  private mutate<T>(change: (store: Map<string, VectorRecord>) => T): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      const result = change(await this.load());
+      await this.persist();
+      return result;
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<Map<string, VectorRecord>> {
+    if (this.vectors) return this.vectors;
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      const data = JSON.parse(raw) as LocalVectorFile;
+      this.vectors = new Map(data.vectors.map(vector => [vector.id, vector]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      // First run: start with an empty store, the file is created on the first insert
+      this.vectors = new Map();
+    }
+
+    return this.vectors;
+  }
+
+  private async persist(): Promise<void> {
+    const data: LocalVectorFile = {
+      version: 1,
+      vectors: Array.from(this.vectors?.values() ?? [])
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write to a temp file first so an interrupted write never corrupts the store
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Cosine similarity between two vectors (0 when either vector is empty or zero)
+ */
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
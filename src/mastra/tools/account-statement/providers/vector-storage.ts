@@ -1,4 +1,4 @@
-// Vector Storage Provider Exports - Cloudflare Only
+// Vector Storage Provider Exports
 
 // Base interfaces and types
 export type {
@@ -6,11 +6,21 @@ export type {
   VectorRecord,
   VectorSearchResult,
   VectorSearchOptions,
-  VectorMetadata
+  VectorMetadata,
+  VectorMetadataFilters,
+  VectorListOptions,
+  VectorListResult,
+  VectorDeleteTarget
 } from './base';
 
 // Cloudflare Vectorize provider
 export { CloudflareVectorizeProvider } from './cloudflare';
 
+// Local file-backed provider (VECTOR_STORAGE_MODE=local)
+export { LocalFileVectorProvider } from './local';
+
+// Ledger-first wrapper used by createVectorStorageProvider
+export { LedgerSyncedVectorProvider } from './ledger-synced';
+
 // Factory function
-export { createVectorStorageProvider, getProviderInfo } from './factory'; 
\ No newline at end of file
+export { createVectorStorageProvider, createVectorIndexProvider, getProviderInfo } from './factory'; 
\ No newline at end of file
@@ -0,0 +1,266 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import {
+  ParsedTransactionRow,
+  ParsedTransactionRowSchema,
+  ReconciliationCause,
+  ReconciliationReport,
+  ReconciliationReportSchema,
+  ReconciliationRowRef,
+  SkippedStatementRowSchema
+} from './types';
+import { SkippedStatementRow, parseAmount, parseDate } from './parsers';
+import { resolveIlsAmount } from './exchange-rates';
+
+// Rounding differences across many rows stay well below one shekel
+const DEFAULT_TOLERANCE = 1;
+
+// Small unexplained gaps are typical of card, FX and late-payment fees
+const FEE_DIFFERENCE_RATIO = 0.02;
+const FEE_DIFFERENCE_MAX = 50;
+
+const FEE_PATTERN = /עמלה|עמלת|דמי כרטיס|דמי ניהול|ריבית|fee|commission/i;
+
+// Skipped rows that were never transactions
+const STRUCTURAL_SKIP_REASONS = ['total row', 'section header'];
+
+export interface ReconcileStatementInput {
+  /** Header total in ILS, as extracted into CreditCardData.totalAmount */
+  totalAmount?: number | null;
+  /** Statement charge date in DD/MM/YYYY, used to spot rows charged on another date */
+  statementDate?: string | null;
+  rows: ParsedTransactionRow[];
+  skippedRows?: SkippedStatementRow[];
+  tolerance?: number;
+}
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const sum = (amounts: number[]): number => round(amounts.reduce((total, amount) => total + amount, 0));
+
+const sourceRow = (row: { sheetName?: string | null; rowNumber: number }): ReconciliationRowRef => ({
+  sheetName: row.sheetName ?? null,
+  rowNumber: row.rowNumber,
+});
+
+const describeRow = (row: { sheetName?: string | null; rowNumber: number }): string =>
+  row.sheetName ? `${row.sheetName} row ${row.rowNumber}` : `row ${row.rowNumber}`;
+
+/**
+ * Compare the statement header total with the sum of its parsed rows and point to likely causes of any gap.
+ * Deterministic - no LLM or vector store involved. Foreign rows without an ILS charge are converted
+ * at the Bank of Israel representative rate of their date when the local rate table has it.
+ */
+export const reconcileStatement = async (input: ReconcileStatementInput): Promise<ReconciliationReport> => {
+  const tolerance = input.tolerance ?? DEFAULT_TOLERANCE;
+  const headerTotal = input.totalAmount ?? null;
+
+  // ILS amount of every row: the statement's own charge, or an estimate from the rate table.
+  // Keyed by the row itself - row numbers repeat across the sheets of a workbook
+  const ilsAmounts = new Map<ParsedTransactionRow, number>();
+  const estimated: ParsedTransactionRow[] = [];
+  for (const row of input.rows) {
+    const ils = await resolveIlsAmount({ ...row, transactionDate: row.date });
+    if (ils.amountSource === 'charged') {
+      ilsAmounts.set(row, ils.amount);
+    } else if (ils.amountSource === 'converted') {
+      ilsAmounts.set(row, ils.amount);
+      estimated.push(row);
+    }
+  }
+
+  const ilsAmount = (row: ParsedTransactionRow): number => ilsAmounts.get(row)!;
+  const converted = input.rows.filter(row => ilsAmounts.has(row));
+  const unconverted = input.rows.filter(row => !ilsAmounts.has(row));
+
+  const amounts = converted.map(ilsAmount);
+  const debitsTotal = sum(amounts.filter(amount => amount > 0));
+  const creditsTotal = sum(amounts.filter(amount => amount < 0));
+  const rowsTotal = round(debitsTotal + creditsTotal);
+
+  const report: ReconciliationReport = {
+    status: 'no_total',
+    headerTotal,
+    rowsTotal,
+    debitsTotal,
+    creditsTotal,
+    difference: null,
+    rowCount: input.rows.length,
+    convertedRowCount: estimated.length,
+    unconvertedRowCount: unconverted.length,
+    likelyCauses: [],
+  };
+
+  if (headerTotal === null) {
+    return report;
+  }
+
+  const difference = round(headerTotal - rowsTotal);
+  report.difference = difference;
+
+  if (Math.abs(difference) <= tolerance) {
+    report.status = 'balanced';
+    return report;
+  }
+
+  report.status = 'mismatch';
+
+  const explains = (amount: number | null): boolean =>
+    amount !== null && Math.abs(Math.abs(amount) - Math.abs(difference)) <= tolerance;
+
+  const causes: ReconciliationCause[] = [];
+  const addCause = (cause: Omit<ReconciliationCause, 'matchesDifference'>) => {
+    causes.push({ ...cause, matchesDifference: explains(cause.amount) });
+  };
+
+  // Foreign-currency rows: missing from the sum, or converted at a different rate
+  if (unconverted.length > 0) {
+    const byCurrency = unconverted.reduce<Record<string, number>>((totals, row) => {
+      totals[row.currency] = round((totals[row.currency] ?? 0) + row.originalAmount);
+      return totals;
+    }, {});
+
+    addCause({
+      type: 'foreign_currency',
+      description: `${unconverted.length} foreign-currency row(s) have no ILS charged amount and no exchange rate, so they are not in the sum (${Object.entries(byCurrency).map(([currency, amount]) => `${amount} ${currency}`).join(', ')})`,
+      amount: null,
+      rows: unconverted.map(sourceRow),
+    });
+  }
+
+  if (estimated.length > 0) {
+    addCause({
+      type: 'foreign_currency',
+      description: `${estimated.length} foreign-currency row(s) were converted at Bank of Israel representative rates (${sum(estimated.map(ilsAmount))} ILS) - the issuer's own rate and conversion fee usually differ by a few percent`,
+      amount: null,
+      rows: estimated.map(sourceRow),
+    });
+  }
+
+  const foreignConverted = converted.filter(row => row.currency !== 'ILS' && row.chargedAmount !== null);
+  const foreignTotal = sum(foreignConverted.map(ilsAmount));
+  if (foreignConverted.length > 0 && Math.abs(difference) <= Math.abs(foreignTotal) * 0.05) {
+    addCause({
+      type: 'foreign_currency',
+      description: `The difference is within 5% of the ${foreignConverted.length} foreign-currency row(s) (${foreignTotal} ILS) - the statement may use a different conversion rate or add a conversion fee`,
+      amount: null,
+      rows: foreignConverted.map(sourceRow),
+    });
+  }
+
+  // Rows the parser skipped although they carry an amount
+  if (difference > 0) {
+    const missed = (input.skippedRows ?? [])
+      .filter(row => !STRUCTURAL_SKIP_REASONS.includes(row.reason))
+      .map(row => ({ row, amount: lastAmount(row.text) }))
+      .filter((candidate): candidate is { row: SkippedStatementRow; amount: number } => candidate.amount !== null);
+
+    if (missed.length > 0) {
+      const exact = missed.filter(candidate => explains(candidate.amount));
+      const involved = exact.length > 0 ? exact.slice(0, 1) : missed;
+
+      addCause({
+        type: 'missed_rows',
+        description: `${involved.length} skipped row(s) carry an amount and may be transactions the parser dropped: ${involved.map(candidate => `${describeRow(candidate.row)} (${candidate.row.reason})`).join(', ')}`,
+        amount: sum(involved.map(candidate => candidate.amount)),
+        rows: involved.map(candidate => sourceRow(candidate.row)),
+      });
+    }
+  }
+
+  // Identical rows: legitimate repeat charges, or an export that lists a transaction twice
+  if (difference < 0) {
+    const groups = new Map<string, ParsedTransactionRow[]>();
+    for (const row of converted) {
+      const key = `${row.date}|${row.merchant}|${row.chargedAmount}`;
+      groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+
+    const repeated = [...groups.values()].filter(group => group.length > 1);
+    if (repeated.length > 0) {
+      const extraCopies = repeated.flatMap(group => group.slice(1));
+      addCause({
+        type: 'duplicates',
+        description: `${repeated.length} transaction(s) appear more than once with the same date, merchant and amount: ${repeated.map(group => `${group[0].merchant} x${group.length}`).join(', ')}`,
+        amount: sum(extraCopies.map(row => ilsAmount(row))),
+        rows: repeated.flatMap(group => group.map(sourceRow)),
+      });
+    }
+  }
+
+  // Refunds credited outside this statement's total
+  if (creditsTotal < 0 && explains(creditsTotal)) {
+    const credits = converted.filter(row => ilsAmount(row) < 0);
+    addCause({
+      type: 'refunds',
+      description: `The difference equals the refunds and credits (${creditsTotal} ILS) - the header total may not net them out, or they are credited on another statement`,
+      amount: creditsTotal,
+      rows: credits.map(sourceRow),
+    });
+  }
+
+  // Rows charged on another date (deferred charges, installments) are often outside the total
+  const statementDate = input.statementDate ? parseDate(input.statementDate) : null;
+  if (statementDate) {
+    const otherDate = converted.filter(row => row.chargeDate !== null && row.chargeDate !== statementDate);
+    if (otherDate.length > 0) {
+      addCause({
+        type: 'charge_date',
+        description: `${otherDate.length} row(s) are charged on a date other than the statement date ${input.statementDate} and may belong to another statement's total`,
+        amount: sum(otherDate.map(row => ilsAmount(row))),
+        rows: otherDate.map(sourceRow),
+      });
+    }
+  }
+
+  // Fees: listed as rows, or charged on top of the rows without being listed
+  const feeRows = input.rows.filter(row => FEE_PATTERN.test(`${row.merchant} ${row.notes ?? ''}`));
+  if (feeRows.length > 0) {
+    addCause({
+      type: 'fees',
+      description: `${feeRows.length} fee or interest row(s) found - check whether the header total includes them`,
+      amount: sum(feeRows.map(row => row.chargedAmount ?? 0)),
+      rows: feeRows.map(sourceRow),
+    });
+  } else if (difference > 0 && difference <= Math.max(FEE_DIFFERENCE_MAX, headerTotal * FEE_DIFFERENCE_RATIO)) {
+    addCause({
+      type: 'fees',
+      description: `A small positive difference of ${difference} ILS is typical of card, conversion or late-payment fees that the statement charges without listing them as rows`,
+      amount: difference,
+      rows: [],
+    });
+  }
+
+  report.likelyCauses = causes.sort((a, b) => Number(b.matchesDifference) - Number(a.matchesDifference));
+
+  return report;
+};
+
+/**
+ * Last monetary value in a row's text (the charged amount is usually the last column)
+ */
+const lastAmount = (text: string): number | null => {
+  const amounts = text
+    .split(' ')
+    .filter(token => /\d/.test(token) && !parseDate(token))
+    .map(token => parseAmount(token))
+    .filter((amount): amount is number => amount !== null && amount !== 0);
+
+  return amounts.length > 0 ? amounts[amounts.length - 1] : null;
+};
+
+export const statementReconciliationTool = createTool({
+  id: 'reconcile-statement',
+  description: 'Reconcile a statement: compare the header total with the sum of the parsed rows (refunds and credits netted out) and point to likely causes of any difference - missed rows, duplicates, foreign-currency conversion, fees, refunds or rows charged on another date',
+  inputSchema: z.object({
+    totalAmount: z.number().nullable().optional().describe('Statement total in ILS from the header (CreditCardData.totalAmount)'),
+    statementDate: z.string().regex(/^\d{2}\/\d{2}\/\d{4}$/).nullable().optional().describe('Statement charge date in DD/MM/YYYY'),
+    rows: z.array(ParsedTransactionRowSchema).describe('Parsed transaction rows from parse-statement or import-excel-statement'),
+    skippedRows: z.array(SkippedStatementRowSchema).optional().describe('Rows the parser skipped, to look for missed transactions'),
+    tolerance: z.number().min(0).default(DEFAULT_TOLERANCE).describe('Difference in ILS still considered balanced'),
+  }),
+  outputSchema: ReconciliationReportSchema,
+  execute: async ({ context }) => {
+    return await reconcileStatement(context);
+  },
+});
@@ -0,0 +1,290 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { createVectorStorageProvider } from './providers/factory';
+import { VectorMetadata, VectorMetadataFilters, VectorRecord, VectorStorageProvider } from './providers/base';
+import { merchantSimilarity } from './transaction-identity';
+import { listAllTransactions } from './stored-transactions';
+import { hasIlsAmount } from './exchange-rates';
+import { RefundMatch, RefundMatchingReport, RefundMatchingReportSchema, UnmatchedRefund } from './types';
+
+// Card refunds usually arrive within weeks, chargebacks can take a few months
+const REFUND_WINDOW_DAYS = 120;
+const AMOUNT_TOLERANCE = 0.01;
+const MATCH_THRESHOLD = 0.6;
+const PARTIAL_REFUND_SCORE = 0.6;
+const SEARCH_TOP_K = 20;
+
+// Without a merchant match, only a near-identical summary is enough evidence
+const MIN_MERCHANT_SIMILARITY = 0.3;
+const STRONG_VECTOR_SIMILARITY = 0.85;
+
+const SIGNAL_WEIGHTS = { merchant: 0.4, amount: 0.3, time: 0.15, vector: 0.15 };
+
+// Words that mark a credit as a refund and are not part of the merchant name
+const REFUND_WORDS = /זיכוי|החזר[הי]?|ביטול(?:\s*עסקה)?|refund|chargeback|reversal/iu;
+
+interface StoredTransaction {
+  id: string;
+  metadata: VectorMetadata;
+}
+
+interface ScoredCandidate {
+  purchase: StoredTransaction;
+  matchType: 'full' | 'partial';
+  score: number;
+  signals: RefundMatch['signals'];
+}
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const shiftDate = (isoDate: string, days: number): string => {
+  return new Date(Date.parse(isoDate) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+};
+
+const daysBetween = (from: string, to: string): number => {
+  return (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+};
+
+/**
+ * Card credits are refunds; bank-account credits only when the text says so (salaries and transfers are not)
+ */
+const isRefund = (metadata: VectorMetadata): boolean => {
+  if (metadata.amount >= 0) return false;
+  return Boolean(metadata.cardLastFour) || REFUND_WORDS.test(metadata.originalText);
+};
+
+const refundMerchantKey = (metadata: VectorMetadata): string => {
+  return (metadata.merchantKey ?? '')
+    .replace(new RegExp(REFUND_WORDS.source, 'giu'), ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * ILS amount a transaction adds to spending figures: purchases count net of their linked refunds,
+ * and linked refunds count nothing since they are already netted on the purchase. Foreign amounts
+ * without an exchange rate count nothing either; the reports list them instead.
+ */
+export const netSpendingAmount = (metadata: VectorMetadata): number => {
+  if (metadata.refundOf || !hasIlsAmount(metadata)) return 0;
+  return round(metadata.amount - (metadata.refundedAmount ?? 0));
+};
+
+/**
+ * Amount signal: 1 for a refund of the whole purchase, lower for a partial one, null when the refund is larger
+ * than what is left to refund. Same-currency foreign amounts are compared in their currency, since refunds
+ * are converted at a later rate than the purchase.
+ */
+const scoreAmount = (refund: VectorMetadata, purchase: VectorMetadata, refundedSoFar: number): number | null => {
+  const foreign = refund.currency && refund.currency !== 'ILS' && refund.currency === purchase.currency;
+  const refunded = Math.abs(foreign ? refund.originalAmount : refund.amount);
+  const purchased = foreign ? purchase.originalAmount : purchase.amount;
+  const available = purchased * (1 - refundedSoFar / purchase.amount);
+
+  if (refunded > available + AMOUNT_TOLERANCE) return null;
+  if (Math.abs(refunded - purchased) <= AMOUNT_TOLERANCE) return 1;
+  return PARTIAL_REFUND_SCORE;
+};
+
+/**
+ * Score every stored purchase that could be the origin of the refund and return the best one
+ */
+const findOriginalPurchase = async (
+  refund: VectorRecord,
+  vectorProvider: VectorStorageProvider,
+  refundedSoFar: Map<string, number>
+): Promise<{ best: ScoredCandidate | null; candidateCount: number }> => {
+  const metadata = refund.metadata;
+  const refundDate = metadata.transactionDate;
+  const foreign = metadata.currency && metadata.currency !== 'ILS';
+
+  // Purchases before the refund, within the window, at least as large as the refund
+  const filters: VectorMetadataFilters = {
+    ...(refundDate ? { fromDate: shiftDate(refundDate, -REFUND_WINDOW_DAYS), toDate: refundDate } : {}),
+    ...(foreign ? { currency: metadata.currency } : { minAmount: Math.abs(metadata.amount) - AMOUNT_TOLERANCE }),
+  };
+
+  const candidates = (await listAllTransactions(vectorProvider, filters))
+    .filter(candidate => candidate.id !== refund.id && candidate.metadata.amount > 0)
+    .filter(candidate => !metadata.cardLastFour || !candidate.metadata.cardLastFour
+      || candidate.metadata.cardLastFour === metadata.cardLastFour);
+
+  if (candidates.length === 0) {
+    return { best: null, candidateCount: 0 };
+  }
+
+  // Vector similarity of the summaries through the provider's own search
+  const vectorScores = new Map<string, number>();
+  if (refund.values.length > 0) {
+    const results = await vectorProvider.search(refund.values, { topK: SEARCH_TOP_K, filters });
+    results.forEach(result => vectorScores.set(result.id, Math.max(0, result.score)));
+  }
+
+  const merchantKey = refundMerchantKey(metadata);
+  let best: ScoredCandidate | null = null;
+
+  for (const purchase of candidates) {
+    const amount = scoreAmount(metadata, purchase.metadata, refundedSoFar.get(purchase.id) ?? purchase.metadata.refundedAmount ?? 0);
+    if (amount === null) continue;
+
+    const merchant = merchantSimilarity(merchantKey, purchase.metadata.merchantKey ?? '');
+    const vector = vectorScores.get(purchase.id) ?? 0;
+    if (merchant < MIN_MERCHANT_SIMILARITY && vector < STRONG_VECTOR_SIMILARITY) continue;
+
+    const time = refundDate && purchase.metadata.transactionDate
+      ? Math.max(0, 1 - daysBetween(purchase.metadata.transactionDate, refundDate) / REFUND_WINDOW_DAYS)
+      : 0.5;
+
+    const score = round(
+      merchant * SIGNAL_WEIGHTS.merchant
+      + amount * SIGNAL_WEIGHTS.amount
+      + time * SIGNAL_WEIGHTS.time
+      + vector * SIGNAL_WEIGHTS.vector
+    );
+
+    if (!best || score > best.score) {
+      best = {
+        purchase,
+        matchType: amount === 1 ? 'full' : 'partial',
+        score,
+        signals: { merchant: round(merchant), amount, time: round(time), vector: round(vector) },
+      };
+    }
+  }
+
+  return { best, candidateCount: candidates.length };
+};
+
+/**
+ * Link refunds and chargebacks to the purchases they reverse. The refund stores the purchase ID (`refundOf`),
+ * the purchase accumulates `refundedAmount`, so spending figures can net the two. Refunds without a likely
+ * purchase are marked unmatched and returned for review; they are retried on the next run.
+ */
+export const matchRefunds = async (options: {
+  refundIds?: string[];
+  fromDate?: string;
+  toDate?: string;
+  rematch?: boolean;
+} = {}): Promise<RefundMatchingReport> => {
+  const vectorProvider = createVectorStorageProvider();
+
+  const refunds = options.refundIds
+    ? (await Promise.all(options.refundIds.map(id => vectorProvider.getById(id))))
+        .filter((record): record is VectorRecord => record !== null)
+    : await Promise.all(
+        // Credits are negative in any currency - an amount filter would leave out foreign refunds without a rate
+        (await listAllTransactions(vectorProvider, { fromDate: options.fromDate, toDate: options.toDate }))
+          .filter(record => record.metadata.amount <= -AMOUNT_TOLERANCE)
+          .map(async record => (await vectorProvider.getById(record.id))!)
+      );
+
+  const report: RefundMatchingReport = { matched: [], unmatched: [], alreadyMatched: 0 };
+  const refundedSoFar = new Map<string, number>();
+
+  // Oldest refunds first, so partial refunds use up their purchase in order
+  const pending = refunds
+    .filter(refund => isRefund(refund.metadata))
+    .sort((a, b) => (a.metadata.transactionDate ?? '').localeCompare(b.metadata.transactionDate ?? ''));
+
+  console.log(`↩️ Matching ${pending.length} refund(s) to their original purchases`);
+
+  for (const refund of pending) {
+    if (refund.metadata.refundOf) {
+      if (!options.rematch) {
+        report.alreadyMatched++;
+        continue;
+      }
+      await unlinkRefund(refund, vectorProvider, refundedSoFar);
+    }
+
+    const refundAmount = round(Math.abs(refund.metadata.amount));
+    const { best, candidateCount } = await findOriginalPurchase(refund, vectorProvider, refundedSoFar);
+    const now = new Date().toISOString();
+
+    if (!best || best.score < MATCH_THRESHOLD) {
+      const unmatched: UnmatchedRefund = {
+        refundId: refund.id,
+        refundText: refund.metadata.originalText,
+        refundAmount,
+        refundDate: refund.metadata.transactionDate ?? null,
+        reason: candidateCount === 0
+          ? `No purchase of at least ${refundAmount} ILS in the ${REFUND_WINDOW_DAYS} days before the refund`
+          : best
+            ? `Best candidate "${best.purchase.metadata.originalText}" scored ${best.score}, below ${MATCH_THRESHOLD}`
+            : `None of the ${candidateCount} purchase(s) in the window is from a similar merchant with enough left to refund`,
+      };
+
+      await vectorProvider.updateMetadata(refund.id, { refundOf: null, refundMatchScore: null, refundStatus: 'unmatched', updatedAt: now });
+      report.unmatched.push(unmatched);
+      continue;
+    }
+
+    const { purchase } = best;
+    const refundedAmount = round((refundedSoFar.get(purchase.id) ?? purchase.metadata.refundedAmount ?? 0) + refundAmount);
+    refundedSoFar.set(purchase.id, refundedAmount);
+
+    await vectorProvider.updateMetadata(refund.id, {
+      refundOf: purchase.id,
+      refundMatchScore: best.score,
+      refundStatus: 'matched',
+      updatedAt: now,
+    });
+    await vectorProvider.updateMetadata(purchase.id, { refundedAmount, updatedAt: now });
+
+    report.matched.push({
+      refundId: refund.id,
+      refundText: refund.metadata.originalText,
+      refundAmount,
+      refundDate: refund.metadata.transactionDate ?? null,
+      purchaseId: purchase.id,
+      purchaseText: purchase.metadata.originalText,
+      purchaseAmount: purchase.metadata.amount,
+      purchaseDate: purchase.metadata.transactionDate ?? null,
+      matchType: best.matchType,
+      score: best.score,
+      signals: best.signals,
+    });
+  }
+
+  if (report.unmatched.length > 0) {
+    console.warn(`⚠️ ${report.unmatched.length} refund(s) could not be linked to a purchase and need review`);
+  }
+
+  return report;
+};
+
+/**
+ * Undo an earlier link before matching a refund again
+ */
+const unlinkRefund = async (
+  refund: VectorRecord,
+  vectorProvider: VectorStorageProvider,
+  refundedSoFar: Map<string, number>
+): Promise<void> => {
+  const purchase = await vectorProvider.getById(refund.metadata.refundOf!);
+  if (!purchase) return;
+
+  const current = refundedSoFar.get(purchase.id) ?? purchase.metadata.refundedAmount ?? 0;
+  const refundedAmount = Math.max(0, round(current - Math.abs(refund.metadata.amount)));
+  refundedSoFar.set(purchase.id, refundedAmount);
+
+  await vectorProvider.updateMetadata(purchase.id, {
+    refundedAmount: refundedAmount > 0 ? refundedAmount : null,
+    updatedAt: new Date().toISOString(),
+  });
+};
+
+export const refundMatchingTool = createTool({
+  id: 'match-refunds',
+  description: 'Link stored refunds and chargebacks to the purchases they reverse (by merchant, full or partial amount, time window and summary similarity) so spending is counted net of refunds; returns the refunds that need review',
+  inputSchema: z.object({
+    refundIds: z.array(z.string()).optional().describe('Vector IDs of the refunds to match; defaults to every stored refund'),
+    fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Only refunds from this date (YYYY-MM-DD, inclusive)'),
+    toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Only refunds up to this date (YYYY-MM-DD, inclusive)'),
+    rematch: z.boolean().default(false).describe('Match refunds that were already linked again'),
+  }),
+  outputSchema: RefundMatchingReportSchema,
+  execute: async ({ context }) => {
+    return await matchRefunds(context);
+  },
+});
@@ -0,0 +1,305 @@
+// Review queue: low-confidence categorizations wait here for approval instead of going straight to the store
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ENV } from '../../config/environment';
+import {
+  CategorySource,
+  ReviewCorrection,
+  ReviewCorrectionSchema,
+  ReviewItem,
+  ReviewItemSchema,
+  ReviewResolution,
+  ReviewResolutionSchema,
+  TransactionCategory,
+  TransactionType
+} from './types';
+import { VectorRecord } from './providers/base';
+import { createVectorStorageProvider } from './providers/factory';
+import { getMerchantRuleStore } from './merchant-rules';
+import { getCategoryTaxonomyStore } from './category-taxonomy';
+
+interface QueuedTransaction {
+  record: VectorRecord;
+  isReimport: boolean;
+  queuedAt: string;
+}
+
+interface ReviewQueueFile {
+  version: 1;
+  items: QueuedTransaction[];
+}
+
+/**
+ * Whether a categorization is unsure enough to need a review. Rules and user corrections are never queued.
+ */
+export const needsReview = (
+  analysis: { categorySource: CategorySource; confidence: number },
+  threshold: number = ENV.reviewConfidenceThreshold
+): boolean => {
+  return (analysis.categorySource === 'llm' || analysis.categorySource === 'knn') && analysis.confidence < threshold;
+};
+
+const toReviewItem = (queued: QueuedTransaction): ReviewItem => {
+  const { metadata } = queued.record;
+
+  return {
+    id: queued.record.id,
+    originalText: metadata.originalText,
+    hebrewSummary: metadata.hebrewSummary,
+    englishSummary: metadata.englishSummary,
+    category: metadata.category,
+    transactionType: metadata.transactionType as TransactionType,
+    categorySource: metadata.categorySource as CategorySource,
+    confidence: metadata.categoryConfidence ?? 0,
+    amount: metadata.amount,
+    transactionDate: metadata.transactionDate,
+    cardLastFour: metadata.cardLastFour,
+    isReimport: queued.isReimport,
+    queuedAt: queued.queuedAt,
+  };
+};
+
+export class ReviewQueueStore {
+  private filePath: string;
+  private items: Map<string, QueuedTransaction> | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = 'data/review-queue.json') {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Pending items, oldest first; only the given IDs when `ids` is passed
+   */
+  async list(ids?: string[]): Promise<ReviewItem[]> {
+    const items = Array.from((await this.load()).values())
+      .filter(queued => !ids || ids.includes(queued.record.id))
+      .sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+
+    return items.map(toReviewItem);
+  }
+
+  async count(): Promise<number> {
+    return (await this.load()).size;
+  }
+
+  /**
+   * Hold analyzed records back for review. Queuing a transaction again replaces its pending record.
+   */
+  async enqueue(entries: Array<{ record: VectorRecord; isReimport: boolean }>): Promise<void> {
+    if (entries.length === 0) return;
+
+    console.log(`🕵️ Queuing ${entries.length} low-confidence transaction(s) for review`);
+
+    await this.mutate(items => {
+      const now = new Date().toISOString();
+      for (const entry of entries) {
+        items.set(entry.record.id, { ...entry, queuedAt: now });
+      }
+    });
+  }
+
+  /**
+   * Remove items from the queue and return them, to be written to the store
+   */
+  async take(ids: string[]): Promise<QueuedTransaction[]> {
+    return this.mutate(items => ids.flatMap(id => {
+      const queued = items.get(id);
+      items.delete(id);
+      return queued ? [queued] : [];
+    }));
+  }
+
+  /**
+   * Put items back after a failed write, so no reviewed transaction is lost
+   */
+  async restore(entries: QueuedTransaction[]): Promise<void> {
+    await this.mutate(items => {
+      for (const entry of entries) {
+        items.set(entry.record.id, entry);
+      }
+    });
+  }
+
+  /**
+   * Move queued transactions of renamed or merged categories to their new category
+   */
+  async recategorize(fromCategories: string[], toCategory: TransactionCategory): Promise<number> {
+    return this.mutate(items => {
+      let moved = 0;
+      for (const queued of items.values()) {
+        if (fromCategories.includes(queued.record.metadata.category)) {
+          queued.record.metadata.category = toCategory;
+          moved++;
+        }
+      }
+      return moved;
+    });
+  }
+
+  private mutate<T>(change: (items: Map<string, QueuedTransaction>) => T): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      const result = change(await this.load());
+      await this.persist();
+      return result;
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<Map<string, QueuedTransaction>> {
+    if (this.items) return this.items;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as ReviewQueueFile;
+      this.items = new Map(data.items.map(queued => [queued.record.id, queued]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      // Nothing has been queued yet
+      this.items = new Map();
+    }
+
+    return this.items;
+  }
+
+  private async persist(): Promise<void> {
+    const data: ReviewQueueFile = {
+      version: 1,
+      items: Array.from(this.items?.values() ?? []),
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+let reviewQueueStore: ReviewQueueStore | null = null;
+
+export const getReviewQueueStore = (): ReviewQueueStore => {
+  reviewQueueStore ??= new ReviewQueueStore(ENV.reviewQueuePath);
+  return reviewQueueStore;
+};
+
+/**
+ * Write reviewed transactions to the store: approved ones as suggested, corrected ones with the user's
+ * category and type. A correction also teaches the merchant rule, as update-transaction does.
+ */
+export const resolveReviews = async (decisions: {
+  approveIds?: string[];
+  corrections?: ReviewCorrection[];
+}): Promise<ReviewResolution> => {
+  const corrections = new Map((decisions.corrections ?? []).map(correction => [correction.id, correction]));
+  const ids = Array.from(new Set([...(decisions.approveIds ?? []), ...corrections.keys()]));
+
+  // Check every corrected category before anything leaves the queue
+  const taxonomy = getCategoryTaxonomyStore();
+  for (const correction of corrections.values()) {
+    if (correction.category) {
+      await taxonomy.assertCategory(correction.category);
+    }
+  }
+
+  const queue = getReviewQueueStore();
+  const reviewed = await queue.take(ids);
+  const reviewedIds = new Set(reviewed.map(queued => queued.record.id));
+  const updatedAt = new Date().toISOString();
+
+  const records: VectorRecord[] = reviewed.map(({ record }) => {
+    const correction = corrections.get(record.id);
+    if (!correction || (!correction.category && !correction.transactionType)) {
+      return record;
+    }
+
+    return {
+      ...record,
+      metadata: {
+        ...record.metadata,
+        category: correction.category ?? record.metadata.category,
+        transactionType: correction.transactionType ?? record.metadata.transactionType,
+        categorySource: 'user',
+        categoryConfidence: 1,
+        merchantRuleId: null,
+        updatedAt,
+      },
+    };
+  });
+
+  if (records.length > 0) {
+    try {
+      await createVectorStorageProvider().insert(records);
+    } catch (error) {
+      await queue.restore(reviewed);
+      throw error;
+    }
+  }
+
+  const correctedIds = records.filter(record => record.metadata.categorySource === 'user').map(record => record.id);
+
+  for (const id of correctedIds) {
+    const record = records.find(candidate => candidate.id === id)!;
+    await getMerchantRuleStore().learnFromCorrection({
+      merchantKey: record.metadata.merchantKey,
+      category: record.metadata.category,
+      transactionType: corrections.get(id)?.transactionType,
+    });
+  }
+
+  const resolution: ReviewResolution = {
+    approvedIds: records.map(record => record.id).filter(id => !correctedIds.includes(id)),
+    correctedIds,
+    notFoundIds: ids.filter(id => !reviewedIds.has(id)),
+    remaining: await queue.count(),
+  };
+
+  console.log(`✅ Reviewed ${records.length} transaction(s): ${resolution.approvedIds.length} approved, ${correctedIds.length} corrected`);
+  return resolution;
+};
+
+export const listPendingReviewsTool = createTool({
+  id: 'list-pending-reviews',
+  description: 'List the transactions whose categorization was below the review confidence threshold and is waiting for approval before being stored, oldest first',
+  inputSchema: z.object({
+    limit: z.number().min(1).max(200).default(50).describe('Maximum number of items to return'),
+  }),
+  outputSchema: z.object({
+    items: z.array(ReviewItemSchema),
+    total: z.number().describe('Number of transactions waiting for review'),
+    threshold: z.number().describe('Confidence below which categorizations are queued'),
+  }),
+  execute: async ({ context }) => {
+    const items = await getReviewQueueStore().list();
+    return { items: items.slice(0, context.limit), total: items.length, threshold: ENV.reviewConfidenceThreshold };
+  },
+});
+
+export const approveReviewsTool = createTool({
+  id: 'approve-reviews',
+  description: 'Approve queued transactions: store them with their suggested category and type',
+  inputSchema: z.object({
+    ids: z.array(z.string()).min(1).describe('IDs of the queued transactions to approve'),
+  }),
+  outputSchema: ReviewResolutionSchema,
+  execute: async ({ context }) => {
+    return await resolveReviews({ approveIds: context.ids });
+  },
+});
+
+export const correctReviewsTool = createTool({
+  id: 'correct-reviews',
+  description: 'Correct the category and/or type of queued transactions in bulk and store them; each correction also saves a merchant rule for the transaction\'s merchant',
+  inputSchema: z.object({
+    corrections: z.array(ReviewCorrectionSchema).min(1),
+  }),
+  outputSchema: ReviewResolutionSchema,
+  execute: async ({ context }) => {
+    return await resolveReviews({ corrections: context.corrections });
+  },
+});
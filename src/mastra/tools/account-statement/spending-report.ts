@@ -0,0 +1,406 @@
+// Monthly spending report: stored transactions aggregated by month, category, type, card, account and member
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { createVectorStorageProvider } from './providers/factory';
+import { VectorMetadata } from './providers/base';
+import { listAllTransactions } from './stored-transactions';
+import { netSpendingAmount } from './refund-matching';
+import { hasIlsAmount, toUnconvertedTransaction } from './exchange-rates';
+import { getCategoryTaxonomyStore } from './category-taxonomy';
+import { getHouseholdRegistryStore } from './household-registry';
+import { CategoryTaxonomy, TransactionType, UnconvertedTransaction, UnconvertedTransactionSchema } from './types';
+
+export type SpendingDimension = 'category' | 'transactionType' | 'card' | 'account' | 'member';
+
+export interface SpendingReportOptions {
+  fromMonth: string;
+  toMonth: string;
+  groupBy?: SpendingDimension[];
+  category?: string;
+  transactionType?: string;
+  cardLastFour?: string;
+  bankAccountNumber?: string;
+  memberId?: string;
+  rollUpSubcategories?: boolean;
+  includeCredits?: boolean;
+}
+
+export interface MonthlySpending {
+  month: string;
+  total: number;
+  count: number;
+  average: number;
+  change: number | null;
+  changePercent: number | null;
+}
+
+export interface SpendingGroup {
+  key: Partial<Record<SpendingDimension, string | null>>;
+  label: { he: string; en: string };
+  total: number;
+  count: number;
+  average: number;
+  monthlyAverage: number;
+  months: MonthlySpending[];
+}
+
+export interface SpendingReport {
+  fromMonth: string;
+  toMonth: string;
+  groupBy: SpendingDimension[];
+  months: MonthlySpending[];
+  groups: SpendingGroup[];
+  total: number;
+  count: number;
+  /** Foreign transactions in range without an exchange rate, left out of the totals */
+  unconverted: UnconvertedTransaction[];
+}
+
+const MAX_MONTHS = 36;
+
+const TYPE_LABELS: Record<TransactionType, { he: string; en: string }> = {
+  regular: { he: 'רגילה', en: 'regular' },
+  monthly: { he: 'חודשית', en: 'monthly' },
+  credit: { he: 'זיכוי', en: 'credit' },
+  installment: { he: 'תשלומים', en: 'installments' },
+};
+
+const DIMENSION_LABELS: Record<SpendingDimension, { he: string; en: string }> = {
+  category: { he: 'קטגוריה', en: 'Category' },
+  transactionType: { he: 'סוג', en: 'Type' },
+  card: { he: 'כרטיס', en: 'Card' },
+  account: { he: 'חשבון', en: 'Account' },
+  member: { he: 'בן משפחה', en: 'Member' },
+};
+
+const NO_VALUE_LABELS: Record<SpendingDimension, { he: string; en: string }> = {
+  category: { he: 'ללא קטגוריה', en: 'no category' },
+  transactionType: { he: 'ללא סוג', en: 'no type' },
+  card: { he: 'ללא כרטיס', en: 'no card' },
+  account: { he: 'ללא חשבון', en: 'no account' },
+  member: { he: 'לא משויך', en: 'unassigned' },
+};
+
+/**
+ * Names the household gave its cards, accounts and members, for the report labels
+ */
+interface HouseholdNames {
+  cards: Map<string, string>;
+  accounts: Map<string, string>;
+  members: Map<string, string>;
+}
+
+const loadHouseholdNames = async (): Promise<HouseholdNames> => {
+  const registry = getHouseholdRegistryStore();
+  const named = <T>(items: T[], key: (item: T) => string, name: (item: T) => string | null): Map<string, string> =>
+    new Map(items.filter(item => name(item)).map(item => [key(item), name(item)!]));
+
+  return {
+    cards: named(await registry.listCards(), card => card.lastFour, card => card.label),
+    accounts: named(await registry.listAccounts(), account => account.accountNumber, account => account.label),
+    members: named(await registry.listMembers(), member => member.id, member => member.name),
+  };
+};
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const addMonths = (month: string, count: number): string => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, monthNumber - 1 + count, 1));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+const lastDayOfMonth = (month: string): string => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return `${month}-${String(new Date(Date.UTC(year, monthNumber, 0)).getUTCDate()).padStart(2, '0')}`;
+};
+
+const monthsBetween = (fromMonth: string, toMonth: string): string[] => {
+  const months: string[] = [];
+  for (let month = fromMonth; month <= toMonth; month = addMonths(month, 1)) {
+    months.push(month);
+  }
+  return months;
+};
+
+/**
+ * Category a transaction is reported under: its own, or its parent when subcategories are rolled up
+ */
+const reportedCategory = (taxonomy: CategoryTaxonomy, category: string, rollUp: boolean): string => {
+  if (!rollUp) return category;
+  return taxonomy.categories.find(definition => definition.id === category)?.parentId ?? category;
+};
+
+const categoryLabel = (taxonomy: CategoryTaxonomy, category: string): { he: string; en: string } => {
+  return taxonomy.categories.find(definition => definition.id === category)?.labels ?? { he: category, en: category };
+};
+
+const dimensionValue = (
+  dimension: SpendingDimension,
+  metadata: VectorMetadata,
+  taxonomy: CategoryTaxonomy,
+  rollUp: boolean
+): string | null => {
+  switch (dimension) {
+    case 'category':
+      return reportedCategory(taxonomy, metadata.category, rollUp);
+    case 'transactionType':
+      return metadata.transactionType;
+    case 'card':
+      return metadata.cardLastFour ?? metadata.bankAccountNumber ?? null;
+    case 'account':
+      return metadata.bankAccountNumber ?? null;
+    case 'member':
+      // Records stored before the household registry have no member
+      return metadata.memberId ?? null;
+  }
+};
+
+const dimensionLabel = (
+  dimension: SpendingDimension,
+  value: string | null,
+  taxonomy: CategoryTaxonomy,
+  names: HouseholdNames
+): { he: string; en: string } => {
+  if (value === null) return NO_VALUE_LABELS[dimension];
+
+  switch (dimension) {
+    case 'category':
+      return categoryLabel(taxonomy, value);
+    case 'transactionType':
+      return TYPE_LABELS[value as TransactionType] ?? { he: value, en: value };
+    case 'card': {
+      const name = names.cards.get(value) ?? names.accounts.get(value);
+      return name ? { he: `${name} (${value})`, en: `${name} (${value})` } : { he: `כרטיס ${value}`, en: `card ${value}` };
+    }
+    case 'account': {
+      const name = names.accounts.get(value);
+      return name ? { he: `${name} (${value})`, en: `${name} (${value})` } : { he: `חשבון ${value}`, en: `account ${value}` };
+    }
+    case 'member': {
+      const name = names.members.get(value) ?? value;
+      return { he: name, en: name };
+    }
+  }
+};
+
+/**
+ * Totals, counts, averages and change from the previous month, for every month of the range
+ */
+const summarizeMonths = (months: string[], amounts: Map<string, number[]>): MonthlySpending[] => {
+  let previous: number | null = null;
+
+  return months.map(month => {
+    const values = amounts.get(month) ?? [];
+    const total = round(values.reduce((sum, amount) => sum + amount, 0));
+    const change = previous === null ? null : round(total - previous);
+    const changePercent = previous === null || previous === 0 ? null : round((total - previous) / Math.abs(previous) * 100);
+    previous = total;
+
+    return {
+      month,
+      total,
+      count: values.length,
+      average: values.length > 0 ? round(total / values.length) : 0,
+      change,
+      changePercent,
+    };
+  });
+};
+
+/**
+ * Aggregate stored spending by month and the requested dimensions. Amounts are ILS net of linked refunds
+ * (netSpendingAmount); credits - income and refunds - are left out unless includeCredits is set, since
+ * refunds matched to a purchase already reduce it. Foreign amounts without an exchange rate are listed apart.
+ */
+export const buildSpendingReport = async (options: SpendingReportOptions): Promise<SpendingReport> => {
+  if (options.fromMonth > options.toMonth) {
+    throw new Error(`fromMonth ${options.fromMonth} is after toMonth ${options.toMonth}`);
+  }
+
+  const months = monthsBetween(options.fromMonth, options.toMonth);
+  if (months.length > MAX_MONTHS) {
+    throw new Error(`A report covers at most ${MAX_MONTHS} months`);
+  }
+
+  const groupBy = options.groupBy ?? ['category'];
+  const rollUp = options.rollUpSubcategories ?? false;
+  const taxonomy = await getCategoryTaxonomyStore().get();
+  const names = await loadHouseholdNames();
+
+  const records = await listAllTransactions(createVectorStorageProvider(), {
+    fromDate: `${options.fromMonth}-01`,
+    toDate: lastDayOfMonth(options.toMonth),
+    transactionType: options.transactionType,
+    cardLastFour: options.cardLastFour,
+    bankAccountNumber: options.bankAccountNumber,
+    memberId: options.memberId,
+  });
+
+  const groups = new Map<string, { key: SpendingGroup['key']; amounts: Map<string, number[]> }>();
+  const totals = new Map<string, number[]>();
+  const unconverted: UnconvertedTransaction[] = [];
+
+  for (const record of records) {
+    const { metadata } = record;
+    if (!options.includeCredits && metadata.transactionType === 'credit' && options.transactionType !== 'credit') continue;
+    // A parent category includes its subcategories
+    if (options.category && metadata.category !== options.category
+      && reportedCategory(taxonomy, metadata.category, true) !== options.category) continue;
+    if (!hasIlsAmount(metadata)) {
+      unconverted.push(toUnconvertedTransaction(record));
+      continue;
+    }
+
+    // The date range filter only returns dated transactions
+    const month = metadata.transactionDate!.slice(0, 7);
+    const amount = netSpendingAmount(metadata);
+    const key = Object.fromEntries(groupBy.map(dimension => [dimension, dimensionValue(dimension, metadata, taxonomy, rollUp)]));
+    const groupId = JSON.stringify(groupBy.map(dimension => key[dimension]));
+
+    if (!groups.has(groupId)) {
+      groups.set(groupId, { key, amounts: new Map() });
+    }
+    const group = groups.get(groupId)!;
+    group.amounts.set(month, [...(group.amounts.get(month) ?? []), amount]);
+    totals.set(month, [...(totals.get(month) ?? []), amount]);
+  }
+
+  const reportGroups: SpendingGroup[] = Array.from(groups.values()).map(({ key, amounts }) => {
+    const monthly = summarizeMonths(months, amounts);
+    const total = round(monthly.reduce((sum, month) => sum + month.total, 0));
+    const count = monthly.reduce((sum, month) => sum + month.count, 0);
+    const labels = groupBy.map(dimension => dimensionLabel(dimension, key[dimension] ?? null, taxonomy, names));
+
+    return {
+      key,
+      label: {
+        he: labels.map(label => label.he).join(' · '),
+        en: labels.map(label => label.en).join(' · '),
+      },
+      total,
+      count,
+      average: count > 0 ? round(total / count) : 0,
+      monthlyAverage: round(total / months.length),
+      months: monthly,
+    };
+  }).sort((a, b) => b.total - a.total);
+
+  const monthTotals = summarizeMonths(months, totals);
+  const count = monthTotals.reduce((sum, month) => sum + month.count, 0);
+
+  console.log(`📊 Spending report ${options.fromMonth}..${options.toMonth}: ${count} transactions in ${reportGroups.length} group(s)`);
+  if (unconverted.length > 0) {
+    console.warn(`⚠️ ${unconverted.length} foreign transaction(s) without an exchange rate left out of the report`);
+  }
+
+  return {
+    fromMonth: options.fromMonth,
+    toMonth: options.toMonth,
+    groupBy,
+    months: monthTotals,
+    groups: reportGroups,
+    total: round(monthTotals.reduce((sum, month) => sum + month.total, 0)),
+    count,
+    unconverted,
+  };
+};
+
+const formatAmount = (amount: number): string =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 });
+
+const formatChange = (changePercent: number | null): string =>
+  changePercent === null ? '-' : `${changePercent > 0 ? '+' : ''}${Math.round(changePercent)}%`;
+
+/**
+ * Markdown table of a report with bilingual headers: one row per group, one column per month,
+ * then the total, the monthly average and the change in the last month
+ */
+export const renderSpendingReportTable = (report: SpendingReport): string => {
+  const groupHeader = report.groupBy
+    .map(dimension => `${DIMENSION_LABELS[dimension].he} / ${DIMENSION_LABELS[dimension].en}`)
+    .join(' · ');
+
+  const header = [
+    groupHeader,
+    ...report.months.map(month => month.month),
+    'סה״כ / Total',
+    'ממוצע חודשי / Monthly avg',
+    'שינוי / MoM',
+  ];
+
+  const row = (label: string, months: MonthlySpending[], total: number, monthlyAverage: number): string[] => [
+    label,
+    ...months.map(month => formatAmount(month.total)),
+    formatAmount(total),
+    formatAmount(monthlyAverage),
+    formatChange(months[months.length - 1]?.changePercent ?? null),
+  ];
+
+  const rows = [
+    ...report.groups.map(group => row(`${group.label.he} / ${group.label.en}`, group.months, group.total, group.monthlyAverage)),
+    row('**סה״כ / Total**', report.months, report.total, round(report.total / report.months.length)),
+  ];
+
+  const table = [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map((_, index) => index === 0 ? '---' : '---:').join(' | ')} |`,
+    ...rows.map(cells => `| ${cells.join(' | ')} |`),
+  ].join('\n');
+
+  if (report.unconverted.length === 0) return table;
+
+  const count = report.unconverted.length;
+  return `${table}\n\n${count} עסקאות במטבע חוץ ללא שער חליפין אינן כלולות / ${count} foreign transaction(s) without an exchange rate are not included`;
+};
+
+const monthlySpendingSchema = z.object({
+  month: z.string().describe('YYYY-MM'),
+  total: z.number().describe('ILS spent, net of linked refunds'),
+  count: z.number().describe('Number of transactions'),
+  average: z.number().describe('Average ILS per transaction'),
+  change: z.number().nullable().describe('ILS difference from the previous month, null for the first month'),
+  changePercent: z.number().nullable().describe('Percent change from the previous month, null when there is no previous total'),
+});
+
+export const spendingReportTool = createTool({
+  id: 'spending-report',
+  description: 'Report stored spending per month, aggregated by category, transaction type, card, bank account and/or household member, with totals, counts, averages and month-over-month change (e.g. "how much did we spend on groceries each month this year"). Returns structured JSON and a bilingual Hebrew/English table.',
+  inputSchema: z.object({
+    fromMonth: z.string().regex(/^\d{4}-\d{2}$/).describe('First month of the report (YYYY-MM)'),
+    toMonth: z.string().regex(/^\d{4}-\d{2}$/).describe('Last month of the report (YYYY-MM, inclusive)'),
+    groupBy: z.array(z.enum(['category', 'transactionType', 'card', 'account', 'member'])).min(1).default(['category'])
+      .describe('Dimensions to aggregate by; several give one group per combination'),
+    category: z.string().optional().describe('Only this category; a parent category includes its subcategories'),
+    transactionType: z.string().optional().describe('Only this transaction type'),
+    cardLastFour: z.string().regex(/^\d{4}$/).optional().describe('Only this card'),
+    bankAccountNumber: z.string().regex(/^\d+$/).optional().describe('Only this bank account, including the cards linked to it'),
+    memberId: z.string().optional().describe('Only this household member (see list-household)'),
+    rollUpSubcategories: z.boolean().default(false).describe('Report subcategories under their parent category'),
+    includeCredits: z.boolean().default(false).describe('Include credits (income and unmatched refunds) as negative amounts'),
+  }),
+  outputSchema: z.object({
+    fromMonth: z.string(),
+    toMonth: z.string(),
+    groupBy: z.array(z.string()),
+    months: z.array(monthlySpendingSchema).describe('Totals of all groups per month'),
+    groups: z.array(z.object({
+      key: z.record(z.string().nullable()).describe('Value of each groupBy dimension (card = last four digits or account number, account = account number, member = member ID)'),
+      label: z.object({ he: z.string(), en: z.string() }),
+      total: z.number(),
+      count: z.number(),
+      average: z.number().describe('Average ILS per transaction'),
+      monthlyAverage: z.number().describe('Average ILS per month of the range'),
+      months: z.array(monthlySpendingSchema),
+    })).describe('Groups, largest total first'),
+    total: z.number().describe('ILS spent in the range'),
+    count: z.number(),
+    unconverted: z.array(UnconvertedTransactionSchema).describe('Foreign transactions of the range without an exchange rate, not included in the totals'),
+    table: z.string().describe('Markdown table with Hebrew/English headers, ready to show the user'),
+  }),
+  execute: async ({ context }) => {
+    const report = await buildSpendingReport(context);
+    return { ...report, table: renderSpendingReportTable(report) };
+  },
+});
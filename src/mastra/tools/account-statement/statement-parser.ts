@@ -0,0 +1,38 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { CreditCardDataSchema, ParsedTransactionRowSchema, SkippedStatementRowSchema } from './types';
+import { parseStatementCsv, extractStatementHeaderData } from './parsers';
+
+export const statementParserTool = createTool({
+  id: 'parse-statement',
+  description: 'Deterministically parse an Israeli card issuer or bank CSV export (Isracard, Cal, Max, Leumi, Hapoalim, Mizrahi) into typed transaction rows without using the LLM',
+  inputSchema: z.object({
+    csvText: z.string()
+      .min(10, 'CSV text must contain meaningful content')
+      .describe('Full CSV export text of the statement, including its header and footer rows'),
+    profileId: z.enum(['isracard', 'cal', 'max', 'leumi', 'hapoalim', 'mizrahi']).optional()
+      .describe('Force a column profile instead of auto-detecting it'),
+  }),
+  outputSchema: z.object({
+    profile: z.object({
+      id: z.string().describe('Detected column profile'),
+      displayName: z.string().describe('Issuer or bank name'),
+      kind: z.enum(['credit_card', 'bank_account']),
+    }),
+    headerRowNumber: z.number().describe('Line number of the column header row'),
+    headerData: CreditCardDataSchema.partial().describe('Statement header fields found without the LLM'),
+    rows: z.array(ParsedTransactionRowSchema).describe('Parsed transaction rows'),
+    skippedRows: z.array(SkippedStatementRowSchema).describe('Rows that were not transactions (totals, notes, section headers)'),
+  }),
+  execute: async ({ context }) => {
+    const statement = parseStatementCsv(context.csvText, { profileId: context.profileId });
+
+    return {
+      profile: statement.profile,
+      headerRowNumber: statement.headerRowNumber,
+      headerData: extractStatementHeaderData(context.csvText),
+      rows: statement.rows,
+      skippedRows: statement.skippedRows,
+    };
+  },
+});
@@ -0,0 +1,15 @@
+// Helpers for reading stored transactions in bulk (reports, installments, forecasts)
+
+import { VectorMetadata, VectorMetadataFilters, VectorStorageProvider } from './providers/base';
+
+/**
+ * Every stored transaction matching the filters, newest first. One read of the index: on Cloudflare each
+ * `list` page scans the whole index, so paging through it would read the index once per page.
+ */
+export const listAllTransactions = async (
+  vectorProvider: VectorStorageProvider,
+  filters?: VectorMetadataFilters
+): Promise<Array<{ id: string; metadata: VectorMetadata }>> => {
+  const records = await vectorProvider.listAll(filters);
+  return records.map(record => ({ id: record.id, metadata: record.metadata }));
+};
@@ -0,0 +1,462 @@
+// Subscription detection: recurring charges found across stored transactions, with price changes and missed cycles
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { createHash } from 'crypto';
+import { VectorMetadata } from './providers/base';
+import { createVectorStorageProvider } from './providers/factory';
+import { listAllTransactions } from './stored-transactions';
+import { getCategoryTaxonomyStore } from './category-taxonomy';
+import { hasIlsAmount, toUnconvertedTransaction } from './exchange-rates';
+import {
+  CategoryTaxonomy,
+  Subscription,
+  SubscriptionCadence,
+  SubscriptionPriceChange,
+  SubscriptionReport,
+  SubscriptionReportSchema,
+  UnconvertedTransaction
+} from './types';
+
+export interface SubscriptionDetectionOptions {
+  /** Statuses are computed as of this date; defaults to the latest stored transaction date */
+  asOf?: string;
+  /** How far back charges are read */
+  lookbackMonths?: number;
+  /** Set the type of the charges of monthly subscriptions to "monthly" */
+  updateTypes?: boolean;
+  /** Only the charges of this card, account or household member */
+  cardLastFour?: string;
+  bankAccountNumber?: string;
+  memberId?: string;
+}
+
+interface Charge {
+  id: string;
+  date: string;
+  /** ILS */
+  amount: number;
+  /** Amount in the original currency, so exchange rate moves do not look like price changes */
+  comparableAmount: number;
+  metadata: VectorMetadata;
+}
+
+interface CadenceDefinition {
+  cadence: SubscriptionCadence;
+  days: number;
+  /** Days a charge may drift from its expected date (weekends, billing runs) */
+  tolerance: number;
+  perYear: number;
+  /** Calendar months per cycle; null for cycles counted in days */
+  months: number | null;
+}
+
+const CADENCES: CadenceDefinition[] = [
+  { cadence: 'weekly', days: 7, tolerance: 2, perYear: 52, months: null },
+  { cadence: 'monthly', days: 30.4, tolerance: 5, perYear: 12, months: 1 },
+  { cadence: 'bimonthly', days: 60.8, tolerance: 7, perYear: 6, months: 2 },
+  { cadence: 'quarterly', days: 91.3, tolerance: 10, perYear: 4, months: 3 },
+  { cadence: 'yearly', days: 365.25, tolerance: 20, perYear: 1, months: 12 },
+];
+
+const CADENCE_LABELS: Record<SubscriptionCadence, { he: string; en: string }> = {
+  weekly: { he: 'שבועי', en: 'weekly' },
+  monthly: { he: 'חודשי', en: 'monthly' },
+  bimonthly: { he: 'דו-חודשי', en: 'bimonthly' },
+  quarterly: { he: 'רבעוני', en: 'quarterly' },
+  yearly: { he: 'שנתי', en: 'yearly' },
+};
+
+export const SUBSCRIPTION_DEFAULTS = {
+  lookbackMonths: 24,
+  /** Share of the gaps between charges that must match the cadence */
+  minRegularShare: 0.75,
+  /** Charges this far apart in amount are different subscriptions of the same merchant (e.g. two Apple plans) */
+  amountBand: 0.3,
+  /** Smaller differences between charges are rounding, not a price change */
+  minPriceChange: 0.02,
+  /** Share of the charges that must repeat the previous amount; shops are paid varying amounts */
+  minRepeatedShare: 0.5,
+  /** A forgettable service charged for this long may no longer be used */
+  forgottenAfterDays: 180,
+};
+
+// Services that keep charging whether they are used or not: streaming, apps, gyms
+const FORGETTABLE_CATEGORIES = ['technology', 'shopping_entertainment', 'sports_recreation'];
+const FORGETTABLE_MERCHANT_WORDS = [
+  'netflix', 'spotify', 'disney', 'youtube', 'hbo', 'apple', 'itunes', 'icloud', 'google', 'prime', 'audible',
+  'deezer', 'dazn', 'sting', 'yes', 'adobe', 'dropbox', 'microsoft', 'openai', 'chatgpt', 'patreon',
+  'gym', 'fitness', 'holmes place', 'pilates', 'yoga', 'crossfit',
+  'נטפליקס', 'ספוטיפיי', 'דיסני', 'יס', 'הוט', 'סטינג', 'כושר', 'הולמס', 'קאנטרי', 'פילאטיס', 'יוגה',
+];
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+const dayNumber = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / 86_400_000;
+};
+
+const daysBetween = (from: string, to: string): number => dayNumber(to) - dayNumber(from);
+
+const addDays = (date: string, days: number): string => {
+  return new Date((dayNumber(date) + Math.round(days)) * 86_400_000).toISOString().slice(0, 10);
+};
+
+/**
+ * Same day of the month `months` later, clamped to the month's last day (Jan 31 + 1 month = Feb 28)
+ */
+const addMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+};
+
+const addCycles = (date: string, definition: CadenceDefinition, cycles: number): string => {
+  return definition.months === null
+    ? addDays(date, definition.days * cycles)
+    : addMonths(date, definition.months * cycles);
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Merchant key without reference numbers, which some merchants add to every charge ("paypal spotify 4029357733")
+ */
+export const subscriptionMerchantKey = (merchantKey: string): string => {
+  return merchantKey.replace(/\b\d{4,}\b/g, ' ').replace(/\s+/g, ' ').trim() || merchantKey;
+};
+
+/**
+ * Split a merchant's charges into runs of similar amounts, so two plans of one merchant are told apart
+ */
+const splitByAmount = (charges: Charge[]): Charge[][] => {
+  const bands: Charge[][] = [];
+
+  for (const charge of charges) {
+    const band = bands.find(candidate => {
+      const last = candidate[candidate.length - 1].comparableAmount;
+      return Math.abs(charge.comparableAmount - last) <= last * SUBSCRIPTION_DEFAULTS.amountBand;
+    });
+
+    if (band) {
+      band.push(charge);
+    } else {
+      bands.push([charge]);
+    }
+  }
+
+  return bands;
+};
+
+/**
+ * Cadence matching the median gap between charges. Gaps of a few days are left out: they are
+ * duplicate charges, not cycles.
+ */
+const detectCadence = (charges: Charge[]): CadenceDefinition | null => {
+  const gaps = charges.slice(1)
+    .map((charge, index) => daysBetween(charges[index].date, charge.date))
+    .filter(gap => gap > 3);
+
+  if (gaps.length === 0) return null;
+
+  const typicalGap = median(gaps);
+  return CADENCES.find(definition => Math.abs(typicalGap - definition.days) <= definition.tolerance) ?? null;
+};
+
+const priceChanged = (from: number, to: number): boolean =>
+  Math.abs(to - from) >= 0.5 && Math.abs(to - from) >= from * SUBSCRIPTION_DEFAULTS.minPriceChange;
+
+/**
+ * Price changes between consecutive charges. A different amount only counts when the next charge keeps it,
+ * so a one-off prorated charge is not reported as two changes.
+ */
+const findPriceChanges = (charges: Charge[], currency: string): SubscriptionPriceChange[] => {
+  const changes: SubscriptionPriceChange[] = [];
+
+  let price = charges[0].comparableAmount;
+  charges.slice(1).forEach((charge, index) => {
+    const next = charges[index + 2];
+    if (!priceChanged(price, charge.comparableAmount)) return;
+    if (next && priceChanged(charge.comparableAmount, next.comparableAmount)) return;
+
+    changes.push({
+      date: charge.date,
+      previousAmount: price,
+      newAmount: charge.comparableAmount,
+      currency,
+      changePercent: round((charge.comparableAmount - price) / price * 100),
+    });
+    price = charge.comparableAmount;
+  });
+
+  return changes;
+};
+
+/**
+ * A subscription when the charges recur on a regular cadence, or null. Charges within half a cycle of the
+ * previous one are duplicates; gaps of several cycles are missed cycles.
+ */
+const analyzeCharges = (charges: Charge[], groupKey: string, asOf: string): Subscription | null => {
+  const definition = detectCadence(charges);
+  if (!definition) return null;
+
+  const cycleCharges: Charge[] = [charges[0]];
+  const duplicateCharges: Subscription['duplicateCharges'] = [];
+  const missedCycles: string[] = [];
+  const gaps: number[] = [];
+  let regularGaps = 0;
+
+  for (const charge of charges.slice(1)) {
+    const previous = cycleCharges[cycleCharges.length - 1];
+    const gap = daysBetween(previous.date, charge.date);
+
+    if (gap < definition.days / 2) {
+      duplicateCharges.push({ date: charge.date, amount: charge.amount, transactionIds: [previous.id, charge.id] });
+      continue;
+    }
+
+    const cycles = Math.round(gap / definition.days);
+    if (Math.abs(gap - cycles * definition.days) <= definition.tolerance * cycles) {
+      regularGaps++;
+      for (let cycle = 1; cycle < cycles; cycle++) {
+        missedCycles.push(addCycles(previous.date, definition, cycle));
+      }
+    }
+
+    gaps.push(gap);
+    cycleCharges.push(charge);
+  }
+
+  // Monthly and shorter cadences need three charges to be told apart from coincidence
+  const minCharges = definition.perYear >= 6 ? 3 : 2;
+  if (cycleCharges.length < minCharges) return null;
+  if (regularGaps / gaps.length < SUBSCRIPTION_DEFAULTS.minRegularShare) return null;
+  if (missedCycles.length >= cycleCharges.length) return null;
+
+  const repeated = cycleCharges.slice(1)
+    .filter((charge, index) => !priceChanged(cycleCharges[index].comparableAmount, charge.comparableAmount)).length;
+  if (repeated / (cycleCharges.length - 1) < SUBSCRIPTION_DEFAULTS.minRepeatedShare) return null;
+
+  const first = cycleCharges[0];
+  const last = cycleCharges[cycleCharges.length - 1];
+  const nextExpectedDate = addCycles(last.date, definition, 1);
+
+  let status: Subscription['status'] = 'active';
+  if (daysBetween(addCycles(last.date, definition, 2), asOf) > definition.tolerance) {
+    status = 'ended';
+  } else if (daysBetween(nextExpectedDate, asOf) > definition.tolerance) {
+    status = 'overdue';
+  }
+
+  return {
+    id: `sub_${createHash('sha256').update(`${groupKey}|${first.id}`).digest('hex').slice(0, 16)}`,
+    merchant: last.metadata.originalText,
+    merchantKey: last.metadata.merchantKey,
+    category: last.metadata.category,
+    cardLastFour: last.metadata.cardLastFour ?? last.metadata.bankAccountNumber ?? null,
+    cadence: definition.cadence,
+    intervalDays: Math.round(median(gaps)),
+    currentAmount: last.amount,
+    currency: last.metadata.currency,
+    firstChargeDate: first.date,
+    lastChargeDate: last.date,
+    chargeCount: cycleCharges.length,
+    nextExpectedDate,
+    annualCost: status === 'ended' ? 0 : round(last.amount * definition.perYear),
+    status,
+    priceChanges: findPriceChanges(cycleCharges, last.metadata.currency),
+    missedCycles,
+    duplicateCharges,
+    possiblyForgotten: false,
+    forgottenReasons: [],
+    transactionIds: charges.map(charge => charge.id),
+  };
+};
+
+const isForgettable = (subscription: Subscription, taxonomy: CategoryTaxonomy): boolean => {
+  const parentId = taxonomy.categories.find(definition => definition.id === subscription.category)?.parentId;
+  if (FORGETTABLE_CATEGORIES.includes(subscription.category) || (parentId && FORGETTABLE_CATEGORIES.includes(parentId))) {
+    return true;
+  }
+
+  const merchant = ` ${subscription.merchantKey} `;
+  return FORGETTABLE_MERCHANT_WORDS.some(word => merchant.includes(` ${word} `));
+};
+
+/**
+ * Reasons a subscription may be forgotten: a streaming, app or gym service charged for months, its price raised
+ * without it being cancelled, or the same service paid on more than one card
+ */
+const forgottenReasons = (
+  subscription: Subscription,
+  subscriptions: Subscription[],
+  taxonomy: CategoryTaxonomy
+): Subscription['forgottenReasons'] => {
+  if (subscription.status === 'ended') return [];
+
+  const reasons: Subscription['forgottenReasons'] = [];
+  const cadence = CADENCE_LABELS[subscription.cadence];
+
+  if (isForgettable(subscription, taxonomy)) {
+    const runningDays = daysBetween(subscription.firstChargeDate, subscription.lastChargeDate);
+    if (runningDays >= SUBSCRIPTION_DEFAULTS.forgottenAfterDays) {
+      const months = Math.round(runningDays / 30.4);
+      reasons.push({
+        he: `חיוב ${cadence.he} כבר ${months} חודשים - מנויי סטרימינג, אפליקציות וחדרי כושר נשכחים לעתים קרובות`,
+        en: `Charged ${cadence.en} for ${months} months - streaming, app and gym subscriptions are often left running unused`,
+      });
+    }
+
+    const increase = subscription.priceChanges.filter(change => change.changePercent > 0).pop();
+    if (increase) {
+      reasons.push({
+        he: `המחיר עלה מ-${increase.previousAmount} ל-${increase.newAmount} ${increase.currency} ב-${increase.date} והמנוי ממשיך להיות מחויב`,
+        en: `The price rose from ${increase.previousAmount} to ${increase.newAmount} ${increase.currency} on ${increase.date} and it is still being paid`,
+      });
+    }
+  }
+
+  const otherCards = subscriptions
+    .filter(other => other !== subscription && other.status !== 'ended')
+    .filter(other => other.cardLastFour !== subscription.cardLastFour)
+    .filter(other => subscriptionMerchantKey(other.merchantKey) === subscriptionMerchantKey(subscription.merchantKey))
+    .map(other => other.cardLastFour ?? '?');
+
+  if (otherCards.length > 0) {
+    reasons.push({
+      he: `אותו שירות מחויב גם בכרטיס ${otherCards.join(', ')}`,
+      en: `The same service is also charged on card ${otherCards.join(', ')}`,
+    });
+  }
+
+  return reasons;
+};
+
+/**
+ * Find recurring charges in the stored transactions: charges of the same merchant and card, of similar
+ * amounts, on a weekly to yearly cadence. Credits, refunds and installment payments are left out, since
+ * installments recur by construction and are tracked by the installment commitments.
+ */
+export const detectSubscriptions = async (options: SubscriptionDetectionOptions = {}): Promise<SubscriptionReport> => {
+  const vectorProvider = createVectorStorageProvider();
+  const lookbackMonths = options.lookbackMonths ?? SUBSCRIPTION_DEFAULTS.lookbackMonths;
+
+  const records = (await listAllTransactions(vectorProvider, {
+    toDate: options.asOf,
+    cardLastFour: options.cardLastFour,
+    bankAccountNumber: options.bankAccountNumber,
+    memberId: options.memberId,
+  }))
+    .filter(({ metadata }) => metadata.transactionDate);
+
+  // Statements arrive after the month ends, so "today" would make every subscription look overdue
+  const asOf = options.asOf ?? records.reduce(
+    (latest, { metadata }) => metadata.transactionDate! > latest ? metadata.transactionDate! : latest,
+    ''
+  );
+
+  if (!asOf) {
+    return { asOf: new Date().toISOString().slice(0, 10), subscriptions: [], activeCount: 0, annualCost: 0, monthlyCost: 0, typesUpdated: 0, unconverted: [] };
+  }
+
+  const fromDate = addMonths(asOf, -lookbackMonths);
+  const groups = new Map<string, Charge[]>();
+  const unconverted: UnconvertedTransaction[] = [];
+
+  for (const { id, metadata } of records) {
+    if (metadata.transactionDate! < fromDate) continue;
+    if (metadata.transactionType === 'credit' || metadata.transactionType === 'installment') continue;
+    if (metadata.installmentNumber !== null || metadata.refundOf || metadata.amount <= 0) continue;
+
+    // Costs are in ILS - a foreign charge without an exchange rate is listed instead of priced
+    if (!hasIlsAmount(metadata)) {
+      unconverted.push(toUnconvertedTransaction({ id, metadata }));
+      continue;
+    }
+
+    const groupKey = `${subscriptionMerchantKey(metadata.merchantKey)}|${metadata.cardLastFour ?? metadata.bankAccountNumber ?? ''}`;
+    const charges = groups.get(groupKey) ?? [];
+    charges.push({
+      id,
+      date: metadata.transactionDate!,
+      amount: metadata.amount,
+      comparableAmount: metadata.currency !== 'ILS' && metadata.originalAmount > 0 ? metadata.originalAmount : metadata.amount,
+      metadata,
+    });
+    groups.set(groupKey, charges);
+  }
+
+  const subscriptions: Subscription[] = [];
+  for (const [groupKey, charges] of groups) {
+    charges.sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+    for (const band of splitByAmount(charges)) {
+      const subscription = analyzeCharges(band, groupKey, asOf);
+      if (subscription) subscriptions.push(subscription);
+    }
+  }
+
+  const taxonomy = await getCategoryTaxonomyStore().get();
+  for (const subscription of subscriptions) {
+    subscription.forgottenReasons = forgottenReasons(subscription, subscriptions, taxonomy);
+    subscription.possiblyForgotten = subscription.forgottenReasons.length > 0;
+  }
+  subscriptions.sort((a, b) => b.annualCost - a.annualCost || a.merchantKey.localeCompare(b.merchantKey));
+
+  let typesUpdated = 0;
+  if (options.updateTypes) {
+    const updatedAt = new Date().toISOString();
+    const chargesById = new Map(Array.from(groups.values()).flat().map(charge => [charge.id, charge]));
+
+    for (const subscription of subscriptions.filter(candidate => candidate.cadence === 'monthly' && candidate.status !== 'ended')) {
+      for (const id of subscription.transactionIds) {
+        if (chargesById.get(id)?.metadata.transactionType !== 'regular') continue;
+        await vectorProvider.updateMetadata(id, { transactionType: 'monthly', updatedAt });
+        typesUpdated++;
+      }
+    }
+  }
+
+  const current = subscriptions.filter(subscription => subscription.status !== 'ended');
+  const annualCost = round(current.reduce((sum, subscription) => sum + subscription.annualCost, 0));
+  const forgotten = current.filter(subscription => subscription.possiblyForgotten).length;
+
+  console.log(`🔁 Found ${subscriptions.length} subscription(s), ${current.length} current (${annualCost} ILS/year), ${forgotten} possibly forgotten`);
+  if (unconverted.length > 0) {
+    console.warn(`⚠️ ${unconverted.length} foreign charge(s) without an exchange rate left out of the subscriptions`);
+  }
+
+  return {
+    asOf,
+    subscriptions,
+    activeCount: current.length,
+    annualCost,
+    monthlyCost: round(annualCost / 12),
+    typesUpdated,
+    unconverted,
+  };
+};
+
+export const detectSubscriptionsTool = createTool({
+  id: 'detect-subscriptions',
+  description: 'Find recurring subscriptions in the stored transactions (same merchant, regular interval, similar amount) with their cadence, next expected charge, annual cost, price increases, missed or duplicate charges, and the ones that look forgotten (e.g. streaming or a gym charged for months)',
+  inputSchema: z.object({
+    asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional()
+      .describe('Compute statuses as of this date (YYYY-MM-DD), defaults to the latest stored transaction date'),
+    lookbackMonths: z.number().int().min(3).max(60).default(SUBSCRIPTION_DEFAULTS.lookbackMonths)
+      .describe('Months of charges to look at'),
+    updateTypes: z.boolean().default(false)
+      .describe('Set the transaction type of the charges of current monthly subscriptions to "monthly"'),
+    cardLastFour: z.string().regex(/^\d{4}$/).optional().describe('Only subscriptions charged on this card'),
+    bankAccountNumber: z.string().regex(/^\d+$/).optional().describe('Only this bank account, including the cards linked to it'),
+    memberId: z.string().optional().describe('Only this household member (see list-household)'),
+  }),
+  outputSchema: SubscriptionReportSchema,
+  execute: async ({ context }) => {
+    return await detectSubscriptions(context);
+  },
+});
@@ -2,174 +2,857 @@ import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { openai } from '@ai-sdk/openai';
 import { generateObject, embedMany } from 'ai';
-import { TransactionAnalysis, TransactionAnalysisSchema, TransactionTypeSchema, TransactionCategorySchema } from './types';
+import {
+  TransactionAnalysis,
+  MerchantRule,
+  CategorySource,
+  CategorySourceSchema,
+  CategoryTaxonomy,
+  TransactionCategory,
+  TransactionTypeSchema,
+  TransactionCategorySchema,
+  ParsedTransactionRow,
+  ParsedTransactionRowSchema,
+  TransactionOwner
+} from './types';
 import { generatePromptFromSchema } from './schema-prompt-generator';
 import { createVectorStorageProvider } from './providers/factory';
-import { VectorRecord } from './providers/base';
+import { VectorMetadata, VectorRecord, VectorStorageProvider } from './providers/base';
+import {
+  buildTransactionFingerprint,
+  buildRowFingerprint,
+  createTransactionId,
+  findPossibleDuplicates,
+  PossibleDuplicate,
+  StatementSource,
+  TransactionFingerprint
+} from './transaction-identity';
+import { IlsAmount, resolveIlsAmount } from './exchange-rates';
+import { buildInstallmentMetadata } from './installments';
+import { getMerchantRuleStore } from './merchant-rules';
+import { getCategoryTaxonomyStore } from './category-taxonomy';
+import { getReviewQueueStore, needsReview } from './review-queue';
+import { getHouseholdRegistryStore } from './household-registry';
+import { getTransactionLedger } from './ledger';
+import { KnnClassification, KnnOptions, buildTemplateSummaries, classifyByNeighbors } from './knn-classifier';
+import { parseTransactionText } from './parsers';
+
+// Text fields the LLM produces for one transaction
+const llmAnalysisSchema = z.object({
+  summary: z.string().min(50, 'Summary must be at least 50 characters').max(200, 'Summary max 200 characters'),
+  englishSummary: z.string().min(50, 'English summary must be at least 50 characters').max(200, 'English summary max 200 characters'),
+  transactionType: z.enum(['regular', 'monthly', 'credit', 'installment']).describe('Transaction type: regular, monthly, credit, or installment'),
+  category: TransactionCategorySchema,
+  confidence: z.number().min(0).max(1).describe('How sure the category and type are, from 0 to 1')
+});
+
+type LlmAnalysis = z.infer<typeof llmAnalysisSchema>;
+
+/**
+ * LLM output schema that only accepts categories of the current taxonomy
+ */
+const llmAnalysisSchemaFor = (categorySchema: z.ZodType<TransactionCategory>) =>
+  llmAnalysisSchema.extend({ category: categorySchema });
+
+// Batch responses are validated per transaction, so one bad item does not fail its whole chunk
+const llmBatchAnalysisSchema = z.object({
+  transactions: z.array(z.object({
+    index: z.number().int().describe('Number of the transaction in the input list'),
+    summary: z.string(),
+    englishSummary: z.string(),
+    transactionType: z.string(),
+    category: z.string(),
+    confidence: z.number(),
+  }))
+});
+
+const DEFAULT_BATCH_CHUNK_SIZE = 20;
 
 /**
  * Clean messy transaction text by removing timestamps and normalizing spaces
  */
-const cleanTransactionText = (rawText: string): string => {
+export const cleanTransactionText = (rawText: string): string => {
   return rawText
     .replace(/^.*GMT\+\d{4}\s*\([^)]+\)\s*/, '') // Remove timestamps like "Tue Aug 27 2024 00:00:00 GMT+0300 (Israel Daylight Time)"
     .replace(/\s+/g, ' ')                        // Replace multiple spaces/tabs with single space
     .trim();                                     // Remove leading/trailing whitespace
 };
 
+const possibleDuplicateSchema = z.object({
+  id: z.string().describe('ID of the stored transaction that looks like the same charge'),
+  similarity: z.number().describe('Merchant text similarity (0-1)'),
+  originalText: z.string().describe('Original text of the stored transaction'),
+  transactionDate: z.string().nullable().describe('Transaction date of the stored transaction (YYYY-MM-DD)'),
+  amount: z.number().describe('Amount of the stored transaction'),
+});
+
+const singleAnalysisOutputSchema = z.object({
+  summary: z.string().describe('Hebrew transaction summary'),
+  englishSummary: z.string().describe('English transaction summary'),
+  summaryEmbedding: z.array(z.number()).length(1536).describe('Vector embedding of Hebrew summary (1536 dimensions)'),
+  englishSummaryEmbedding: z.array(z.number()).length(1536).describe('Vector embedding of English summary (1536 dimensions)'),
+  transactionType: TransactionTypeSchema,
+  category: TransactionCategorySchema,
+  categorySource: CategorySourceSchema,
+  confidence: z.number().describe('Confidence of the category and type (0-1): 1 for rules, the neighbors\' agreement for kNN, the model\'s own estimate for the LLM'),
+  merchantRuleId: z.string().nullable().describe('Merchant rule that set the category, null when kNN or the LLM categorized the transaction'),
+  vectorId: z.string().optional().describe('ID of the stored vector in the local database'),
+  mutationId: z.string().optional().describe('Database mutation ID for the storage operation'),
+  pendingReview: z.boolean().describe('True when the confidence was below the review threshold: the transaction waits in the review queue and is not stored yet'),
+  isReimport: z.boolean().describe('True when this exact transaction was already stored and its record was updated'),
+  possibleDuplicates: z.array(possibleDuplicateSchema).describe('Near-identical transactions already in the store under a different ID'),
+});
+
+const batchAnalysisOutputSchema = z.object({
+  results: z.array(z.object({
+    index: z.number().describe('Position of the transaction in the input list'),
+    transactionText: z.string(),
+    status: z.enum(['stored', 'updated', 'pending_review', 'analyzed', 'failed'])
+      .describe('stored = new record, updated = re-import of an existing record, pending_review = below the review threshold, waiting in the review queue, analyzed = not stored (storeInVector false)'),
+    summary: z.string().optional().describe('Hebrew transaction summary'),
+    englishSummary: z.string().optional().describe('English transaction summary'),
+    transactionType: TransactionTypeSchema.optional(),
+    category: TransactionCategorySchema.optional(),
+    categorySource: CategorySourceSchema.optional(),
+    confidence: z.number().optional().describe('Confidence of the category and type (0-1)'),
+    merchantRuleId: z.string().nullable().optional().describe('Merchant rule that set the category'),
+    vectorId: z.string().optional().describe('ID of the stored vector'),
+    isReimport: z.boolean(),
+    possibleDuplicates: z.array(possibleDuplicateSchema),
+    error: z.string().optional().describe('Why this transaction failed; the others are unaffected'),
+  })).describe('One result per input transaction, in input order'),
+  mutationId: z.string().optional().describe('Database mutation ID of the single batch insert'),
+  succeeded: z.number(),
+  failed: z.number(),
+  pendingReview: z.number().describe('Transactions queued for review instead of stored'),
+});
+
 export const transactionAnalyzerTool = createTool({
   id: 'analyze-transaction',
-  description: 'Analyze Hebrew banking transactions to extract embedding-optimized summaries, classify transaction types, and categorize based on Israeli merchant patterns for comprehensive financial tracking',
+  description: 'Analyze Hebrew banking transactions to extract embedding-optimized summaries, classify transaction types, and categorize based on Israeli merchant patterns for comprehensive financial tracking. Pass `transactions` to analyze a whole statement in batch mode (one LLM call per chunk, one embedding call, one insert).',
   inputSchema: z.object({
     transactionText: z.string()
       .min(5, 'Transaction text must contain meaningful content')
+      .optional()
       .describe('Single Hebrew transaction text from bank statement including merchant name, amount, date, and transaction details for comprehensive analysis'),
+    transactions: z.array(z.object({
+      transactionText: z.string().min(5, 'Transaction text must contain meaningful content'),
+      parsedRow: ParsedTransactionRowSchema.optional(),
+    })).min(1).optional().describe('Batch mode: many transactions of the same statement, analyzed together'),
+    chunkSize: z.number().min(1).max(50).default(DEFAULT_BATCH_CHUNK_SIZE).describe('Batch mode: transactions categorized per LLM call'),
     storeInVector: z.boolean().default(true).describe('Whether to store the embeddings in the local vector database'),
-  }),
-  outputSchema: z.object({
-    summary: z.string().describe('Hebrew transaction summary'),
-    englishSummary: z.string().describe('English transaction summary'),
-    summaryEmbedding: z.array(z.number()).length(1536).describe('Vector embedding of Hebrew summary (1536 dimensions)'),
-    englishSummaryEmbedding: z.array(z.number()).length(1536).describe('Vector embedding of English summary (1536 dimensions)'),
-    transactionType: TransactionTypeSchema,
-    category: TransactionCategorySchema,
-    vectorId: z.string().optional().describe('ID of the stored vector in the local database'),
-    mutationId: z.string().optional().describe('Database mutation ID for the storage operation'),
-  }),
+    classificationMode: z.enum(['knn', 'llm']).default('knn').describe('knn = label clear cases like their nearest stored transactions and ask the LLM only about ambiguous ones, llm = always ask the LLM'),
+    reviewThreshold: z.number().min(0).max(1).optional().describe('Categorizations less confident than this are queued for review instead of stored (default REVIEW_CONFIDENCE_THRESHOLD, 0 = never review)'),
+    lastFourDigits: z.string().regex(/^\d{4}$/).optional().describe('Last 4 digits of the card the statement belongs to (part of the transaction identity)'),
+    bankAccountNumber: z.string().regex(/^\d+$/).optional().describe('Bank account number the statement belongs to (part of the transaction identity)'),
+    statementDate: z.string().regex(/^\d{2}\/\d{2}\/\d{4}$/).optional().describe('Charge date of the card statement (DD/MM/YYYY), stored as the charge date of rows without one'),
+    parsedRow: ParsedTransactionRowSchema.optional().describe('Typed row from parse-statement; when given, date and amount are taken from it instead of the text'),
+  }).refine(
+    input => (input.transactionText === undefined) !== (input.transactions === undefined),
+    'Provide either transactionText or transactions'
+  ),
+  outputSchema: z.union([singleAnalysisOutputSchema, batchAnalysisOutputSchema]),
   execute: async ({ context }) => {
+    const source = {
+      lastFourDigits: context.lastFourDigits,
+      bankAccountNumber: context.bankAccountNumber,
+      statementDate: context.statementDate,
+    };
+
+    if (context.transactions) {
+      const batch = await analyzeTransactionBatch(
+        context.transactions,
+        context.storeInVector,
+        source,
+        { chunkSize: context.chunkSize, classificationMode: context.classificationMode, reviewThreshold: context.reviewThreshold }
+      );
+
+      // Embeddings are stored, not returned - a statement's worth would flood the agent's context
+      return {
+        ...batch,
+        results: batch.results.map(({ analysis, ...result }) => ({
+          ...result,
+          summary: analysis?.summary,
+          englishSummary: analysis?.englishSummary,
+          transactionType: analysis?.transactionType,
+          category: analysis?.category,
+          categorySource: analysis?.categorySource,
+          confidence: analysis?.confidence,
+          merchantRuleId: analysis?.merchantRuleId,
+        })),
+      };
+    }
+
     return await analyzeTransaction(
-      context.transactionText, 
-      context.storeInVector
+      context.transactionText!, 
+      context.storeInVector,
+      { ...source, parsedRow: context.parsedRow },
+      { classificationMode: context.classificationMode, reviewThreshold: context.reviewThreshold }
     );
   },
 });
 
-const analyzeTransaction = async (
+/**
+ * Analysis with how its category was decided: merchant rule, nearest neighbors or LLM
+ */
+export type CategorizedAnalysis = TransactionAnalysis & {
+  categorySource: Exclude<CategorySource, 'user'>;
+  confidence: number;
+  merchantRuleId: string | null;
+};
+
+export type ClassificationMode = 'knn' | 'llm';
+
+type TransactionAnalysisResult = CategorizedAnalysis & {
+  vectorId?: string;
+  mutationId?: string;
+  pendingReview: boolean;
+  isReimport: boolean;
+  possibleDuplicates: PossibleDuplicate[];
+};
+
+export const analyzeTransaction = async (
   transactionText: string, 
-  storeInVector: boolean = true
-): Promise<TransactionAnalysis & { vectorId?: string; mutationId?: string }> => {
+  storeInVector: boolean = true,
+  source: StatementSource & { parsedRow?: ParsedTransactionRow } = {},
+  options: { classificationMode?: ClassificationMode; knn?: KnnOptions; reviewThreshold?: number } = {}
+): Promise<TransactionAnalysisResult> => {
   // Clean the input text first
   const cleanedText = cleanTransactionText(transactionText);
+
+  // Deterministic identity: the same transaction always gets the same ID.
+  // The raw text is parsed, since cleaning drops the date of pasted timestamps.
+  const fingerprint = source.parsedRow
+    ? buildRowFingerprint(source.parsedRow, source)
+    : buildTransactionFingerprint(transactionText, source);
+  const vectorId = createTransactionId(fingerprint);
+
+  // Check the store before spending any LLM or embedding calls
+  const vectorProvider = storeInVector ? createVectorStorageProvider() : null;
+  const existingRecord = vectorProvider ? await vectorProvider.getById(vectorId) : null;
+  const possibleDuplicates = vectorProvider
+    ? await findPossibleDuplicates(fingerprint, vectorProvider, vectorId)
+    : [];
+
+  if (existingRecord) {
+    console.log(`♻️ Transaction ${vectorId} already stored - its record will be updated`);
+  }
+  if (possibleDuplicates.length > 0) {
+    console.warn(`⚠️ ${possibleDuplicates.length} possible duplicate(s) found for "${cleanedText}"`);
+  }
+
+  // Known merchants are categorized by their rule; the LLM still writes the summaries
+  const ruleStore = getMerchantRuleStore();
+  const rule = await ruleStore.findMatch(fingerprint.merchantKey, cleanedText);
+
+  // Prompt and validation follow the user's category taxonomy
+  const taxonomyStore = getCategoryTaxonomyStore();
+  const taxonomy = await taxonomyStore.get();
+  const categorySchema = await taxonomyStore.categorySchema();
   
-  // Generate prompt from schema
-  const schemaPrompt = generatePromptFromSchema(TransactionAnalysisSchema);
+  // Clear cases are labeled like their nearest stored neighbors, without an LLM call
+  const knn = !rule && options.classificationMode !== 'llm'
+    ? inTaxonomy(await classifyTextByNeighbors(cleanedText, vectorProvider ?? createVectorStorageProvider(), fingerprint, vectorId, options.knn), taxonomy)
+    : null;
+
+  let analysisFields: LlmAnalysis;
+  if (knn) {
+    analysisFields = {
+      ...templateSummaries(fingerprint, merchantTextOf({ transactionText, parsedRow: source.parsedRow }, cleanedText), knn, taxonomy),
+      transactionType: knn.transactionType,
+      category: knn.category,
+      confidence: knn.confidence,
+    };
+  } else {
+    // Generate the category choices from the taxonomy
+    const categoryPrompt = generatePromptFromSchema(categorySchema);
   
-  // Generate the transaction analysis (text fields only)
-  const analysisResult = await generateObject({
-    model: openai(process.env.MODEL ?? "gpt-4o"),
-    prompt: `
-      You are an expert Hebrew banking transaction analyzer for Israeli financial data.
+    // Generate the transaction analysis (text fields only)
+    const analysisResult = await generateObject({
+      model: openai(process.env.MODEL ?? "gpt-4o"),
+      prompt: `
+        You are an expert Hebrew banking transaction analyzer for Israeli financial data.
       
-      Analyze this transaction text: "${cleanedText}"
+        Analyze this transaction text: "${cleanedText}"
+        ${rule ? `This merchant is known: use ${describeRule(rule)}.` : ''}
       
-      IMPORTANT: The input may contain messy data like timestamps, mixed languages, or pre-existing categories. 
-      IGNORE all timestamps, English dates, and existing categories. Focus ONLY on:
-      - Merchant name (in Hebrew)
-      - Transaction amount 
-      - Transaction nature
+        IMPORTANT: The input may contain messy data like timestamps, mixed languages, or pre-existing categories. 
+        IGNORE all timestamps, English dates, and existing categories. Focus ONLY on:
+        - Merchant name (in Hebrew)
+        - Transaction amount 
+        - Transaction nature
       
-      You MUST return exactly these 4 fields:
-      1. summary: Hebrew transaction summary (exactly 50-200 characters)
-      2. englishSummary: English transaction summary (exactly 50-200 characters)  
-      3. transactionType: MUST be one of: "regular", "monthly", or "credit"
-      4. category: MUST be one of: "food_beverage", "transportation", "shopping_entertainment", "fuel", "healthcare", "education", "insurance", "mandatory_payments", "restaurants", "grocery", "clothing_shoes", "technology", "home_design", "sports_recreation", "banking_finance", "other"
+        You MUST return exactly these 5 fields:
+        1. summary: Hebrew transaction summary (exactly 50-200 characters)
+        2. englishSummary: English transaction summary (exactly 50-200 characters)  
+        3. transactionType: MUST be one of: "regular", "monthly", "credit", or "installment"
+        4. category: the most specific category that fits - a subcategory when one applies. ${categoryPrompt}
+        5. confidence: how sure you are of the category and type, from 0 (guess) to 1 (certain)
       
-      CRITICAL RULES:
-      - Both summaries MUST be at least 50 characters and at most 200 characters
-      - transactionType must be exactly one of the 3 allowed values
-      - category must be exactly one of the 16 allowed values
-      - Use proper Hebrew and English text
+        CRITICAL RULES:
+        - Both summaries MUST be at least 50 characters and at most 200 characters
+        - transactionType must be exactly one of the 4 allowed values
+        - category must be exactly one of the ${taxonomy.categories.length} category IDs listed above
+        - Use proper Hebrew and English text
       
-      Examples:
+        Examples:
       
-      Input: "אורבניקה 35"
-      Output:
-      - summary: "רכישה בחנות אורבניקה בסך 35 שקלים לקניית בגדים ואופנה יפה ומעוצבת"
-      - englishSummary: "Purchase at Urbanica store for 35 NIS for clothing and fashion items"
-      - transactionType: "regular"
-      - category: "clothing_shoes"
+        Input: "אורבניקה 35"
+        Output:
+        - summary: "רכישה בחנות אורבניקה בסך 35 שקלים לקניית בגדים ואופנה יפה ומעוצבת"
+        - englishSummary: "Purchase at Urbanica store for 35 NIS for clothing and fashion items"
+        - transactionType: "regular"
+        - category: "clothing_shoes"
+        - confidence: 0.9
       
-      Input: "עירית נתניה הוראת קבע 942.55"
-      Output:
-      - summary: "תשלום חודשי לעירית נתניה בסך 942.55 שקלים עבור מסים ותשלומי חובה עירוניים"
-      - englishSummary: "Monthly payment to Netanya Municipality for 942.55 NIS for taxes and mandatory payments"
-      - transactionType: "monthly"
-      - category: "mandatory_payments"
+        Input: "עירית נתניה הוראת קבע 942.55"
+        Output:
+        - summary: "תשלום חודשי לעירית נתניה בסך 942.55 שקלים עבור מסים ותשלומי חובה עירוניים"
+        - englishSummary: "Monthly payment to Netanya Municipality for 942.55 NIS for taxes and mandatory payments"
+        - transactionType: "monthly"
+        - category: "mandatory_payments"
+        - confidence: 0.95
       
-      Make sure your response is exactly in the required format with valid values only.
-    `,
-    schema: z.object({
-      summary: z.string().min(50, 'Summary must be at least 50 characters').max(200, 'Summary max 200 characters'),
-      englishSummary: z.string().min(50, 'English summary must be at least 50 characters').max(200, 'English summary max 200 characters'),
-      transactionType: z.enum(['regular', 'monthly', 'credit']).describe('Transaction type: regular, monthly, or credit'),
-      category: z.enum(['food_beverage', 'transportation', 'shopping_entertainment', 'fuel', 'healthcare', 'education', 'insurance', 'mandatory_payments', 'restaurants', 'grocery', 'clothing_shoes', 'technology', 'home_design', 'sports_recreation', 'banking_finance', 'other']).describe('Transaction category')
-    }),
-  }).catch(error => {
-    console.error('=== GENERATE OBJECT SCHEMA ERROR ===');
-    console.error('Input text:', cleanedText);
-    console.error('Error:', error);
-    console.error('Error message:', error?.message);
-    console.error('Error details:', JSON.stringify(error, null, 2));
-    console.error('=====================================');
-    throw error;
-  });
+        Make sure your response is exactly in the required format with valid values only.
+      `,
+      schema: llmAnalysisSchemaFor(categorySchema),
+    }).catch(error => {
+      console.error('=== GENERATE OBJECT SCHEMA ERROR ===');
+      console.error('Input text:', cleanedText);
+      console.error('Error:', error);
+      console.error('Error message:', error?.message);
+      console.error('Error details:', JSON.stringify(error, null, 2));
+      console.error('=====================================');
+      throw error;
+    });
+
+    analysisFields = analysisResult.object;
+  }
 
   // Use embedMany for better performance and cleaner code
   const embeddingResults = await embedMany({
     model: openai.embedding('text-embedding-3-small'),
     values: [
-      analysisResult.object.summary,
-      analysisResult.object.englishSummary
+      analysisFields.summary,
+      analysisFields.englishSummary
     ]
   });
 
   // Replace placeholder embeddings with real ones
-  const finalResult: TransactionAnalysis & { vectorId?: string; mutationId?: string } = {
-    summary: analysisResult.object.summary as string,
-    englishSummary: analysisResult.object.englishSummary as string,
-    transactionType: analysisResult.object.transactionType as TransactionAnalysis['transactionType'],
-    category: analysisResult.object.category as TransactionAnalysis['category'],
+  const finalResult: TransactionAnalysisResult = {
+    summary: analysisFields.summary,
+    englishSummary: analysisFields.englishSummary,
+    transactionType: resolveTransactionType(fingerprint, rule, analysisFields.transactionType),
+    category: rule?.category ?? analysisFields.category as TransactionAnalysis['category'],
+    categorySource: rule ? 'rule' : knn ? 'knn' : 'llm',
+    confidence: rule ? 1 : analysisFields.confidence,
+    merchantRuleId: rule?.id ?? null,
     summaryEmbedding: embeddingResults.embeddings[0],
-    englishSummaryEmbedding: embeddingResults.embeddings[1]
+    englishSummaryEmbedding: embeddingResults.embeddings[1],
+    pendingReview: false,
+    isReimport: existingRecord !== null,
+    possibleDuplicates
   };
 
-  // Store in vector database if requested
-  if (storeInVector) {
-    // Create the appropriate vector storage provider
-    const vectorProvider = createVectorStorageProvider();
-    
-    // Extract amount from the transaction text for metadata
-    const amountMatch = cleanedText.match(/[\d,]+\.?\d*/);
-    const amount = amountMatch ? parseFloat(amountMatch[0].replace(',', '')) : 0;
-    
-    // Generate unique ID for this transaction
-    const vectorId = `transaction_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    // Prepare vectors for storage (we'll store the Hebrew summary embedding as primary)
+  if (rule) {
+    await ruleStore.recordHits([rule.id]);
+  }
+
+  // Store in vector database if requested (the provider records it in the ledger first)
+  if (vectorProvider) {
     const vectors: VectorRecord[] = [
-      {
-        id: vectorId,
-        values: embeddingResults.embeddings[0], // Hebrew embedding
-        metadata: {
-          hebrewSummary: analysisResult.object.summary as string,
-          englishSummary: analysisResult.object.englishSummary as string,
-          transactionType: analysisResult.object.transactionType as string,
-          category: analysisResult.object.category as string,
-          amount: amount,
-          originalText: cleanedText,
-          createdAt: new Date().toISOString(),
-          embeddingModel: 'text-embedding-3-small'
-        }
-      }
+      buildTransactionVectorRecord(
+        vectorId,
+        finalResult,
+        cleanedText,
+        fingerprint,
+        await resolveIlsAmount(fingerprint),
+        {
+          ...await getHouseholdRegistryStore().linkSource(fingerprint),
+          statementId: await recordLedgerStatement(source, taxonomy),
+        },
+        existingRecord?.metadata
+      )
     ];
     
-
-    
-    const insertResult = await vectorProvider.insert(vectors);
-    
     finalResult.vectorId = vectorId;
-    finalResult.mutationId = insertResult.mutationId;
+
+    if (needsReview(finalResult, options.reviewThreshold)) {
+      // Unsure categorizations wait for the user instead of being committed
+      await getReviewQueueStore().enqueue([{ record: vectors[0], isReimport: finalResult.isReimport }]);
+      finalResult.pendingReview = true;
+    } else {
+      // Upsert: a re-import overwrites the existing record under the same ID
+      const insertResult = await vectorProvider.insert(vectors);
+      finalResult.mutationId = insertResult.mutationId;
+    }
   }
 
   return finalResult;
-}; 
\ No newline at end of file
+}; 
+
+export interface BatchTransactionInput {
+  transactionText: string;
+  parsedRow?: ParsedTransactionRow;
+}
+
+export interface BatchTransactionResult {
+  index: number;
+  transactionText: string;
+  status: 'stored' | 'updated' | 'pending_review' | 'analyzed' | 'failed';
+  analysis?: CategorizedAnalysis;
+  vectorId?: string;
+  isReimport: boolean;
+  possibleDuplicates: PossibleDuplicate[];
+  error?: string;
+}
+
+export interface BatchAnalysisResult {
+  results: BatchTransactionResult[];
+  mutationId?: string;
+  succeeded: number;
+  failed: number;
+  pendingReview: number;
+}
+
+interface BatchItem {
+  index: number;
+  transactionText: string;
+  cleanedText: string;
+  fingerprint: TransactionFingerprint;
+  vectorId: string;
+  existingRecord: VectorRecord | null;
+  possibleDuplicates: PossibleDuplicate[];
+  rule: MerchantRule | null;
+  knn?: KnnClassification | null;
+  llmAnalysis?: LlmAnalysis;
+  analysis?: CategorizedAnalysis;
+  pendingReview?: boolean;
+  error?: string;
+}
+
+/**
+ * Analyze many transactions of one statement: one LLM call per chunk, one embedding call
+ * and one insert for the whole batch. A failure only marks the transactions it affected.
+ */
+export const analyzeTransactionBatch = async (
+  transactions: BatchTransactionInput[],
+  storeInVector: boolean = true,
+  source: StatementSource = {},
+  options: { chunkSize?: number; concurrency?: number; classificationMode?: ClassificationMode; knn?: KnnOptions; reviewThreshold?: number } = {}
+): Promise<BatchAnalysisResult> => {
+  const chunkSize = options.chunkSize ?? DEFAULT_BATCH_CHUNK_SIZE;
+  const concurrency = options.concurrency ?? 1;
+  const seenIds = new Map<string, number>();
+
+  // Deterministic identity, as in single mode; identical rows in one batch are separate charges
+  const items: BatchItem[] = transactions.map((transaction, index) => {
+    const cleanedText = cleanTransactionText(transaction.transactionText);
+    const fingerprint = transaction.parsedRow
+      ? buildRowFingerprint(transaction.parsedRow, source)
+      : buildTransactionFingerprint(transaction.transactionText, source);
+
+    const baseId = createTransactionId(fingerprint);
+    const occurrence = seenIds.get(baseId) ?? 0;
+    seenIds.set(baseId, occurrence + 1);
+
+    return {
+      index,
+      transactionText: transaction.transactionText,
+      cleanedText,
+      fingerprint,
+      vectorId: createTransactionId(fingerprint, occurrence),
+      existingRecord: null,
+      possibleDuplicates: [],
+      rule: null,
+    };
+  });
+
+  const pending = () => items.filter(item => !item.error);
+
+  // Check the store before spending any LLM or embedding calls
+  const vectorProvider = storeInVector ? createVectorStorageProvider() : null;
+  if (vectorProvider) {
+    await mapWithConcurrency(items, Math.max(concurrency, 4), async item => {
+      try {
+        item.existingRecord = await vectorProvider.getById(item.vectorId);
+        item.possibleDuplicates = await findPossibleDuplicates(item.fingerprint, vectorProvider, item.vectorId);
+      } catch (error) {
+        item.error = `Lookup failed: ${errorMessage(error)}`;
+      }
+    });
+  }
+
+  // Merchant rules decide the category of known merchants before any LLM call
+  const ruleStore = getMerchantRuleStore();
+  for (const item of pending()) {
+    item.rule = await ruleStore.findMatch(item.fingerprint.merchantKey, item.cleanedText);
+  }
+
+  const taxonomyStore = getCategoryTaxonomyStore();
+  const taxonomy = await taxonomyStore.get();
+  const categorySchema = await taxonomyStore.categorySchema();
+
+  // Clear cases are labeled like their nearest stored neighbors: one embedding call, no LLM
+  const unruled = pending().filter(item => !item.rule);
+  if (options.classificationMode !== 'llm' && unruled.length > 0) {
+    try {
+      const searchProvider = vectorProvider ?? createVectorStorageProvider();
+      const textEmbeddings = await embedMany({
+        model: openai.embedding('text-embedding-3-small'),
+        values: unruled.map(item => item.cleanedText)
+      });
+
+      await mapWithConcurrency(unruled.map((item, i) => ({ item, embedding: textEmbeddings.embeddings[i] })), Math.max(concurrency, 4), async ({ item, embedding }) => {
+        item.knn = inTaxonomy(await classifyByNeighbors(embedding, searchProvider, { amount: item.fingerprint.amount, excludeId: item.vectorId }, options.knn), taxonomy);
+        if (item.knn) {
+          item.llmAnalysis = {
+            ...templateSummaries(item.fingerprint, merchantTextOf(transactions[item.index], item.cleanedText), item.knn, taxonomy),
+            transactionType: item.knn.transactionType,
+            category: item.knn.category,
+            confidence: item.knn.confidence,
+          };
+        }
+      });
+
+      console.log(`🧭 ${unruled.filter(item => item.knn).length} of ${unruled.length} transactions labeled by their nearest neighbors`);
+    } catch (error) {
+      // The LLM still categorizes everything when the neighbor lookup fails
+      console.warn(`⚠️ Nearest-neighbor categorization failed, using the LLM: ${errorMessage(error)}`);
+    }
+  }
+
+  // One structured LLM call per chunk
+  const chunks: BatchItem[][] = [];
+  const toAnalyze = pending().filter(item => !item.llmAnalysis);
+  for (let i = 0; i < toAnalyze.length; i += chunkSize) {
+    chunks.push(toAnalyze.slice(i, i + chunkSize));
+  }
+
+  console.log(`🧮 Analyzing ${toAnalyze.length} transactions in ${chunks.length} chunk(s)`);
+
+  await mapWithConcurrency(chunks, concurrency, async chunk => {
+    try {
+      const analyses = await analyzeChunk(chunk.map(item => ({ text: item.cleanedText, rule: item.rule })), categorySchema);
+      chunk.forEach((item, i) => {
+        const analysis = analyses.get(i);
+        if (analysis) {
+          item.llmAnalysis = analysis;
+        } else {
+          item.error = 'No valid analysis returned for this transaction';
+        }
+      });
+    } catch (error) {
+      console.error(`❌ Batch analysis failed for a chunk of ${chunk.length} transactions:`, error);
+      chunk.forEach(item => { item.error = `Analysis failed: ${errorMessage(error)}`; });
+    }
+  });
+
+  // One embedding call for every summary in the batch
+  const analyzed = pending();
+  if (analyzed.length > 0) {
+    try {
+      const embeddingResults = await embedMany({
+        model: openai.embedding('text-embedding-3-small'),
+        values: analyzed.flatMap(item => [item.llmAnalysis!.summary, item.llmAnalysis!.englishSummary])
+      });
+
+      analyzed.forEach((item, i) => {
+        item.analysis = {
+          ...item.llmAnalysis!,
+          transactionType: resolveTransactionType(item.fingerprint, item.rule, item.llmAnalysis!.transactionType),
+          category: item.rule?.category ?? item.llmAnalysis!.category,
+          categorySource: item.rule ? 'rule' : item.knn ? 'knn' : 'llm',
+          confidence: item.rule ? 1 : item.llmAnalysis!.confidence,
+          merchantRuleId: item.rule?.id ?? null,
+          summaryEmbedding: embeddingResults.embeddings[i * 2],
+          englishSummaryEmbedding: embeddingResults.embeddings[i * 2 + 1],
+        };
+      });
+    } catch (error) {
+      analyzed.forEach(item => { item.error = `Embedding failed: ${errorMessage(error)}`; });
+    }
+  }
+
+  await ruleStore.recordHits(pending().filter(item => item.rule).map(item => item.rule!.id));
+
+  // One insert for the whole batch (upsert, so re-imports overwrite their records);
+  // unsure categorizations go to the review queue instead
+  let mutationId: string | undefined;
+  const toStore = pending();
+  if (vectorProvider && toStore.length > 0) {
+    try {
+      const ilsAmounts = await Promise.all(toStore.map(item => resolveIlsAmount(item.fingerprint)));
+      const statementId = await recordLedgerStatement(source, taxonomy);
+      const registry = getHouseholdRegistryStore();
+      const owners: TransactionOwner[] = [];
+      for (const item of toStore) {
+        // One at a time: the first transaction of a new card or account registers it
+        owners.push(await registry.linkSource(item.fingerprint));
+      }
+      const records = toStore.map((item, i) => buildTransactionVectorRecord(
+        item.vectorId,
+        item.analysis!,
+        item.cleanedText,
+        item.fingerprint,
+        ilsAmounts[i],
+        { ...owners[i], statementId },
+        item.existingRecord?.metadata
+      ));
+
+      toStore.forEach(item => { item.pendingReview = needsReview(item.analysis!, options.reviewThreshold); });
+      await getReviewQueueStore().enqueue(records
+        .map((record, i) => ({ record, isReimport: toStore[i].existingRecord !== null }))
+        .filter((_, i) => toStore[i].pendingReview));
+
+      const toInsert = records.filter((_, i) => !toStore[i].pendingReview);
+      if (toInsert.length > 0) {
+        mutationId = (await vectorProvider.insert(toInsert)).mutationId;
+      }
+    } catch (error) {
+      toStore.forEach(item => { item.error = `Storage failed: ${errorMessage(error)}`; });
+    }
+  }
+
+  const results: BatchTransactionResult[] = items.map(item => ({
+    index: item.index,
+    transactionText: item.transactionText,
+    status: item.error
+      ? 'failed'
+      : !vectorProvider ? 'analyzed' : item.pendingReview ? 'pending_review' : item.existingRecord ? 'updated' : 'stored',
+    analysis: item.error ? undefined : item.analysis,
+    vectorId: vectorProvider && !item.error ? item.vectorId : undefined,
+    isReimport: item.existingRecord !== null,
+    possibleDuplicates: item.possibleDuplicates,
+    error: item.error,
+  }));
+
+  const failed = results.filter(result => result.status === 'failed').length;
+  const pendingReview = results.filter(result => result.status === 'pending_review').length;
+  console.log(`✅ Batch analysis done: ${results.length - failed} succeeded (${pendingReview} waiting for review), ${failed} failed`);
+
+  return { results, mutationId, succeeded: results.length - failed, failed, pendingReview };
+};
+
+/**
+ * Categorize one chunk of cleaned transaction texts in a single structured call.
+ * Returns the valid analyses keyed by position in the chunk.
+ */
+const analyzeChunk = async (
+  entries: Array<{ text: string; rule: MerchantRule | null }>,
+  categorySchema: z.ZodType<TransactionCategory>
+): Promise<Map<number, LlmAnalysis>> => {
+  const texts = entries.map(entry => entry.text);
+  const analysisSchema = llmAnalysisSchemaFor(categorySchema);
+
+  const result = await generateObject({
+    model: openai(process.env.MODEL ?? "gpt-4o"),
+    prompt: `
+      You are an expert Hebrew banking transaction analyzer for Israeli financial data.
+
+      Analyze each of these ${texts.length} transactions independently:
+      ${entries.map(({ text, rule }, index) => `${index}. "${text}"${rule ? ` (known merchant: use ${describeRule(rule)})` : ''}`).join('\n      ')}
+
+      IGNORE timestamps, English dates and pre-existing categories. Focus ONLY on the merchant name,
+      the transaction amount and the transaction nature.
+
+      Return exactly one entry per transaction, with its number as "index", and these fields:
+      1. summary: Hebrew transaction summary (exactly 50-200 characters)
+      2. englishSummary: English transaction summary (exactly 50-200 characters)
+      3. transactionType: MUST be one of: ${TransactionTypeSchema.options.map(option => `"${option.value}"`).join(', ')}
+      4. category: the most specific category that fits - a subcategory when one applies. ${generatePromptFromSchema(categorySchema)}
+      5. confidence: how sure you are of the category and type, from 0 (guess) to 1 (certain)
+
+      Example entry for "עירית נתניה הוראת קבע 942.55":
+      - summary: "תשלום חודשי לעירית נתניה בסך 942.55 שקלים עבור מסים ותשלומי חובה עירוניים"
+      - englishSummary: "Monthly payment to Netanya Municipality for 942.55 NIS for taxes and mandatory payments"
+      - transactionType: "monthly"
+      - category: "mandatory_payments"
+      - confidence: 0.95
+    `,
+    schema: llmBatchAnalysisSchema,
+  });
+
+  const analyses = new Map<number, LlmAnalysis>();
+  for (const { index, ...fields } of result.object.transactions) {
+    const parsed = analysisSchema.safeParse(fields);
+    if (parsed.success && index >= 0 && index < texts.length && !analyses.has(index)) {
+      analyses.set(index, parsed.data);
+    } else if (!parsed.success) {
+      console.warn(`⚠️ Invalid analysis for "${texts[index] ?? index}": ${parsed.error.issues[0]?.message}`);
+    }
+  }
+
+  return analyses;
+};
+
+/**
+ * Embed the cleaned text and classify it from its nearest stored neighbors; null sends it to the LLM
+ */
+const classifyTextByNeighbors = async (
+  cleanedText: string,
+  vectorProvider: VectorStorageProvider,
+  fingerprint: TransactionFingerprint,
+  vectorId: string,
+  options?: KnnOptions
+): Promise<KnnClassification | null> => {
+  try {
+    const textEmbedding = await embedMany({
+      model: openai.embedding('text-embedding-3-small'),
+      values: [cleanedText]
+    });
+
+    return await classifyByNeighbors(textEmbedding.embeddings[0], vectorProvider, { amount: fingerprint.amount, excludeId: vectorId }, options);
+  } catch (error) {
+    console.warn(`⚠️ Nearest-neighbor categorization failed, using the LLM: ${errorMessage(error)}`);
+    return null;
+  }
+};
+
+/**
+ * Merchant text for template summaries: the parsed row's merchant, or the text without dates and amounts
+ */
+const merchantTextOf = (transaction: BatchTransactionInput, cleanedText: string): string => {
+  return transaction.parsedRow?.merchant ?? parseTransactionText(cleanedText).merchantText;
+};
+
+/**
+ * Summaries of a transaction labeled by its neighbors, with the ILS amount when the statement has one
+ */
+const templateSummaries = (
+  fingerprint: TransactionFingerprint,
+  merchantText: string,
+  knn: KnnClassification,
+  taxonomy: CategoryTaxonomy
+): { summary: string; englishSummary: string } => {
+  const charged = fingerprint.chargedAmount !== null;
+  const category = taxonomy.categories.find(definition => definition.id === knn.category)!;
+
+  return buildTemplateSummaries({
+    merchantText: merchantText || fingerprint.merchantKey,
+    amount: charged ? fingerprint.chargedAmount! : fingerprint.originalAmount,
+    currency: charged ? 'ILS' : fingerprint.currency,
+    categoryLabels: category.labels,
+    transactionType: resolveTransactionType(fingerprint, null, knn.transactionType),
+  });
+};
+
+/**
+ * Drop a neighbor vote for a category the taxonomy no longer has, so the LLM picks a current one
+ */
+const inTaxonomy = (knn: KnnClassification | null, taxonomy: CategoryTaxonomy): KnnClassification | null => {
+  return knn && taxonomy.categories.some(category => category.id === knn.category) ? knn : null;
+};
+
+/**
+ * Prompt text for the category (and type) a merchant rule already decided
+ */
+const describeRule = (rule: MerchantRule): string => {
+  return `category "${rule.category}"${rule.transactionType ? ` and transactionType "${rule.transactionType}"` : ''}`;
+};
+
+/**
+ * Final transaction type: an installment counter wins, then the merchant rule (refunds and credits keep
+ * the analyzed type), then the LLM
+ */
+const resolveTransactionType = (
+  fingerprint: TransactionFingerprint,
+  rule: MerchantRule | null,
+  llmType: string
+): TransactionAnalysis['transactionType'] => {
+  if (fingerprint.installment) return 'installment';
+  if (rule?.transactionType && fingerprint.amount >= 0) return rule.transactionType;
+  return llmType as TransactionAnalysis['transactionType'];
+};
+
+/**
+ * Run an async mapper over items with at most `limit` calls in flight
+ */
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+const errorMessage = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+/**
+ * Account, member and ledger statement a stored transaction is linked to
+ */
+type TransactionLinks = TransactionOwner & { statementId: string | null };
+
+/**
+ * Record the statement being imported, and the categories its transactions may reference, in the ledger
+ */
+const recordLedgerStatement = async (source: StatementSource, taxonomy: CategoryTaxonomy): Promise<string | null> => {
+  const ledger = getTransactionLedger();
+  await ledger.syncCategories(taxonomy);
+  return ledger.recordStatement(source);
+};
+
+/**
+ * Build the vector record for an analyzed transaction (the Hebrew summary embedding is stored as primary).
+ * `amount` holds the ILS amount so filters and totals work across currencies.
+ * The account and member come from the household registry (see linkSource), the statement from the ledger.
+ * On a re-import the creation time and refund links of the existing record are kept.
+ */
+export const buildTransactionVectorRecord = (
+  vectorId: string,
+  analysis: CategorizedAnalysis,
+  cleanedText: string,
+  fingerprint: TransactionFingerprint,
+  ilsAmount: IlsAmount,
+  links: TransactionLinks,
+  existing?: VectorMetadata
+): VectorRecord => {
+  const now = new Date().toISOString();
+
+  return {
+    id: vectorId,
+    values: analysis.summaryEmbedding, // Hebrew embedding
+    metadata: {
+      hebrewSummary: analysis.summary,
+      englishSummary: analysis.englishSummary,
+      transactionType: analysis.transactionType,
+      category: analysis.category,
+      categorySource: analysis.categorySource,
+      categoryConfidence: analysis.confidence,
+      merchantRuleId: analysis.merchantRuleId,
+      amount: ilsAmount.amount,
+      amountSource: ilsAmount.amountSource,
+      exchangeRate: ilsAmount.exchangeRate,
+      currency: fingerprint.currency,
+      originalAmount: fingerprint.originalAmount,
+      chargedAmount: fingerprint.chargedAmount,
+      originalText: cleanedText,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      embeddingModel: 'text-embedding-3-small',
+      transactionDate: fingerprint.transactionDate,
+      chargeDate: fingerprint.chargeDate,
+      ...buildInstallmentMetadata(fingerprint, ilsAmount),
+      cardLastFour: fingerprint.cardLastFour,
+      bankAccountNumber: links.bankAccountNumber,
+      memberId: links.memberId,
+      statementId: links.statementId ?? existing?.statementId ?? null,
+      merchantKey: fingerprint.merchantKey,
+      refundOf: existing?.refundOf ?? null,
+      refundMatchScore: existing?.refundMatchScore ?? null,
+      refundStatus: existing?.refundStatus ?? null,
+      refundedAmount: existing?.refundedAmount ?? null
+    }
+  };
+};
@@ -0,0 +1,594 @@
+// Export stored transactions to CSV, JSON, OFX, QIF and the YNAB / Actual Budget import formats
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ENV } from '../../config/environment';
+import {
+  CategoryTaxonomy,
+  ExportCategoryMapping,
+  ExportCategoryMappingSchema,
+  ExportFormat,
+  ExportFormatSchema,
+  TransactionCategorySchema,
+  TransactionTypeSchema,
+  UnconvertedTransaction,
+  UnconvertedTransactionSchema
+} from './types';
+import { VectorMetadata } from './providers/base';
+import { createVectorStorageProvider } from './providers/factory';
+import { listAllTransactions } from './stored-transactions';
+import { getCategoryTaxonomyStore } from './category-taxonomy';
+import { getHouseholdRegistryStore } from './household-registry';
+import { parseTransactionText } from './parsers';
+import { hasIlsAmount, toUnconvertedTransaction } from './exchange-rates';
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: 'csv',
+  json: 'json',
+  ofx: 'ofx',
+  qif: 'qif',
+  ynab: 'csv',
+  actual: 'csv',
+};
+
+// Formats other budgeting apps import: their amounts are ILS only
+const FILE_IMPORT_FORMATS: ExportFormat[] = ['ofx', 'qif', 'ynab', 'actual'];
+
+// OFX limits NAME to 32 characters and MEMO to 255
+const OFX_NAME_LENGTH = 32;
+const OFX_MEMO_LENGTH = 255;
+
+interface ExportCategoryMappingFile {
+  version: 1;
+  mappings: ExportCategoryMapping[];
+}
+
+export interface TransactionExportFilters {
+  category?: string;
+  transactionType?: string;
+  cardLastFour?: string;
+  bankAccountNumber?: string;
+  memberId?: string;
+  currency?: string;
+}
+
+export interface TransactionExportOptions {
+  format: ExportFormat;
+  fromDate: string;
+  toDate: string;
+  filters?: TransactionExportFilters;
+}
+
+export interface TransactionExport {
+  format: ExportFormat;
+  fromDate: string;
+  toDate: string;
+  transactionCount: number;
+  fileExtension: string;
+  content: string;
+  /** Foreign transactions without an exchange rate, left out of OFX, QIF, YNAB and Actual files */
+  unconverted: UnconvertedTransaction[];
+}
+
+interface ExportRow {
+  id: string;
+  transactionDate: string;
+  chargeDate: string | null;
+  payee: string;
+  hebrewSummary: string;
+  englishSummary: string;
+  category: string;
+  categoryName: string;
+  transactionType: string;
+  /** ILS, null for a foreign amount without an exchange rate */
+  amount: number | null;
+  currency: string;
+  originalAmount: number;
+  cardLastFour: string | null;
+  bankAccountNumber: string | null;
+  memberId: string | null;
+  originalText: string;
+}
+
+type IlsExportRow = ExportRow & { amount: number };
+
+export class ExportCategoryMappingStore {
+  private filePath: string;
+  private mappings: Map<ExportFormat, ExportCategoryMapping> | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string = 'data/export-category-mappings.json') {
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Mapping of one format; an empty mapping when none was saved, so every category uses its default name
+   */
+  async get(format: ExportFormat): Promise<ExportCategoryMapping> {
+    return (await this.load()).get(format) ?? { format, categories: {}, updatedAt: null };
+  }
+
+  async list(): Promise<ExportCategoryMapping[]> {
+    return Array.from((await this.load()).values()).sort((a, b) => a.format.localeCompare(b.format));
+  }
+
+  /**
+   * Set the exported names of categories for a format. A null name removes the mapping, so the category
+   * goes back to its default name.
+   */
+  async save(format: ExportFormat, categories: Record<string, string | null>): Promise<ExportCategoryMapping> {
+    console.log(`🏷️ Saving ${Object.keys(categories).length} ${format} export category names`);
+
+    return this.mutate(mappings => {
+      const current = { ...(mappings.get(format)?.categories ?? {}) };
+      for (const [category, name] of Object.entries(categories)) {
+        if (name) {
+          current[category] = name;
+        } else {
+          delete current[category];
+        }
+      }
+
+      const mapping: ExportCategoryMapping = { format, categories: current, updatedAt: new Date().toISOString() };
+      mappings.set(format, mapping);
+      return mapping;
+    });
+  }
+
+  /**
+   * Move the names of renamed or merged categories to their new category. When the new category already has
+   * a name for a format, it is kept.
+   */
+  async recategorize(fromCategories: string[], toCategory: string): Promise<number> {
+    return this.mutate(mappings => {
+      let moved = 0;
+
+      for (const mapping of Array.from(mappings.values())) {
+        const names = fromCategories.filter(category => mapping.categories[category]);
+        if (names.length === 0) continue;
+
+        const categories = { ...mapping.categories };
+        categories[toCategory] ??= categories[names[0]];
+        names.forEach(category => delete categories[category]);
+
+        mappings.set(mapping.format, { ...mapping, categories, updatedAt: new Date().toISOString() });
+        moved += names.length;
+      }
+      return moved;
+    });
+  }
+
+  private mutate<T>(change: (mappings: Map<ExportFormat, ExportCategoryMapping>) => T): Promise<T> {
+    const run = this.writeQueue.then(async () => {
+      const result = change(await this.load());
+      await this.persist();
+      return result;
+    });
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<Map<ExportFormat, ExportCategoryMapping>> {
+    if (this.mappings) return this.mappings;
+
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as ExportCategoryMappingFile;
+      this.mappings = new Map(data.mappings.map(mapping => [mapping.format, mapping]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      // No category names set yet
+      this.mappings = new Map();
+    }
+
+    return this.mappings;
+  }
+
+  private async persist(): Promise<void> {
+    const data: ExportCategoryMappingFile = {
+      version: 1,
+      mappings: Array.from(this.mappings?.values() ?? []),
+    };
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+let exportCategoryMappingStore: ExportCategoryMappingStore | null = null;
+
+export const getExportCategoryMappingStore = (): ExportCategoryMappingStore => {
+  exportCategoryMappingStore ??= new ExportCategoryMappingStore(ENV.exportCategoryMappingsPath);
+  return exportCategoryMappingStore;
+};
+
+/**
+ * Name a category is exported under: its mapped name, else its parent's mapped name, else its English label.
+ * QIF writes subcategories as "Parent:Subcategory", which QIF importers read as a category hierarchy.
+ */
+const exportedCategoryName = (
+  format: ExportFormat,
+  category: string,
+  taxonomy: CategoryTaxonomy,
+  mapping: ExportCategoryMapping
+): string => {
+  const definition = taxonomy.categories.find(known => known.id === category);
+  const parent = definition?.parentId ? taxonomy.categories.find(known => known.id === definition.parentId) : undefined;
+
+  const mapped = mapping.categories[category] ?? (parent && mapping.categories[parent.id]);
+  if (mapped) return mapped;
+  if (!definition) return category;
+
+  return format === 'qif' && parent ? `${parent.labels.en}:${definition.labels.en}` : definition.labels.en;
+};
+
+const toExportRow = (
+  id: string,
+  metadata: VectorMetadata,
+  categoryName: string
+): ExportRow => ({
+  id,
+  // The date range filter only returns dated transactions
+  transactionDate: metadata.transactionDate!,
+  chargeDate: metadata.chargeDate,
+  payee: parseTransactionText(metadata.originalText).merchantText || metadata.originalText,
+  hebrewSummary: metadata.hebrewSummary,
+  englishSummary: metadata.englishSummary,
+  category: metadata.category,
+  categoryName,
+  transactionType: metadata.transactionType,
+  amount: hasIlsAmount(metadata) ? metadata.amount : null,
+  currency: metadata.currency,
+  originalAmount: metadata.originalAmount,
+  cardLastFour: metadata.cardLastFour,
+  bankAccountNumber: metadata.bankAccountNumber,
+  memberId: metadata.memberId,
+  originalText: metadata.originalText,
+});
+
+const formatAmount = (amount: number): string => (Math.round(amount * 100) / 100).toFixed(2);
+
+const hasIlsExportAmount = (row: ExportRow): row is IlsExportRow => row.amount !== null;
+
+const csvField = (value: string | number | null): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLines = (header: string[], lines: Array<Array<string | number | null>>): string =>
+  [header, ...lines].map(line => line.map(csvField).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Every field of the transaction, with a UTF-8 BOM so Excel opens the Hebrew text correctly.
+ * Amounts keep the stored sign: positive for money out, negative for credits. The ILS amount is empty
+ * for a foreign amount without an exchange rate.
+ */
+const renderCsv = (rows: ExportRow[]): string => '\uFEFF' + csvLines(
+  ['id', 'date', 'chargeDate', 'hebrewSummary', 'englishSummary', 'category', 'categoryId', 'transactionType',
+    'amountIls', 'currency', 'originalAmount', 'cardLastFour', 'bankAccountNumber', 'memberId', 'originalText'],
+  rows.map(row => [row.id, row.transactionDate, row.chargeDate, row.hebrewSummary, row.englishSummary, row.categoryName,
+    row.category, row.transactionType, row.amount === null ? null : formatAmount(row.amount), row.currency, formatAmount(row.originalAmount),
+    row.cardLastFour, row.bankAccountNumber, row.memberId, row.originalText])
+);
+
+const renderJson = (rows: ExportRow[], options: TransactionExportOptions): string => JSON.stringify({
+  version: 1,
+  exportedAt: new Date().toISOString(),
+  fromDate: options.fromDate,
+  toDate: options.toDate,
+  filters: options.filters ?? {},
+  transactions: rows.map(({ payee, ...row }) => row),
+}, null, 2);
+
+/**
+ * YNAB file import: one outflow or inflow column per transaction
+ */
+const renderYnab = (rows: IlsExportRow[]): string => csvLines(
+  ['Date', 'Payee', 'Category', 'Memo', 'Outflow', 'Inflow'],
+  rows.map(row => [row.transactionDate, row.payee, row.categoryName, row.englishSummary,
+    row.amount > 0 ? formatAmount(row.amount) : '', row.amount < 0 ? formatAmount(-row.amount) : ''])
+);
+
+/**
+ * Actual Budget CSV import: a single signed amount, negative for money out
+ */
+const renderActual = (rows: IlsExportRow[]): string => csvLines(
+  ['Date', 'Payee', 'Notes', 'Category', 'Amount'],
+  rows.map(row => [row.transactionDate, row.payee, row.englishSummary, row.categoryName, formatAmount(-row.amount)])
+);
+
+interface ExportAccount {
+  kind: 'card' | 'bank';
+  id: string;
+  name: string;
+  rows: IlsExportRow[];
+}
+
+/**
+ * OFX and QIF hold one statement per account: transactions are grouped by card, then by bank account
+ */
+const groupByAccount = async (rows: IlsExportRow[]): Promise<ExportAccount[]> => {
+  const registry = getHouseholdRegistryStore();
+  const cardLabels = new Map((await registry.listCards()).map(card => [card.lastFour, card.label]));
+  const accountLabels = new Map((await registry.listAccounts()).map(account => [account.accountNumber, account.label]));
+  const accounts = new Map<string, ExportAccount>();
+
+  for (const row of rows) {
+    const account: Omit<ExportAccount, 'rows'> = row.cardLastFour
+      ? { kind: 'card', id: row.cardLastFour, name: cardLabels.get(row.cardLastFour) ?? `Card ${row.cardLastFour}` }
+      : row.bankAccountNumber
+        ? { kind: 'bank', id: row.bankAccountNumber, name: accountLabels.get(row.bankAccountNumber) ?? `Account ${row.bankAccountNumber}` }
+        : { kind: 'bank', id: 'unassigned', name: 'Unassigned' };
+
+    const key = `${account.kind}:${account.id}`;
+    if (!accounts.has(key)) {
+      accounts.set(key, { ...account, rows: [] });
+    }
+    accounts.get(key)!.rows.push(row);
+  }
+
+  return Array.from(accounts.values());
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const ofxDate = (date: string): string => date.replace(/-/g, '');
+
+/**
+ * OFX 2.2 (XML): a credit card statement per card and a checking account statement per bank account.
+ * The ledger balance is the net of the exported transactions, not the real balance of the account.
+ */
+const renderOfx = (accounts: ExportAccount[], options: TransactionExportOptions): string => {
+  const now = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  const status = '<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>';
+
+  const statement = (account: ExportAccount, index: number): string => {
+    const transactions = account.rows.map(row => [
+      '<STMTTRN>',
+      `<TRNTYPE>${row.amount < 0 ? 'CREDIT' : 'DEBIT'}</TRNTYPE>`,
+      `<DTPOSTED>${ofxDate(row.transactionDate)}</DTPOSTED>`,
+      `<TRNAMT>${formatAmount(-row.amount)}</TRNAMT>`,
+      `<FITID>${escapeXml(row.id)}</FITID>`,
+      `<NAME>${escapeXml(row.payee.slice(0, OFX_NAME_LENGTH))}</NAME>`,
+      `<MEMO>${escapeXml(`${row.categoryName} - ${row.englishSummary}`.slice(0, OFX_MEMO_LENGTH))}</MEMO>`,
+      '</STMTTRN>',
+    ].join(''));
+    const balance = formatAmount(-account.rows.reduce((sum, row) => sum + row.amount, 0));
+    const transactionList = `<BANKTRANLIST><DTSTART>${ofxDate(options.fromDate)}</DTSTART><DTEND>${ofxDate(options.toDate)}</DTEND>\n${transactions.join('\n')}\n</BANKTRANLIST>`;
+    const ledgerBalance = `<LEDGERBAL><BALAMT>${balance}</BALAMT><DTASOF>${ofxDate(options.toDate)}</DTASOF></LEDGERBAL>`;
+
+    return account.kind === 'card'
+      ? `<CCSTMTTRNRS><TRNUID>${index + 1}</TRNUID>${status}<CCSTMTRS><CURDEF>ILS</CURDEF><CCACCTFROM><ACCTID>${escapeXml(account.id)}</ACCTID></CCACCTFROM>\n${transactionList}\n${ledgerBalance}</CCSTMTRS></CCSTMTTRNRS>`
+      : `<STMTTRNRS><TRNUID>${index + 1}</TRNUID>${status}<STMTRS><CURDEF>ILS</CURDEF><BANKACCTFROM><BANKID>0</BANKID><ACCTID>${escapeXml(account.id)}</ACCTID><ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>\n${transactionList}\n${ledgerBalance}</STMTRS></STMTTRNRS>`;
+  };
+
+  const statements = accounts.map((account, index) => ({ account, body: statement(account, index) }));
+  const bank = statements.filter(({ account }) => account.kind === 'bank').map(({ body }) => body);
+  const cards = statements.filter(({ account }) => account.kind === 'card').map(({ body }) => body);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>',
+    '<OFX>',
+    `<SIGNONMSGSRSV1><SONRS>${status}<DTSERVER>${now}</DTSERVER><LANGUAGE>HEB</LANGUAGE></SONRS></SIGNONMSGSRSV1>`,
+    ...(bank.length > 0 ? ['<BANKMSGSRSV1>', ...bank, '</BANKMSGSRSV1>'] : []),
+    ...(cards.length > 0 ? ['<CREDITCARDMSGSRSV1>', ...cards, '</CREDITCARDMSGSRSV1>'] : []),
+    '</OFX>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * QIF: an !Account block per card or bank account, followed by its transactions (dates as MM/DD/YYYY)
+ */
+const renderQif = (accounts: ExportAccount[]): string => {
+  const qifDate = (date: string): string => `${date.slice(5, 7)}/${date.slice(8, 10)}/${date.slice(0, 4)}`;
+  // QIF fields are one line each
+  const line = (text: string): string => text.replace(/[\r\n]+/g, ' ');
+
+  return accounts.flatMap(account => {
+    const type = account.kind === 'card' ? 'CCard' : 'Bank';
+    return [
+      '!Account',
+      `N${line(account.name)}`,
+      `T${type}`,
+      '^',
+      `!Type:${type}`,
+      ...account.rows.flatMap(row => [
+        `D${qifDate(row.transactionDate)}`,
+        `T${formatAmount(-row.amount)}`,
+        `P${line(row.payee)}`,
+        `M${line(row.englishSummary)}`,
+        `L${line(row.categoryName)}`,
+        '^',
+      ]),
+    ];
+  }).join('\n') + '\n';
+};
+
+/**
+ * Render the stored transactions of a date range in an export format. A category filter includes its subcategories.
+ */
+export const exportTransactions = async (options: TransactionExportOptions): Promise<TransactionExport> => {
+  if (options.fromDate > options.toDate) {
+    throw new Error(`fromDate ${options.fromDate} is after toDate ${options.toDate}`);
+  }
+
+  const { category, ...filters } = options.filters ?? {};
+  const taxonomy = await getCategoryTaxonomyStore().get();
+  const mapping = await getExportCategoryMappingStore().get(options.format);
+
+  const records = await listAllTransactions(createVectorStorageProvider(), {
+    ...filters,
+    fromDate: options.fromDate,
+    toDate: options.toDate,
+  });
+
+  const rows = records
+    .filter(({ metadata }) => !category || metadata.category === category
+      || taxonomy.categories.find(definition => definition.id === metadata.category)?.parentId === category)
+    .sort((a, b) => a.metadata.transactionDate!.localeCompare(b.metadata.transactionDate!) || a.id.localeCompare(b.id));
+
+  // CSV and JSON keep every transaction; the import formats would read a foreign amount as ILS, so they leave it out
+  const unconverted = FILE_IMPORT_FORMATS.includes(options.format)
+    ? rows.filter(({ metadata }) => !hasIlsAmount(metadata)).map(toUnconvertedTransaction)
+    : [];
+  const exportRows = rows.map(({ id, metadata }) =>
+    toExportRow(id, metadata, exportedCategoryName(options.format, metadata.category, taxonomy, mapping)));
+  const ilsRows = exportRows.filter(hasIlsExportAmount);
+
+  console.log(`📤 Exporting ${rows.length - unconverted.length} transactions from ${options.fromDate} to ${options.toDate} as ${options.format}`);
+  if (unconverted.length > 0) {
+    console.warn(`⚠️ ${unconverted.length} foreign transaction(s) without an exchange rate left out of the ${options.format} file`);
+  }
+
+  let content: string;
+  switch (options.format) {
+    case 'csv':
+      content = renderCsv(exportRows);
+      break;
+    case 'json':
+      content = renderJson(exportRows, options);
+      break;
+    case 'ynab':
+      content = renderYnab(ilsRows);
+      break;
+    case 'actual':
+      content = renderActual(ilsRows);
+      break;
+    case 'ofx':
+      content = renderOfx(await groupByAccount(ilsRows), options);
+      break;
+    case 'qif':
+      content = renderQif(await groupByAccount(ilsRows));
+      break;
+  }
+
+  return {
+    format: options.format,
+    fromDate: options.fromDate,
+    toDate: options.toDate,
+    transactionCount: rows.length - unconverted.length,
+    fileExtension: FILE_EXTENSIONS[options.format],
+    content,
+    unconverted,
+  };
+};
+
+/**
+ * Export to a file, creating its directory
+ */
+export const writeTransactionExport = async (
+  options: TransactionExportOptions & { outputPath: string }
+): Promise<TransactionExport & { outputPath: string }> => {
+  const result = await exportTransactions(options);
+  const outputPath = path.resolve(options.outputPath);
+
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, result.content, 'utf-8');
+
+  console.log(`✅ Wrote ${result.transactionCount} transactions to ${outputPath}`);
+  return { ...result, outputPath };
+};
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const exportTransactionsTool = createTool({
+  id: 'export-transactions',
+  description: 'Export the stored transactions of a date range to CSV (UTF-8 with BOM, for Excel), JSON, OFX, QIF, or the YNAB / Actual Budget import formats, with Hebrew and English summaries, category, type, card and date. Categories use the names saved for the format.',
+  inputSchema: z.object({
+    format: ExportFormatSchema,
+    fromDate: dateSchema.describe('First transaction date (YYYY-MM-DD)'),
+    toDate: dateSchema.describe('Last transaction date (YYYY-MM-DD)'),
+    category: TransactionCategorySchema.optional().describe('Only this category (a parent category includes its subcategories)'),
+    transactionType: TransactionTypeSchema.optional(),
+    cardLastFour: z.string().optional(),
+    bankAccountNumber: z.string().optional(),
+    memberId: z.string().optional().describe('Household member ID'),
+    currency: z.string().optional().describe('Original currency, e.g. USD'),
+    outputPath: z.string().optional().describe('File to write, e.g. exports/2026-q1.ofx; without it the content is returned (keep to small exports)'),
+  }),
+  outputSchema: z.object({
+    format: ExportFormatSchema,
+    fromDate: z.string(),
+    toDate: z.string(),
+    transactionCount: z.number(),
+    outputPath: z.string().nullable().describe('Absolute path of the written file'),
+    content: z.string().nullable().describe('Exported content, when no outputPath was given'),
+    unconverted: z.array(UnconvertedTransactionSchema).describe('Foreign transactions without an exchange rate, left out of OFX, QIF, YNAB and Actual files'),
+  }),
+  execute: async ({ context }) => {
+    const { format, fromDate, toDate, outputPath, ...filters } = context;
+    const options: TransactionExportOptions = { format, fromDate, toDate, filters };
+
+    if (outputPath) {
+      const result = await writeTransactionExport({ ...options, outputPath });
+      return { format, fromDate, toDate, transactionCount: result.transactionCount, outputPath: result.outputPath, content: null, unconverted: result.unconverted };
+    }
+
+    const result = await exportTransactions(options);
+    return { format, fromDate, toDate, transactionCount: result.transactionCount, outputPath: null, content: result.content, unconverted: result.unconverted };
+  },
+});
+
+export const saveExportCategoryMappingTool = createTool({
+  id: 'save-export-category-mapping',
+  description: 'Set the category names written when exporting to a format, e.g. the category names of the user\'s YNAB budget. Subcategories without a name use their parent\'s; a null name goes back to the English label.',
+  inputSchema: z.object({
+    format: ExportFormatSchema,
+    categories: z.record(z.string().min(1).nullable())
+      .describe('Exported name by category ID, e.g. { "groceries": "Food: Groceries" }'),
+  }),
+  outputSchema: ExportCategoryMappingSchema,
+  execute: async ({ context }) => {
+    const taxonomyStore = getCategoryTaxonomyStore();
+    for (const category of Object.keys(context.categories)) {
+      await taxonomyStore.assertCategory(category);
+    }
+    return await getExportCategoryMappingStore().save(context.format, context.categories);
+  },
+});
+
+export const listExportCategoryMappingsTool = createTool({
+  id: 'list-export-category-mappings',
+  description: 'List the category names each export format uses, both saved names and the defaults',
+  inputSchema: z.object({
+    format: ExportFormatSchema.optional().describe('Only this format'),
+  }),
+  outputSchema: z.object({
+    mappings: z.array(z.object({
+      format: ExportFormatSchema,
+      categories: z.array(z.object({
+        category: z.string(),
+        name: z.string(),
+        saved: z.boolean().describe('Whether the name was saved for the format, rather than the default'),
+      })),
+    })),
+  }),
+  execute: async ({ context }) => {
+    const taxonomy = await getCategoryTaxonomyStore().get();
+    const store = getExportCategoryMappingStore();
+    const formats = context.format ? [context.format] : ExportFormatSchema.options;
+
+    const mappings = [];
+    for (const format of formats) {
+      const mapping = await store.get(format);
+      mappings.push({
+        format,
+        categories: taxonomy.categories.map(definition => ({
+          category: definition.id,
+          name: exportedCategoryName(format, definition.id, taxonomy, mapping),
+          saved: definition.id in mapping.categories,
+        })),
+      });
+    }
+    return { mappings };
+  },
+});
@@ -0,0 +1,237 @@
+import { createHash } from 'crypto';
+import { VectorMetadataFilters, VectorStorageProvider } from './providers/base';
+import { listAllTransactions } from './stored-transactions';
+import { Installment, ParsedTransactionRow } from './types';
+import { parseDate, parseTransactionText } from './parsers';
+
+/**
+ * Normalized view of a transaction used for deterministic IDs and duplicate detection.
+ * Everything here is derived from the raw text without any LLM or embedding call.
+ */
+export interface TransactionFingerprint {
+  cardLastFour: string | null;
+  bankAccountNumber: string | null;
+  transactionDate: string | null;  // ISO YYYY-MM-DD
+  amount: number;                  // ILS charged amount when known, otherwise the original amount
+  currency: string;                // ISO 4217 currency of the original amount
+  originalAmount: number;
+  chargedAmount: number | null;    // ILS, null for foreign amounts without a charge
+  chargeDate: string | null;       // ISO YYYY-MM-DD charge or value date, when the export has one
+  installment: Installment | null; // "תשלום 3 מתוך 12" position of an installment payment
+  merchantKey: string;             // Lowercased merchant text without dates, amounts and currency marks
+}
+
+/**
+ * Statement a transaction comes from, as extracted from its header
+ */
+export interface StatementSource {
+  lastFourDigits?: string;
+  bankAccountNumber?: string;
+  statementDate?: string;          // DD/MM/YYYY charge date of a card statement
+}
+
+export interface PossibleDuplicate {
+  id: string;
+  similarity: number;
+  originalText: string;
+  transactionDate: string | null;
+  amount: number;
+}
+
+// Tolerances for treating two stored transactions as "near-identical"
+const DUPLICATE_AMOUNT_TOLERANCE = 0.01;
+const DUPLICATE_DATE_WINDOW_DAYS = 3;
+const DUPLICATE_MERCHANT_SIMILARITY = 0.8;
+
+const AMOUNT_PATTERN = /-?\d{1,3}(?:,\d{3})+(?:\.\d+)?|-?\d+(?:\.\d+)?/g;
+
+/**
+ * Unicode-normalize text and strip bidi control marks that Hebrew exports often contain
+ */
+const normalizeText = (text: string): string => {
+  return text
+    .normalize('NFKC')
+    .replace(/[\u200e\u200f\u202a-\u202e\u2066-\u2069]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Normalized merchant text: no amounts, currency marks or punctuation, lowercased
+ */
+export const buildMerchantKey = (merchantText: string): string => {
+  return merchantText
+    .replace(AMOUNT_PATTERN, ' ')
+    .replace(/[₪$€]|ש["״]ח|(?<!\p{L})(?:שח|nis|ils)(?!\p{L})/giu, ' ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+};
+
+/**
+ * Card rows without their own charge date are charged on the statement's date; bank rows move money on their own date
+ */
+const statementChargeDate = (cardLastFour: string | null, source: StatementSource): string | null => {
+  return cardLastFour && source.statementDate ? parseDate(source.statementDate) : null;
+};
+
+/**
+ * Build the normalized fingerprint of a transaction row
+ */
+export const buildTransactionFingerprint = (
+  transactionText: string,
+  source: StatementSource = {}
+): TransactionFingerprint => {
+  const parsed = parseTransactionText(transactionText);
+  const originalAmount = parsed.originalAmount ?? 0;
+
+  return {
+    cardLastFour: source.lastFourDigits ?? null,
+    bankAccountNumber: source.bankAccountNumber ?? null,
+    transactionDate: parsed.transactionDate,
+    amount: parsed.chargedAmount ?? originalAmount,
+    currency: parsed.currency,
+    originalAmount,
+    chargedAmount: parsed.chargedAmount,
+    chargeDate: statementChargeDate(source.lastFourDigits ?? null, source),
+    installment: parsed.installment,
+    merchantKey: buildMerchantKey(parsed.merchantText),
+  };
+};
+
+/**
+ * Build the fingerprint of a row from the deterministic parser - no text heuristics needed
+ */
+export const buildRowFingerprint = (
+  row: ParsedTransactionRow,
+  source: StatementSource = {}
+): TransactionFingerprint => {
+  const cardLastFour = row.cardLastFour ?? source.lastFourDigits ?? null;
+
+  return {
+    cardLastFour,
+    bankAccountNumber: source.bankAccountNumber ?? null,
+    transactionDate: row.date,
+    amount: row.chargedAmount ?? row.originalAmount,
+    currency: row.currency,
+    originalAmount: row.originalAmount,
+    chargedAmount: row.chargedAmount,
+    chargeDate: row.chargeDate ?? statementChargeDate(cardLastFour, source),
+    installment: row.installment,
+    merchantKey: buildMerchantKey(normalizeText(row.merchant)),
+  };
+};
+
+/**
+ * Deterministic transaction ID - the same normalized transaction always maps to the same ID,
+ * so re-importing a statement upserts existing records instead of adding new ones.
+ * `occurrence` tells apart identical rows within one statement (e.g. two equal coffees on the same day).
+ * Installment payments share the purchase date, amount and merchant, so their position is part of the key.
+ */
+export const createTransactionId = (fingerprint: TransactionFingerprint, occurrence: number = 0): string => {
+  const key = [
+    fingerprint.cardLastFour ?? fingerprint.bankAccountNumber ?? '',
+    fingerprint.transactionDate ?? '',
+    fingerprint.amount.toFixed(2),
+    fingerprint.merchantKey,
+    ...(fingerprint.installment ? [`installment ${fingerprint.installment.number}/${fingerprint.installment.total}`] : []),
+    ...(occurrence > 0 ? [`#${occurrence}`] : []),
+  ].join('|');
+
+  return `transaction_${createHash('sha256').update(key).digest('hex').slice(0, 32)}`;
+};
+
+/**
+ * Shared ID of all payments of one installment deal: same source, purchase date, merchant and number of payments
+ */
+export const createInstallmentGroupId = (fingerprint: TransactionFingerprint): string | null => {
+  if (!fingerprint.installment) return null;
+
+  const key = [
+    fingerprint.cardLastFour ?? fingerprint.bankAccountNumber ?? '',
+    fingerprint.transactionDate ?? '',
+    fingerprint.merchantKey,
+    fingerprint.installment.total,
+  ].join('|');
+
+  return `installments_${createHash('sha256').update(key).digest('hex').slice(0, 32)}`;
+};
+
+/**
+ * Token-set similarity (Jaccard) between two merchant keys
+ */
+export const merchantSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  if (a.replace(/\s/g, '') === b.replace(/\s/g, '')) return 1;
+
+  const tokensA = new Set(a.split(' '));
+  const tokensB = new Set(b.split(' '));
+  const intersection = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+  const union = new Set([...Array.from(tokensA), ...Array.from(tokensB)]).size;
+
+  return union === 0 ? 0 : intersection / union;
+};
+
+const addDays = (isoDate: string, days: number): string => {
+  return new Date(Date.parse(isoDate) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+};
+
+/**
+ * Stored transactions a duplicate could be among: same amount, card or account, and dates within the window
+ * (undated records are never compared with a dated row). The provider applies them, so each row reads only
+ * its few candidates.
+ */
+const duplicateCandidateFilters = (fingerprint: TransactionFingerprint, foreignOnly: boolean): VectorMetadataFilters => ({
+  // Stored amounts are in ILS; a foreign amount without an ILS charge is compared in its own currency
+  ...(foreignOnly
+    ? { currency: fingerprint.currency }
+    : {
+        minAmount: fingerprint.amount - DUPLICATE_AMOUNT_TOLERANCE,
+        maxAmount: fingerprint.amount + DUPLICATE_AMOUNT_TOLERANCE,
+      }),
+  ...(fingerprint.transactionDate
+    ? {
+        fromDate: addDays(fingerprint.transactionDate, -DUPLICATE_DATE_WINDOW_DAYS),
+        toDate: addDays(fingerprint.transactionDate, DUPLICATE_DATE_WINDOW_DAYS),
+      }
+    : {}),
+  ...(fingerprint.cardLastFour
+    ? { cardLastFour: fingerprint.cardLastFour }
+    : fingerprint.bankAccountNumber ? { bankAccountNumber: fingerprint.bankAccountNumber } : {}),
+});
+
+/**
+ * Find stored transactions that look like the same charge but have a different ID
+ * (e.g. a slightly different export of the same row). Metadata-only, no LLM or embedding cost.
+ */
+export const findPossibleDuplicates = async (
+  fingerprint: TransactionFingerprint,
+  vectorProvider: VectorStorageProvider,
+  excludeId?: string
+): Promise<PossibleDuplicate[]> => {
+  const foreignOnly = fingerprint.chargedAmount === null && fingerprint.currency !== 'ILS';
+  const records = await listAllTransactions(vectorProvider, duplicateCandidateFilters(fingerprint, foreignOnly));
+
+  return records
+    .filter(record => record.id !== excludeId)
+    .filter(record => !foreignOnly
+      || Math.abs((record.metadata.originalAmount ?? record.metadata.amount) - fingerprint.originalAmount) <= DUPLICATE_AMOUNT_TOLERANCE)
+    // Different payments of the same installment deal are not duplicates of each other
+    .filter(record => !fingerprint.installment
+      || record.metadata.installmentNumber == null
+      || record.metadata.installmentNumber === fingerprint.installment.number)
+    .map(record => ({
+      id: record.id,
+      similarity: merchantSimilarity(
+        fingerprint.merchantKey,
+        record.metadata.merchantKey ?? buildTransactionFingerprint(record.metadata.originalText).merchantKey
+      ),
+      originalText: record.metadata.originalText,
+      transactionDate: record.metadata.transactionDate ?? null,
+      amount: record.metadata.amount,
+    }))
+    .filter(candidate => candidate.similarity >= DUPLICATE_MERCHANT_SIMILARITY)
+    .sort((a, b) => b.similarity - a.similarity);
+};
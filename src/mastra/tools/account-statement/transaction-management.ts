@@ -0,0 +1,215 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { TransactionTypeSchema, TransactionCategorySchema, MerchantRuleSchema, TransactionCategory } from './types';
+import { createVectorStorageProvider } from './providers/factory';
+import { VectorMetadata } from './providers/base';
+import { netSpendingAmount } from './refund-matching';
+import { getMerchantRuleStore } from './merchant-rules';
+import { getCategoryTaxonomyStore } from './category-taxonomy';
+
+/**
+ * Metadata filters shared by the list, count and delete tools
+ */
+const transactionFiltersSchema = z.object({
+  transactionType: z.string().optional().describe('Filter by transaction type'),
+  category: z.string().optional().describe('Filter by category'),
+  minAmount: z.number().optional().describe('Minimum transaction amount in ILS (transactions without an exchange rate never match)'),
+  maxAmount: z.number().optional().describe('Maximum transaction amount in ILS (transactions without an exchange rate never match)'),
+  currency: z.string().length(3).optional().describe('Filter by original currency (ILS, USD, EUR...)'),
+  fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Earliest transaction date (YYYY-MM-DD, inclusive)'),
+  toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Latest transaction date (YYYY-MM-DD, inclusive)'),
+  cardLastFour: z.string().regex(/^\d{4}$/).optional().describe('Filter by card (last four digits)'),
+  bankAccountNumber: z.string().regex(/^\d+$/).optional().describe('Filter by bank account, including the cards linked to it'),
+  memberId: z.string().optional().describe('Filter by household member (see list-household)'),
+});
+
+const storedTransactionSchema = z.object({
+  id: z.string().describe('Unique vector ID'),
+  hebrewSummary: z.string().describe('Hebrew transaction summary'),
+  englishSummary: z.string().describe('English transaction summary'),
+  transactionType: z.string().describe('Type of transaction'),
+  category: z.string().describe('Transaction category'),
+  amount: z.number().describe('Transaction amount in ILS'),
+  transactionDate: z.string().nullable().describe('Transaction date (YYYY-MM-DD)'),
+  currency: z.string().describe('Original currency'),
+  originalAmount: z.number().describe('Amount in the original currency'),
+  chargedAmount: z.number().nullable().describe('Amount charged in ILS'),
+  amountSource: z.string().describe('charged = ILS amount from the statement, converted = converted at the Bank of Israel rate, original = no rate, amount is in the original currency'),
+  exchangeRate: z.number().nullable().describe('Representative rate used for the conversion'),
+  refundedAmount: z.number().nullable().describe('ILS refunded so far by refunds linked to this purchase'),
+  refundOf: z.string().nullable().describe('For a refund: ID of the purchase it reverses'),
+  netAmount: z.number().describe('ILS amount counted in spending: the amount net of linked refunds, 0 for a linked refund'),
+  cardLastFour: z.string().nullable().describe('Card the transaction was charged on'),
+  bankAccountNumber: z.string().nullable().describe('Bank account the transaction is paid from'),
+  memberId: z.string().nullable().describe('Household member the transaction belongs to'),
+  originalText: z.string().describe('Original transaction text'),
+  createdAt: z.string().describe('When the transaction was processed'),
+});
+
+const toStoredTransaction = (id: string, metadata: VectorMetadata) => ({
+  id,
+  hebrewSummary: metadata.hebrewSummary,
+  englishSummary: metadata.englishSummary,
+  transactionType: metadata.transactionType,
+  category: metadata.category,
+  amount: metadata.amount,
+  // Records stored before amounts were parsed only have the ILS amount
+  transactionDate: metadata.transactionDate ?? null,
+  currency: metadata.currency ?? 'ILS',
+  originalAmount: metadata.originalAmount ?? metadata.amount,
+  chargedAmount: metadata.chargedAmount === undefined ? metadata.amount : metadata.chargedAmount,
+  amountSource: metadata.amountSource ?? 'charged',
+  exchangeRate: metadata.exchangeRate ?? null,
+  refundedAmount: metadata.refundedAmount ?? null,
+  refundOf: metadata.refundOf ?? null,
+  netAmount: netSpendingAmount(metadata),
+  cardLastFour: metadata.cardLastFour ?? null,
+  bankAccountNumber: metadata.bankAccountNumber ?? null,
+  memberId: metadata.memberId ?? null,
+  originalText: metadata.originalText,
+  createdAt: metadata.createdAt,
+});
+
+export const getTransactionTool = createTool({
+  id: 'get-transaction',
+  description: 'Get a single stored transaction by its vector ID',
+  inputSchema: z.object({
+    id: z.string().describe('Vector ID of the stored transaction'),
+  }),
+  outputSchema: z.object({
+    found: z.boolean().describe('Whether a transaction with this ID exists'),
+    transaction: storedTransactionSchema.optional(),
+  }),
+  execute: async ({ context }) => {
+    const vectorProvider = createVectorStorageProvider();
+    const record = await vectorProvider.getById(context.id);
+
+    return record
+      ? { found: true, transaction: toStoredTransaction(record.id, record.metadata) }
+      : { found: false };
+  },
+});
+
+export const updateTransactionTool = createTool({
+  id: 'update-transaction',
+  description: 'Correct the metadata of a stored transaction, e.g. fix a wrong category or transaction type. A category correction also creates or updates the merchant rule, so the merchant is categorized the same way from then on.',
+  inputSchema: z.object({
+    id: z.string().describe('Vector ID of the stored transaction'),
+    category: TransactionCategorySchema.optional().describe('Corrected transaction category or subcategory (see list-categories)'),
+    transactionType: TransactionTypeSchema.optional().describe('Corrected transaction type'),
+    amount: z.number().optional().describe('Corrected transaction amount in ILS'),
+    hebrewSummary: z.string().optional().describe('Corrected Hebrew summary'),
+    englishSummary: z.string().optional().describe('Corrected English summary'),
+  }),
+  outputSchema: z.object({
+    updated: z.boolean().describe('Whether the transaction was found and updated'),
+    transaction: storedTransactionSchema.optional(),
+    learnedRule: MerchantRuleSchema.optional().describe('Merchant rule created or updated from the correction'),
+  }),
+  execute: async ({ context }) => {
+    const { id, ...changes } = context;
+
+    if (changes.category) {
+      await getCategoryTaxonomyStore().assertCategory(changes.category);
+    }
+
+    // Only send the fields the caller actually provided
+    const metadata = {
+      ...Object.fromEntries(
+        Object.entries(changes).filter(([, value]) => value !== undefined)
+      ),
+      ...(changes.category ? { categorySource: 'user', categoryConfidence: 1 } : {}),
+      updatedAt: new Date().toISOString(),
+    } as Partial<VectorMetadata>;
+
+    const vectorProvider = createVectorStorageProvider();
+    const record = await vectorProvider.updateMetadata(id, metadata);
+
+    if (!record) {
+      return { updated: false };
+    }
+
+    // Learn from the correction so next month's statement gets it right before the LLM is asked
+    const learnedRule = changes.category || changes.transactionType
+      ? await getMerchantRuleStore().learnFromCorrection({
+          merchantKey: record.metadata.merchantKey ?? '',
+          category: (changes.category ?? record.metadata.category) as TransactionCategory,
+          transactionType: changes.transactionType,
+        })
+      : null;
+
+    return {
+      updated: true,
+      transaction: toStoredTransaction(record.id, record.metadata),
+      ...(learnedRule ? { learnedRule } : {}),
+    };
+  },
+});
+
+export const deleteTransactionsTool = createTool({
+  id: 'delete-transactions',
+  description: 'Delete stored transactions by vector IDs or by metadata filter (e.g. remove a test import)',
+  inputSchema: z.object({
+    ids: z.array(z.string()).optional().describe('Vector IDs of the transactions to delete'),
+    filters: transactionFiltersSchema.optional().describe('Delete every transaction matching these filters'),
+  }).refine(
+    input => (input.ids && input.ids.length > 0) || (input.filters && Object.keys(input.filters).length > 0),
+    'Provide either ids or at least one filter - deleting everything is not allowed'
+  ),
+  outputSchema: z.object({
+    deletedIds: z.array(z.string()).describe('IDs of the deleted transactions'),
+    deletedCount: z.number().describe('Number of deleted transactions'),
+  }),
+  execute: async ({ context }) => {
+    const vectorProvider = createVectorStorageProvider();
+    const { deletedIds } = context.ids && context.ids.length > 0
+      ? await vectorProvider.delete({ ids: context.ids })
+      : await vectorProvider.delete({ filters: context.filters ?? {} });
+
+    return { deletedIds, deletedCount: deletedIds.length };
+  },
+});
+
+export const listTransactionsTool = createTool({
+  id: 'list-transactions',
+  description: 'List stored transactions page by page, newest first, with optional metadata filters',
+  inputSchema: z.object({
+    limit: z.number().min(1).max(100).default(20).describe('Number of transactions per page'),
+    offset: z.number().min(0).default(0).describe('Number of transactions to skip'),
+    filters: transactionFiltersSchema.optional().describe('Optional filters to apply'),
+  }),
+  outputSchema: z.object({
+    transactions: z.array(storedTransactionSchema).describe('Transactions on this page'),
+    total: z.number().describe('Total number of matching transactions'),
+    nextOffset: z.number().nullable().describe('Offset of the next page, or null when this is the last page'),
+  }),
+  execute: async ({ context }) => {
+    const vectorProvider = createVectorStorageProvider();
+    const result = await vectorProvider.list({
+      limit: context.limit,
+      offset: context.offset,
+      filters: context.filters,
+    });
+
+    return {
+      transactions: result.records.map(record => toStoredTransaction(record.id, record.metadata)),
+      total: result.total,
+      nextOffset: result.nextOffset,
+    };
+  },
+});
+
+export const countTransactionsTool = createTool({
+  id: 'count-transactions',
+  description: 'Count stored transactions, optionally matching metadata filters',
+  inputSchema: z.object({
+    filters: transactionFiltersSchema.optional().describe('Optional filters to apply'),
+  }),
+  outputSchema: z.object({
+    count: z.number().describe('Number of matching transactions'),
+  }),
+  execute: async ({ context }) => {
+    const vectorProvider = createVectorStorageProvider();
+    return { count: await vectorProvider.count(context.filters) };
+  },
+});
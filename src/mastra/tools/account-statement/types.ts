@@ -6,30 +6,89 @@ import { z } from 'zod';
 export const TransactionTypeSchema = z.union([
   z.literal('regular').describe('Standard one-time transaction: purchases, single payments, ad-hoc expenses'),
   z.literal('monthly').describe('Recurring monthly payment: subscriptions, insurance premiums, mortgage payments, utility bills'),
-  z.literal('credit').describe('Income or money coming into account: salary deposits, refunds, transfers received')
+  z.literal('credit').describe('Income or money coming into account: salary deposits, refunds, transfers received'),
+  z.literal('installment').describe('One payment of a purchase split into installments (תשלומים), e.g. "תשלום 3 מתוך 12"')
 ]).describe('Transaction classification based on payment pattern and source');
 
 /**
- * Transaction category schema with comprehensive Israeli banking context
- */
-export const TransactionCategorySchema = z.union([
-  z.literal('food_beverage').describe('General food and beverage purchases including cafes, bars, and food courts'),
-  z.literal('transportation').describe('Public transport, taxis, trains, parking fees, and mobility services'),
-  z.literal('shopping_entertainment').describe('General shopping, entertainment venues, movies, and recreational purchases'),
-  z.literal('fuel').describe('Gas stations and fuel purchases (Sonol, Paz, Dor Alon, Delek)'),
-  z.literal('healthcare').describe('Medical expenses, pharmacies, health funds (Clalit, Maccabi, Leumit, Meuhedet)'),
-  z.literal('education').describe('Schools, courses, educational materials, and learning-related expenses'),
-  z.literal('insurance').describe('Insurance premium payments for health, car, home, or life insurance'),
-  z.literal('mandatory_payments').describe('Taxes, utilities, government fees, and other required payments'),
-  z.literal('restaurants').describe('Dining out, food delivery services, and restaurant meals'),
-  z.literal('grocery').describe('Supermarket purchases (Rami Levy, Shufersal, Victory, Mega, Yochananof)'),
-  z.literal('clothing_shoes').describe('Fashion, clothing, footwear purchases, and apparel shopping'),
-  z.literal('technology').describe('Electronics, software, apps, tech services (Apple, Google, Netflix)'),
-  z.literal('home_design').describe('Furniture, home improvement, interior design, and household items (IKEA)'),
-  z.literal('sports_recreation').describe('Sports equipment, gym memberships, recreational activities, and fitness'),
-  z.literal('banking_finance').describe('Bank fees, loan payments, financial services, and banking charges'),
-  z.literal('other').describe('Miscellaneous transactions that do not fit into other predefined categories')
-]).describe('Comprehensive categorization system for Israeli banking transactions based on merchant type and purchase nature');
+ * Transaction category: an ID from the category taxonomy. The allowed IDs come from the loaded taxonomy
+ * (see category-taxonomy.ts), so this schema only checks the shape of the ID.
+ */
+export const TransactionCategorySchema = z.string()
+  .regex(/^[a-z][a-z0-9_]*$/, 'Category IDs are lowercase snake_case')
+  .describe('Category ID from the category taxonomy (list-categories), e.g. "grocery" or the subcategory "grocery_organic"');
+
+/**
+ * One category or subcategory of the taxonomy, with Hebrew and English labels
+ */
+export const CategoryDefinitionSchema = z.object({
+  id: TransactionCategorySchema,
+  parentId: TransactionCategorySchema
+    .nullable()
+    .describe('Parent category of a subcategory, null for a top-level category'),
+  labels: z.object({
+    he: z.string().min(1).describe('Hebrew label, e.g. "חוגים"'),
+    en: z.string().min(1).describe('English label, e.g. "after-school activities"'),
+  }),
+  description: z.object({
+    he: z.string().describe('What belongs in the category, in Hebrew'),
+    en: z.string().min(1).describe('What belongs in the category, in English (shown to the LLM)'),
+  }),
+}).describe('Category of the transaction taxonomy');
+
+/**
+ * Rename or merge of categories, applied to the taxonomy, the stored transactions and the merchant rules
+ */
+export const CategoryMigrationSchema = z.object({
+  version: z.number().int().positive()
+    .describe('Taxonomy version the migration produced'),
+  type: z.enum(['rename', 'merge'])
+    .describe('rename = one category gets a new ID, merge = several categories are folded into an existing one'),
+  from: z.array(TransactionCategorySchema).min(1)
+    .describe('Category IDs that no longer exist after the migration'),
+  to: TransactionCategorySchema
+    .describe('Category ID the transactions of the old categories now carry'),
+  appliedAt: z.string(),
+}).describe('Category rename or merge recorded in the taxonomy history');
+
+/**
+ * Versioned category taxonomy: categories, one level of subcategories and the migrations that led to it
+ */
+export const CategoryTaxonomySchema = z.object({
+  version: z.number().int().positive()
+    .describe('Incremented on every change of the taxonomy'),
+  updatedAt: z.string(),
+  categories: z.array(CategoryDefinitionSchema)
+    .min(2, 'The taxonomy needs at least two categories'),
+  migrations: z.array(CategoryMigrationSchema)
+    .describe('Renames and merges, oldest first'),
+}).superRefine((taxonomy, ctx) => {
+  const byId = new Map(taxonomy.categories.map(category => [category.id, category]));
+
+  if (byId.size !== taxonomy.categories.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Category IDs must be unique' });
+  }
+  if (!byId.has('other')) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'The taxonomy must keep the "other" category' });
+  }
+
+  for (const category of taxonomy.categories) {
+    if (category.parentId === null) continue;
+
+    const parent = byId.get(category.parentId);
+    if (!parent) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Parent "${category.parentId}" of "${category.id}" does not exist` });
+    } else if (parent.parentId !== null) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${category.id}" is nested under the subcategory "${parent.id}" - only one level of subcategories is supported` });
+    }
+  }
+}).describe('User-defined transaction category taxonomy');
+
+/**
+ * How a transaction's category was decided
+ */
+export const CategorySourceSchema = z.enum(['rule', 'knn', 'llm', 'user'])
+  .describe('rule = merchant rule, knn = nearest stored neighbors agreed, llm = the LLM decided, user = corrected by the user');
 
 /**
  * Credit card data extraction schema with comprehensive validation
@@ -79,14 +138,673 @@ export const TransactionAnalysisSchema = z.object({
     .describe('Vector embedding of the English summary for semantic search and similarity matching in financial applications'),
     
   transactionType: TransactionTypeSchema
-    .describe('Classification of transaction frequency: regular (one-time purchase), monthly (recurring subscription/insurance), or credit (incoming money/salary)'),
+    .describe('Classification of transaction frequency: regular (one-time purchase), monthly (recurring subscription/insurance), credit (incoming money/salary), or installment (one payment of a purchase split into תשלומים)'),
     
   category: TransactionCategorySchema
     .describe('Transaction category based on Israeli merchant patterns and transaction nature for personal finance tracking and budgeting')
 }).describe('Complete analysis of a Hebrew banking transaction including intelligent categorization, embedding-ready summaries in both Hebrew and English, and their corresponding vector embeddings for financial management and semantic search');
 
+/**
+ * Position of one payment within an installment deal ("תשלום 3 מתוך 12")
+ */
+export const InstallmentSchema = z.object({
+  number: z.number().int().positive().describe('Which payment this is (3 in "3 מתוך 12")'),
+  total: z.number().int().min(2).describe('Total number of payments in the deal (12 in "3 מתוך 12")'),
+}).describe('Installment number and count of an installment payment');
+
+/**
+ * Typed statement row produced by the deterministic CSV parser (no LLM involved)
+ */
+export const ParsedTransactionRowSchema = z.object({
+  rowNumber: z.number()
+    .int()
+    .positive()
+    .describe('1-based line number of the row in the source file, for traceability'),
+
+  date: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be in YYYY-MM-DD format')
+    .describe('Transaction (purchase) date in ISO format'),
+
+  chargeDate: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Must be in YYYY-MM-DD format')
+    .nullable()
+    .describe('Date the amount is charged or valued, when the export provides it'),
+
+  merchant: z.string()
+    .min(1)
+    .describe('Merchant or transaction description exactly as it appears in the export'),
+
+  originalAmount: z.number()
+    .describe('Transaction amount in its original currency. Positive = money out, negative = refund or credit'),
+
+  chargedAmount: z.number()
+    .nullable()
+    .describe('Amount charged in ILS. Positive = money out, negative = refund or credit. Null when the export only has a foreign amount'),
+
+  currency: z.string()
+    .length(3)
+    .describe('ISO 4217 currency of the original amount (ILS, USD, EUR...)'),
+
+  notes: z.string()
+    .nullable()
+    .describe('Free-text notes from the export, e.g. installment details or reference numbers'),
+
+  cardLastFour: z.string()
+    .regex(/^\d{4}$/)
+    .nullable()
+    .describe('Card the row belongs to, for exports that mix several cards'),
+
+  installment: InstallmentSchema
+    .nullable()
+    .describe('Installment position when the row is one payment of an installment deal'),
+
+  sheetName: z.string()
+    .nullable()
+    .describe('Workbook sheet the row came from (Excel imports), null for CSV'),
+
+  rawText: z.string()
+    .describe('Non-empty cells of the source row joined with spaces'),
+}).describe('Single transaction row parsed deterministically from a bank or card issuer export');
+
+/**
+ * Statement row the parser did not turn into a transaction (header, total, note)
+ */
+export const SkippedStatementRowSchema = z.object({
+  rowNumber: z.number().describe('1-based line number of the row in the source file'),
+  reason: z.string().describe('Why the row was not parsed as a transaction'),
+  text: z.string().describe('Non-empty cells of the source row joined with spaces'),
+  sheetName: z.string().nullable().optional().describe('Workbook sheet the row came from (Excel imports)'),
+}).describe('Row skipped by the deterministic statement parser');
+
+/**
+ * Structured bank file formats read without the LLM
+ */
+export const BankFileFormatSchema = z.enum(['ofx', 'qif', 'camt053'])
+  .describe('Bank file format: OFX or QFX (1.x SGML and 2.x XML), QIF, or ISO 20022 CAMT.053 XML');
+
+/**
+ * Source row a reconciliation cause points to. Row numbers restart on every sheet of a workbook
+ */
+export const ReconciliationRowRefSchema = z.object({
+  sheetName: z.string()
+    .nullable()
+    .describe('Workbook sheet of the row (Excel imports), null for single-table files'),
+  rowNumber: z.number()
+    .describe('1-based line number of the row in its sheet or file'),
+}).describe('Sheet and row number of a statement row');
+
+/**
+ * Likely reason for a gap between the statement total and the sum of its rows
+ */
+export const ReconciliationCauseSchema = z.object({
+  type: z.enum(['missed_rows', 'duplicates', 'foreign_currency', 'fees', 'refunds', 'charge_date'])
+    .describe('Kind of discrepancy'),
+  description: z.string()
+    .describe('Human readable explanation of the suspected cause'),
+  amount: z.number()
+    .nullable()
+    .describe('ILS amount this cause accounts for, null when it cannot be computed'),
+  matchesDifference: z.boolean()
+    .describe('True when the amount explains the whole difference (within tolerance)'),
+  rows: z.array(ReconciliationRowRefSchema)
+    .describe('Source rows involved'),
+}).describe('Suspected cause of a reconciliation difference');
+
+/**
+ * Result of comparing the statement header total with the parsed transaction rows
+ */
+export const ReconciliationReportSchema = z.object({
+  status: z.enum(['balanced', 'mismatch', 'no_total'])
+    .describe('balanced = rows add up to the header total within tolerance, no_total = the statement has no total to compare with'),
+  headerTotal: z.number()
+    .nullable()
+    .describe('Total amount from the statement header in ILS'),
+  rowsTotal: z.number()
+    .describe('Net sum of the ILS amounts of the rows (charges minus refunds and credits)'),
+  debitsTotal: z.number()
+    .describe('Sum of the charges (positive amounts)'),
+  creditsTotal: z.number()
+    .describe('Sum of the refunds and credits (negative amounts)'),
+  difference: z.number()
+    .nullable()
+    .describe('headerTotal - rowsTotal. Positive = the header is higher than the rows'),
+  rowCount: z.number()
+    .describe('Number of parsed transaction rows'),
+  convertedRowCount: z.number()
+    .describe('Foreign-currency rows without an ILS charge, converted at Bank of Israel representative rates (estimates)'),
+  unconvertedRowCount: z.number()
+    .describe('Foreign-currency rows without an ILS charged amount or exchange rate, left out of the sum'),
+  likelyCauses: z.array(ReconciliationCauseSchema)
+    .describe('Suspected causes of the difference, the ones that explain all of it first'),
+}).describe('Reconciliation of a statement total against its transaction rows');
+
+export const RefundMatchSchema = z.object({
+  refundId: z.string()
+    .describe('Vector ID of the refund or chargeback'),
+  refundText: z.string(),
+  refundAmount: z.number()
+    .describe('Refunded ILS amount (positive)'),
+  refundDate: z.string()
+    .nullable(),
+  purchaseId: z.string()
+    .describe('Vector ID of the original purchase'),
+  purchaseText: z.string(),
+  purchaseAmount: z.number()
+    .describe('ILS amount of the original purchase'),
+  purchaseDate: z.string()
+    .nullable(),
+  matchType: z.enum(['full', 'partial'])
+    .describe('full = the whole purchase was refunded, partial = part of it'),
+  score: z.number()
+    .describe('Combined match score (0-1)'),
+  signals: z.object({
+    merchant: z.number().describe('Merchant text similarity (0-1)'),
+    amount: z.number().describe('1 for a full refund, lower for a partial one'),
+    time: z.number().describe('1 for a refund on the purchase day, falling to 0 at the end of the window'),
+    vector: z.number().describe('Summary embedding similarity (0-1), 0 when the purchase was not among the nearest vectors'),
+  }),
+}).describe('A refund linked to the purchase it reverses');
+
+export const UnmatchedRefundSchema = z.object({
+  refundId: z.string(),
+  refundText: z.string(),
+  refundAmount: z.number()
+    .describe('Refunded ILS amount (positive)'),
+  refundDate: z.string()
+    .nullable(),
+  reason: z.string()
+    .describe('Why no purchase was linked'),
+}).describe('A refund without a likely original purchase, to be reviewed by the user');
+
+export const RefundMatchingReportSchema = z.object({
+  matched: z.array(RefundMatchSchema),
+  unmatched: z.array(UnmatchedRefundSchema)
+    .describe('Refunds to review - no purchase scored above the match threshold'),
+  alreadyMatched: z.number()
+    .describe('Refunds skipped because they were linked in an earlier run'),
+}).describe('Result of matching refunds and chargebacks to their original purchases');
+
+export const MerchantRuleSchema = z.object({
+  id: z.string()
+    .describe('Rule ID'),
+  matchType: z.enum(['exact', 'alias', 'regex'])
+    .describe('exact = the normalized merchant equals the pattern, alias = the pattern or one of the aliases appears in the merchant text, regex = the pattern matches the merchant text'),
+  pattern: z.string()
+    .describe('Merchant name (exact), canonical merchant name (alias) or regular expression (regex)'),
+  aliases: z.array(z.string())
+    .describe('Other spellings of the merchant, e.g. "סופר פארם" and "super-pharm" (alias rules)'),
+  category: TransactionCategorySchema,
+  transactionType: TransactionTypeSchema
+    .nullable()
+    .describe('Type to assign, null to keep the analyzed type'),
+  source: z.enum(['user_correction', 'manual'])
+    .describe('user_correction = learned when a transaction was recategorized, manual = created through a tool'),
+  hitCount: z.number()
+    .describe('How many transactions the rule categorized'),
+  lastHitAt: z.string()
+    .nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}).describe('Merchant-to-category rule applied before the LLM categorizes a transaction');
+
+/**
+ * Analyzed transaction held back from the store until the user approves or corrects its category
+ */
+export const ReviewItemSchema = z.object({
+  id: z.string()
+    .describe('Vector ID the transaction is stored under once reviewed'),
+  originalText: z.string(),
+  hebrewSummary: z.string(),
+  englishSummary: z.string(),
+  category: TransactionCategorySchema
+    .describe('Suggested category'),
+  transactionType: TransactionTypeSchema
+    .describe('Suggested transaction type'),
+  categorySource: CategorySourceSchema,
+  confidence: z.number()
+    .describe('Confidence of the suggestion (0-1), below the review threshold'),
+  amount: z.number()
+    .describe('ILS amount'),
+  transactionDate: z.string()
+    .nullable(),
+  cardLastFour: z.string()
+    .nullable(),
+  isReimport: z.boolean()
+    .describe('True when an earlier version of the transaction is already stored and will be replaced'),
+  queuedAt: z.string(),
+}).describe('Low-confidence categorization waiting for review');
+
+/**
+ * Reviewer's fix for a queued transaction; omitted fields keep the suggestion
+ */
+export const ReviewCorrectionSchema = z.object({
+  id: z.string()
+    .describe('Vector ID of the queued transaction'),
+  category: TransactionCategorySchema
+    .optional()
+    .describe('Corrected category or subcategory'),
+  transactionType: TransactionTypeSchema
+    .optional()
+    .describe('Corrected transaction type'),
+}).describe('Correction of a queued categorization');
+
+/**
+ * Outcome of approving and correcting queued transactions
+ */
+export const ReviewResolutionSchema = z.object({
+  approvedIds: z.array(z.string())
+    .describe('Stored with the suggested category'),
+  correctedIds: z.array(z.string())
+    .describe('Stored with the corrected category; their merchants got a merchant rule'),
+  notFoundIds: z.array(z.string())
+    .describe('Not in the review queue (already reviewed or never queued)'),
+  remaining: z.number()
+    .describe('Transactions still waiting for review'),
+}).describe('Result of resolving review queue items');
+
+/**
+ * Foreign transaction stored without an exchange rate: its amount is in its own currency, so ILS totals leave it out
+ */
+export const UnconvertedTransactionSchema = z.object({
+  id: z.string()
+    .describe('Vector ID of the transaction'),
+  transactionDate: z.string()
+    .nullable(),
+  merchant: z.string(),
+  originalAmount: z.number(),
+  currency: z.string(),
+}).describe('Transaction left out of ILS totals until the exchange rate of its date is imported and it is re-imported');
+
+/**
+ * Monthly spending limit for a category (or all spending), optionally for one card and/or household member
+ */
+export const BudgetSchema = z.object({
+  id: z.string()
+    .describe('Budget ID'),
+  category: TransactionCategorySchema
+    .nullable()
+    .describe('Category the budget covers, including its subcategories; null = all spending'),
+  cardLastFour: z.string()
+    .regex(/^\d{4}$/)
+    .nullable()
+    .describe('Card the budget is limited to, null = every card'),
+  memberId: z.string()
+    .nullable()
+    .default(null)
+    .describe('Household member the budget is limited to, null = the whole household'),
+  monthlyLimit: z.number()
+    .positive()
+    .describe('Monthly limit in ILS'),
+  warnAt: z.number()
+    .min(0)
+    .max(1)
+    .describe('Share of the limit at which spending counts as nearing it, e.g. 0.8'),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}).describe('Monthly budget');
+
+/**
+ * Month-to-date spending against one budget
+ */
+export const BudgetStatusSchema = z.object({
+  budgetId: z.string(),
+  category: TransactionCategorySchema
+    .nullable(),
+  label: z.object({ he: z.string(), en: z.string() })
+    .describe('Name of the budget: category, member and card'),
+  cardLastFour: z.string()
+    .nullable(),
+  memberId: z.string()
+    .nullable(),
+  monthlyLimit: z.number(),
+  spent: z.number()
+    .describe('ILS spent this month up to the as-of date, net of linked refunds'),
+  remaining: z.number()
+    .describe('ILS left, negative when the budget is exceeded'),
+  percentUsed: z.number(),
+  projected: z.number()
+    .describe('End-of-month spending if the month continues at the current daily pace'),
+  transactionCount: z.number(),
+  status: z.enum(['ok', 'projected_over', 'near', 'over'])
+    .describe('over = limit passed, near = past the warning share, projected_over = on pace to pass the limit, ok = none of these'),
+}).describe('Budget status');
+
+export const BudgetWarningSchema = z.object({
+  budgetId: z.string(),
+  level: z.enum(['projected_over', 'near', 'over']),
+  he: z.string()
+    .describe('Warning in Hebrew'),
+  en: z.string()
+    .describe('Warning in English'),
+}).describe('Budget warning to report to the user');
+
+export const BudgetCheckReportSchema = z.object({
+  month: z.string()
+    .describe('Checked month (YYYY-MM)'),
+  asOf: z.string()
+    .describe('Spending counted up to this date (YYYY-MM-DD)'),
+  statuses: z.array(BudgetStatusSchema),
+  warnings: z.array(BudgetWarningSchema)
+    .describe('Budgets past, near or on pace to pass their limit, most severe first'),
+  unconverted: z.array(UnconvertedTransactionSchema)
+    .describe('Budgeted spending of the month not counted: foreign amounts without an exchange rate'),
+}).describe('Month-to-date spending compared with the budgets');
+
+export const SubscriptionCadenceSchema = z.enum(['weekly', 'monthly', 'bimonthly', 'quarterly', 'yearly'])
+  .describe('How often a subscription is charged');
+
+export const SubscriptionPriceChangeSchema = z.object({
+  date: z.string()
+    .describe('Date of the first charge at the new price (YYYY-MM-DD)'),
+  previousAmount: z.number(),
+  newAmount: z.number(),
+  currency: z.string()
+    .describe('Currency of the amounts: the original currency for foreign charges, so exchange rates do not look like price changes'),
+  changePercent: z.number(),
+}).describe('Price change between two consecutive charges');
+
+export const SubscriptionSchema = z.object({
+  id: z.string()
+    .describe('Subscription ID'),
+  merchant: z.string()
+    .describe('Merchant text of the latest charge'),
+  merchantKey: z.string(),
+  category: TransactionCategorySchema,
+  cardLastFour: z.string()
+    .nullable()
+    .describe('Card charged, or the account number for bank statements'),
+  cadence: SubscriptionCadenceSchema,
+  intervalDays: z.number()
+    .describe('Median number of days between charges'),
+  currentAmount: z.number()
+    .describe('ILS amount of the latest charge'),
+  currency: z.string(),
+  firstChargeDate: z.string(),
+  lastChargeDate: z.string(),
+  chargeCount: z.number(),
+  nextExpectedDate: z.string()
+    .describe('Date the next charge is expected (YYYY-MM-DD)'),
+  annualCost: z.number()
+    .describe('ILS per year at the current price, 0 for ended subscriptions'),
+  status: z.enum(['active', 'overdue', 'ended'])
+    .describe('active = next charge not yet due, overdue = one expected charge did not arrive, ended = no charge for two cycles or more'),
+  priceChanges: z.array(SubscriptionPriceChangeSchema),
+  missedCycles: z.array(z.string())
+    .describe('Dates of expected charges that never arrived between two charges'),
+  duplicateCharges: z.array(z.object({
+    date: z.string(),
+    amount: z.number(),
+    transactionIds: z.array(z.string()),
+  })).describe('Charges made twice in the same cycle'),
+  possiblyForgotten: z.boolean()
+    .describe('Whether the subscription looks like one the household forgot about'),
+  forgottenReasons: z.array(z.object({ he: z.string(), en: z.string() })),
+  transactionIds: z.array(z.string())
+    .describe('Stored transactions of the subscription, oldest first'),
+}).describe('Recurring charge detected across stored transactions');
+
+export const SubscriptionReportSchema = z.object({
+  asOf: z.string()
+    .describe('Statuses are computed as of this date (YYYY-MM-DD)'),
+  subscriptions: z.array(SubscriptionSchema)
+    .describe('Subscriptions, highest annual cost first'),
+  activeCount: z.number()
+    .describe('Subscriptions that are active or overdue'),
+  annualCost: z.number()
+    .describe('ILS per year of the active and overdue subscriptions'),
+  monthlyCost: z.number(),
+  typesUpdated: z.number()
+    .describe('Stored charges whose type was set to monthly'),
+  unconverted: z.array(UnconvertedTransactionSchema)
+    .describe('Charges left out of subscription detection and costs: foreign amounts without an exchange rate'),
+}).describe('Recurring subscriptions found in the stored transactions');
+
+export const AnomalySeveritySchema = z.enum(['low', 'medium', 'high'])
+  .describe('How urgently the user should look at a flagged transaction');
+
+export const AnomalyReasonSchema = z.object({
+  type: z.enum(['same_day_duplicate', 'amount_outlier', 'new_foreign_merchant', 'replaced_card'])
+    .describe('same_day_duplicate = merchant charged again the same day, amount_outlier = far above the merchant\'s usual amount, new_foreign_merchant = first charge of a foreign merchant, replaced_card = charged on a card after its replacement'),
+  severity: AnomalySeveritySchema,
+  he: z.string()
+    .describe('Explanation in Hebrew'),
+  en: z.string()
+    .describe('Explanation in English'),
+  relatedIds: z.array(z.string())
+    .describe('Stored transactions behind the reason, e.g. the other charge of a duplicate'),
+}).describe('Why a transaction was flagged');
+
+export const AnomalySchema = z.object({
+  transactionId: z.string(),
+  transactionDate: z.string()
+    .nullable(),
+  merchant: z.string()
+    .describe('Original transaction text'),
+  amount: z.number()
+    .describe('ILS amount'),
+  currency: z.string(),
+  cardLastFour: z.string()
+    .nullable(),
+  severity: AnomalySeveritySchema
+    .describe('Highest severity of the reasons'),
+  reasons: z.array(AnomalyReasonSchema),
+}).describe('Suspicious transaction');
+
+export const AnomalyReportSchema = z.object({
+  checked: z.number()
+    .describe('Number of transactions checked'),
+  anomalies: z.array(AnomalySchema)
+    .describe('Flagged transactions, most severe first'),
+  high: z.number(),
+  medium: z.number(),
+  low: z.number(),
+}).describe('Suspicious charges among the checked transactions');
+
+export const CardReplacementSchema = z.object({
+  cardLastFour: z.string()
+    .regex(/^\d{4}$/)
+    .describe('Last four digits of the replaced card'),
+  replacedOn: z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/)
+    .describe('Date the card was replaced or cancelled (YYYY-MM-DD); later charges on it are flagged'),
+  replacementLastFour: z.string()
+    .regex(/^\d{4}$/)
+    .nullable()
+    .describe('Last four digits of the new card, null when the card was cancelled'),
+  createdAt: z.string(),
+}).describe('Card that was replaced or cancelled');
+
+export const CashFlowEventSchema = z.object({
+  date: z.string()
+    .describe('Date the money is expected to move in or out of the bank account (YYYY-MM-DD)'),
+  amount: z.number()
+    .describe('ILS, positive for money coming in, negative for money going out'),
+  kind: z.enum(['income', 'recurring_debit', 'card_statement', 'installment'])
+    .describe('income = recurring credit like a salary, recurring_debit = monthly charge, card_statement = stored card charges not yet debited, installment = future installment payment'),
+  description: z.string(),
+  cardLastFour: z.string()
+    .nullable()
+    .describe('Card whose statement carries the amount, null for bank account movements'),
+  chargeDate: z.string()
+    .nullable()
+    .describe('Date of the expected charge, when it reaches the account later through a card statement'),
+}).describe('Expected debit or credit');
+
+export const CashFlowPeriodSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  credits: z.number()
+    .describe('ILS expected in'),
+  debits: z.number()
+    .describe('ILS expected out, as a positive number'),
+  net: z.number(),
+  closingBalance: z.number()
+    .describe('Expected balance at the end of the period'),
+  lowestBalance: z.number()
+    .describe('Lowest expected end-of-day balance in the period'),
+}).describe('Expected cash flow of one day or week');
+
+export const CashFlowForecastSchema = z.object({
+  asOf: z.string()
+    .describe('Forecast starts the day after this date (YYYY-MM-DD)'),
+  until: z.string()
+    .describe('Last forecast day (YYYY-MM-DD)'),
+  granularity: z.enum(['day', 'week']),
+  openingBalance: z.number(),
+  closingBalance: z.number(),
+  totalCredits: z.number(),
+  totalDebits: z.number(),
+  lowPoint: z.object({
+    date: z.string(),
+    balance: z.number(),
+  }).describe('Lowest expected end-of-day balance and its date'),
+  periods: z.array(CashFlowPeriodSchema),
+  events: z.array(CashFlowEventSchema)
+    .describe('Expected movements, by date'),
+  cards: z.array(z.object({
+    cardLastFour: z.string(),
+    billingDay: z.number()
+      .describe('Day of the month the card statement is debited'),
+    billingDaySource: z.enum(['input', 'statement', 'default'])
+      .describe('input = given by the user, statement = charge dates of stored statements, default = assumed'),
+  })).describe('Billing days used for the cards'),
+  unconverted: z.array(UnconvertedTransactionSchema)
+    .describe('Stored transactions left out of the projection: foreign amounts without an exchange rate'),
+}).describe('Projected bank account balance');
+
+export const HouseholdMemberSchema = z.object({
+  id: z.string()
+    .describe('Stable member ID (e.g. "dana"), stored on each of the member\'s transactions as memberId'),
+  name: z.string()
+    .describe('Display name'),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}).describe('Person in the household who owns cards or accounts');
+
+export const BankAccountSchema = z.object({
+  accountNumber: z.string()
+    .regex(/^\d+$/)
+    .describe('Bank account number as printed on statements'),
+  bank: z.string()
+    .nullable()
+    .describe('Bank name'),
+  label: z.string()
+    .nullable()
+    .describe('Name the household uses for the account (e.g. "joint account")'),
+  memberIds: z.array(z.string())
+    .describe('Owners; transactions of an account with a single owner and no card are linked to that owner'),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}).describe('Household bank account');
+
+export const HouseholdCardSchema = z.object({
+  lastFour: z.string()
+    .regex(/^\d{4}$/)
+    .describe('Last four digits of the card'),
+  accountNumber: z.string()
+    .regex(/^\d+$/)
+    .nullable()
+    .describe('Bank account the card statement is debited from'),
+  memberId: z.string()
+    .nullable()
+    .describe('Member who owns the card'),
+  label: z.string()
+    .nullable()
+    .describe('Name the household uses for the card (e.g. "Dana\'s Visa")'),
+  issuer: z.string()
+    .nullable()
+    .describe('Card issuer (Isracard, Max, Cal...)'),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+}).describe('Household card, linked to its bank account and owner');
+
+export const TransactionOwnerSchema = z.object({
+  bankAccountNumber: z.string()
+    .nullable()
+    .describe('Account the transaction is paid from: the statement\'s, or the one its card is linked to'),
+  memberId: z.string()
+    .nullable()
+    .describe('Member the transaction belongs to: the card owner, or the single owner of the account'),
+}).describe('Account and member a transaction is linked to through the household registry');
+
+export const LedgerStatementSchema = z.object({
+  id: z.string()
+    .describe('Ledger statement ID, also stored on its transactions as statementId'),
+  cardLastFour: z.string()
+    .nullable(),
+  bankAccountNumber: z.string()
+    .nullable(),
+  statementDate: z.string()
+    .nullable()
+    .describe('Statement date (YYYY-MM-DD)'),
+  transactionCount: z.number()
+    .describe('Transactions of the statement in the ledger'),
+  total: z.number()
+    .describe('ILS total of those transactions'),
+  unconvertedCount: z.number()
+    .describe('Transactions left out of the total: foreign amounts without an exchange rate'),
+  firstTransactionDate: z.string()
+    .nullable(),
+  lastTransactionDate: z.string()
+    .nullable(),
+  firstImportedAt: z.string(),
+  lastImportedAt: z.string()
+    .describe('When the statement was last imported; re-imports update its transactions'),
+}).describe('Imported statement recorded in the transaction ledger');
+
+export const ExportFormatSchema = z.enum(['csv', 'json', 'ofx', 'qif', 'ynab', 'actual'])
+  .describe('Export format: CSV (UTF-8 with BOM, opens in Excel), JSON, OFX, QIF, or the YNAB / Actual Budget CSV import formats');
+
+export const ExportCategoryMappingSchema = z.object({
+  format: ExportFormatSchema,
+  categories: z.record(z.string().min(1))
+    .describe('Category name written to the export, by category ID; unmapped categories use their English label'),
+  updatedAt: z.string().nullable(),
+}).describe('Category names used when exporting to one format, e.g. the YNAB category names of the budget');
+
 // Inferred TypeScript types from Zod schemas
 export type CreditCardData = z.infer<typeof CreditCardDataSchema>;
 export type TransactionAnalysis = z.infer<typeof TransactionAnalysisSchema>;
 export type TransactionType = z.infer<typeof TransactionTypeSchema>;
-export type TransactionCategory = z.infer<typeof TransactionCategorySchema>; 
\ No newline at end of file
+export type TransactionCategory = z.infer<typeof TransactionCategorySchema>; 
+export type CategoryDefinition = z.infer<typeof CategoryDefinitionSchema>;
+export type CategoryMigration = z.infer<typeof CategoryMigrationSchema>;
+export type CategoryTaxonomy = z.infer<typeof CategoryTaxonomySchema>;
+export type CategorySource = z.infer<typeof CategorySourceSchema>;
+export type ParsedTransactionRow = z.infer<typeof ParsedTransactionRowSchema>;
+export type BankFileFormat = z.infer<typeof BankFileFormatSchema>;
+export type Installment = z.infer<typeof InstallmentSchema>;
+export type ReconciliationRowRef = z.infer<typeof ReconciliationRowRefSchema>;
+export type ReconciliationCause = z.infer<typeof ReconciliationCauseSchema>;
+export type ReconciliationReport = z.infer<typeof ReconciliationReportSchema>;
+export type RefundMatch = z.infer<typeof RefundMatchSchema>;
+export type UnmatchedRefund = z.infer<typeof UnmatchedRefundSchema>;
+export type RefundMatchingReport = z.infer<typeof RefundMatchingReportSchema>;
+export type MerchantRule = z.infer<typeof MerchantRuleSchema>;
+export type ReviewItem = z.infer<typeof ReviewItemSchema>;
+export type ReviewCorrection = z.infer<typeof ReviewCorrectionSchema>;
+export type ReviewResolution = z.infer<typeof ReviewResolutionSchema>;
+export type UnconvertedTransaction = z.infer<typeof UnconvertedTransactionSchema>;
+export type Budget = z.infer<typeof BudgetSchema>;
+export type BudgetStatus = z.infer<typeof BudgetStatusSchema>;
+export type BudgetWarning = z.infer<typeof BudgetWarningSchema>;
+export type BudgetCheckReport = z.infer<typeof BudgetCheckReportSchema>;
+export type SubscriptionCadence = z.infer<typeof SubscriptionCadenceSchema>;
+export type SubscriptionPriceChange = z.infer<typeof SubscriptionPriceChangeSchema>;
+export type Subscription = z.infer<typeof SubscriptionSchema>;
+export type SubscriptionReport = z.infer<typeof SubscriptionReportSchema>;
+export type AnomalySeverity = z.infer<typeof AnomalySeveritySchema>;
+export type AnomalyReason = z.infer<typeof AnomalyReasonSchema>;
+export type Anomaly = z.infer<typeof AnomalySchema>;
+export type AnomalyReport = z.infer<typeof AnomalyReportSchema>;
+export type CardReplacement = z.infer<typeof CardReplacementSchema>;
+export type CashFlowEvent = z.infer<typeof CashFlowEventSchema>;
+export type CashFlowPeriod = z.infer<typeof CashFlowPeriodSchema>;
+export type CashFlowForecast = z.infer<typeof CashFlowForecastSchema>;
+export type HouseholdMember = z.infer<typeof HouseholdMemberSchema>;
+export type BankAccount = z.infer<typeof BankAccountSchema>;
+export type HouseholdCard = z.infer<typeof HouseholdCardSchema>;
+export type TransactionOwner = z.infer<typeof TransactionOwnerSchema>;
+export type LedgerStatement = z.infer<typeof LedgerStatementSchema>;
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+export type ExportCategoryMapping = z.infer<typeof ExportCategoryMappingSchema>;
@@ -0,0 +1,139 @@
+// Rebuild the vector index from the transaction ledger, and record older vectors in the ledger
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { openai } from '@ai-sdk/openai';
+import { embedMany } from 'ai';
+import { VectorRecord } from './providers/base';
+import { createVectorIndexProvider } from './providers/factory';
+import { getTransactionLedger } from './ledger';
+
+const PAGE_SIZE = 100;
+
+export interface VectorIndexRebuildResult {
+  ledgerTransactions: number;
+  indexed: number;
+  reembedded: number;
+  pruned: number;
+}
+
+/**
+ * Write every ledger transaction to the vector index under its ledger ID. Transactions recorded without an
+ * embedding get a new one from their Hebrew summary, which is saved back to the ledger. With `prune`, vectors
+ * that are not in the ledger are deleted, so the index matches the ledger exactly.
+ */
+export const rebuildVectorIndex = async (options: { prune?: boolean } = {}): Promise<VectorIndexRebuildResult> => {
+  const index = createVectorIndexProvider();
+  const ledger = getTransactionLedger();
+  const ledgerTransactions = await ledger.countTransactions();
+  let indexed = 0;
+  let reembedded = 0;
+
+  console.log(`🔁 Rebuilding the ${index.name} vector index from ${ledgerTransactions} ledger transactions`);
+
+  for (let offset = 0; offset < ledgerTransactions; offset += PAGE_SIZE) {
+    const page = await ledger.listTransactions({ limit: PAGE_SIZE, offset });
+    if (page.length === 0) break;
+
+    const missing = page.filter(transaction => !transaction.values);
+    const embeddings = missing.length > 0
+      ? (await embedMany({
+          model: openai.embedding('text-embedding-3-small'),
+          values: missing.map(transaction => transaction.metadata.hebrewSummary),
+        })).embeddings
+      : [];
+
+    const reembeddedRecords: VectorRecord[] = missing.map((transaction, i) => ({
+      id: transaction.id,
+      values: embeddings[i],
+      metadata: { ...transaction.metadata, embeddingModel: 'text-embedding-3-small' },
+    }));
+    await ledger.upsertTransactions(reembeddedRecords);
+
+    const records: VectorRecord[] = [
+      ...page.filter(transaction => transaction.values).map(transaction => ({
+        id: transaction.id,
+        values: transaction.values!,
+        metadata: transaction.metadata,
+      })),
+      ...reembeddedRecords,
+    ];
+    await index.insert(records);
+
+    indexed += records.length;
+    reembedded += reembeddedRecords.length;
+  }
+
+  let pruned = 0;
+  if (options.prune) {
+    const indexIds = (await index.listAll()).map(record => record.id);
+
+    const orphans: string[] = [];
+    for (let i = 0; i < indexIds.length; i += PAGE_SIZE) {
+      const batch = indexIds.slice(i, i + PAGE_SIZE);
+      const recorded = await ledger.findRecorded(batch);
+      orphans.push(...batch.filter(id => !recorded.has(id)));
+    }
+    if (orphans.length > 0) {
+      pruned = (await index.delete({ ids: orphans })).deletedIds.length;
+    }
+  }
+
+  console.log(`✅ Vector index rebuilt: ${indexed} indexed, ${reembedded} re-embedded, ${pruned} pruned`);
+  return { ledgerTransactions, indexed, reembedded, pruned };
+};
+
+/**
+ * Record in the ledger the vectors stored before it existed (or by another process), with their embeddings.
+ * Run it once before the first rebuild, so a rebuild with `prune` does not drop them.
+ */
+export const backfillLedger = async (): Promise<{ checked: number; recorded: number }> => {
+  const index = createVectorIndexProvider();
+  const ledger = getTransactionLedger();
+  let recorded = 0;
+
+  // One read of the index, with the embeddings; the ledger is checked and written a page at a time
+  const stored = await index.listAll();
+  for (let i = 0; i < stored.length; i += PAGE_SIZE) {
+    const page = stored.slice(i, i + PAGE_SIZE);
+    const known = await ledger.findRecorded(page.map(record => record.id));
+
+    const records = page.filter(record => !known.has(record.id));
+    await ledger.upsertTransactions(records);
+    recorded += records.length;
+  }
+  const checked = stored.length;
+
+  console.log(`📒 Ledger backfill: ${recorded} of ${checked} stored vectors were missing from the ledger`);
+  return { checked, recorded };
+};
+
+export const rebuildVectorIndexTool = createTool({
+  id: 'rebuild-vector-index',
+  description: 'Regenerate the vector index from the transaction ledger (e.g. after switching vector stores or losing the index). With prune, vectors missing from the ledger are deleted; confirm with the user first.',
+  inputSchema: z.object({
+    prune: z.boolean().default(false).describe('Delete vectors that are not in the ledger'),
+  }),
+  outputSchema: z.object({
+    ledgerTransactions: z.number().describe('Transactions in the ledger'),
+    indexed: z.number().describe('Vectors written to the index'),
+    reembedded: z.number().describe('Transactions without a stored embedding that were embedded again'),
+    pruned: z.number().describe('Vectors deleted because the ledger does not have them'),
+  }),
+  execute: async ({ context }) => {
+    return await rebuildVectorIndex(context);
+  },
+});
+
+export const backfillLedgerTool = createTool({
+  id: 'backfill-ledger',
+  description: 'Record in the transaction ledger the stored transactions that are only in the vector index (stored before the ledger existed)',
+  inputSchema: z.object({}),
+  outputSchema: z.object({
+    checked: z.number().describe('Vectors checked'),
+    recorded: z.number().describe('Vectors added to the ledger'),
+  }),
+  execute: async () => {
+    return await backfillLedger();
+  },
+});
@@ -4,6 +4,7 @@ import { openai } from '@ai-sdk/openai';
 import { embedMany } from 'ai';
 import { createVectorStorageProvider } from './providers/factory';
 import { VectorSearchOptions } from './providers/base';
+import { hasIlsAmount } from './exchange-rates';
 
 export const vectorSearchTool = createTool({
   id: 'vector-search-transactions',
@@ -14,8 +15,14 @@ export const vectorSearchTool = createTool({
     filters: z.object({
       transactionType: z.string().optional().describe('Filter by transaction type'),
       category: z.string().optional().describe('Filter by category'),
-      minAmount: z.number().optional().describe('Minimum transaction amount'),
-      maxAmount: z.number().optional().describe('Maximum transaction amount'),
+      minAmount: z.number().optional().describe('Minimum transaction amount in ILS (transactions without an exchange rate never match)'),
+      maxAmount: z.number().optional().describe('Maximum transaction amount in ILS (transactions without an exchange rate never match)'),
+      currency: z.string().length(3).optional().describe('Filter by original currency (ILS, USD, EUR...)'),
+      fromDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Earliest transaction date (YYYY-MM-DD, inclusive)'),
+      toDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe('Latest transaction date (YYYY-MM-DD, inclusive)'),
+      cardLastFour: z.string().regex(/^\d{4}$/).optional().describe('Filter by card (last four digits)'),
+      bankAccountNumber: z.string().regex(/^\d+$/).optional().describe('Filter by bank account, including the cards linked to it'),
+      memberId: z.string().optional().describe('Filter by household member (see list-household)'),
     }).optional().describe('Optional filters to apply to the search'),
   }),
   outputSchema: z.object({
@@ -27,7 +34,13 @@ export const vectorSearchTool = createTool({
       englishSummary: z.string().describe('English transaction summary'),
       transactionType: z.string().describe('Type of transaction'),
       category: z.string().describe('Transaction category'),
-      amount: z.number().describe('Transaction amount'),
+      amount: z.number().describe('Transaction amount in amountCurrency'),
+      amountCurrency: z.string().describe('Currency of amount: ILS, or the original currency when no exchange rate was available'),
+      transactionDate: z.string().nullable().describe('Transaction date (YYYY-MM-DD)'),
+      currency: z.string().describe('Original currency'),
+      cardLastFour: z.string().nullable().describe('Card the transaction was charged on'),
+      bankAccountNumber: z.string().nullable().describe('Bank account the transaction is paid from'),
+      memberId: z.string().nullable().describe('Household member the transaction belongs to'),
       originalText: z.string().describe('Original transaction text'),
       createdAt: z.string().describe('When the transaction was processed'),
     })).describe('Array of similar transactions found'),
@@ -58,6 +71,12 @@ const searchSimilarTransactions = async (
     transactionType: string;
     category: string;
     amount: number;
+    amountCurrency: string;
+    transactionDate: string | null;
+    currency: string;
+    cardLastFour: string | null;
+    bankAccountNumber: string | null;
+    memberId: string | null;
     originalText: string;
     createdAt: string;
   }>;
@@ -100,6 +119,12 @@ const searchSimilarTransactions = async (
       transactionType: result.metadata.transactionType,
       category: result.metadata.category,
       amount: result.metadata.amount,
+      amountCurrency: hasIlsAmount(result.metadata) ? 'ILS' : result.metadata.currency,
+      transactionDate: result.metadata.transactionDate ?? null,
+      currency: result.metadata.currency ?? 'ILS',
+      cardLastFour: result.metadata.cardLastFour ?? null,
+      bankAccountNumber: result.metadata.bankAccountNumber ?? null,
+      memberId: result.metadata.memberId ?? null,
       originalText: result.metadata.originalText,
       createdAt: result.metadata.createdAt,
     }));
@@ -0,0 +1,459 @@
+import { createStep, createWorkflow } from '@mastra/core/workflows';
+import { z } from 'zod';
+import {
+  CreditCardDataSchema,
+  BankFileFormatSchema,
+  TransactionTypeSchema,
+  TransactionCategorySchema,
+  ParsedTransactionRowSchema,
+  SkippedStatementRowSchema,
+  ReconciliationReportSchema,
+  RefundMatchingReportSchema,
+  ReviewItemSchema,
+  ReviewCorrectionSchema,
+  ReviewCorrection,
+  BudgetCheckReportSchema,
+  AnomalyReportSchema
+} from '../tools/account-statement/types';
+import { extractCreditCardData } from '../tools/account-statement/credit-card-extractor';
+import { analyzeTransactionBatch } from '../tools/account-statement/transaction-analyzer';
+import { reconcileStatement } from '../tools/account-statement/reconciliation';
+import { matchRefunds } from '../tools/account-statement/refund-matching';
+import { getReviewQueueStore, resolveReviews } from '../tools/account-statement/review-queue';
+import { checkBudgets } from '../tools/account-statement/budgets';
+import { detectAnomalies } from '../tools/account-statement/anomaly-detection';
+import {
+  parseStatementCsv,
+  parseStatementWorkbook,
+  parseBankFile,
+  selectBankFileStatement,
+  formatRowForAnalysis
+} from '../tools/account-statement/parsers';
+import { readExcelInput } from '../tools/account-statement/excel-import';
+import { readBankFileInput } from '../tools/account-statement/bank-file-import';
+
+// Structured bank files carry only the header fields they have (a bank file has no card digits)
+const statementHeaderSchema = CreditCardDataSchema.partial()
+  .describe('Statement card, account, date and total; complete for CSV and Excel statements');
+
+// Workflow input, passed unchanged to the parse step so both share the defaults
+const statementSourceSchema = z.object({
+  csvText: z.string().min(10).optional().describe('Whole Hebrew CSV statement text'),
+  excelFilePath: z.string().optional().describe('Local path of an XLSX/XLS statement workbook'),
+  excelBase64: z.string().optional().describe('Base64-encoded XLSX/XLS statement workbook'),
+  bankFileText: z.string().optional().describe('OFX/QFX, QIF or CAMT.053 file content'),
+  bankFilePath: z.string().optional().describe('Local path of an OFX/QFX, QIF or CAMT.053 file'),
+  bankFileBase64: z.string().optional().describe('Base64-encoded OFX/QFX, QIF or CAMT.053 file'),
+  bankFileFormat: BankFileFormatSchema.optional().describe('Force the bank file format instead of detecting it'),
+  bankFileAccountId: z.string().optional().describe('Account to import when the bank file holds several'),
+  qifDateOrder: z.enum(['mdy', 'dmy']).optional().describe('Day/month order of QIF dates; detected when not given'),
+  qifCurrency: z.string().length(3).optional().describe('Currency of QIF amounts (default ILS)'),
+  concurrency: z.number().min(1).max(10).default(4).describe('Maximum number of chunks analyzed in parallel'),
+  chunkSize: z.number().min(1).max(50).default(20).describe('Transactions categorized per LLM call'),
+  reviewThreshold: z.number().min(0).max(1).optional().describe('Rows categorized with less confidence than this wait for review (default REVIEW_CONFIDENCE_THRESHOLD, 0 = store everything)'),
+});
+
+const rowReportSchema = z.object({
+  rowNumber: z.number(),
+  sheetName: z.string().nullable().describe('Workbook sheet of the row (Excel imports)'),
+  transactionDate: z.string().describe('YYYY-MM-DD'),
+  text: z.string(),
+  status: z.enum(['stored', 'updated', 'pending_review', 'failed'])
+    .describe('stored = new record, updated = re-import of an existing record, pending_review = low confidence, waiting in the review queue'),
+  vectorId: z.string().optional(),
+  transactionType: TransactionTypeSchema.optional(),
+  category: TransactionCategorySchema.optional(),
+  possibleDuplicateIds: z.array(z.string()).describe('Near-identical transactions already stored under another ID'),
+  error: z.string().optional(),
+});
+
+const storedStatementSchema = z.object({
+  creditCardData: statementHeaderSchema,
+  reconciliation: ReconciliationReportSchema,
+  totalRows: z.number(),
+  succeeded: z.number(),
+  failed: z.number(),
+  pendingReview: z.number().describe('Rows waiting in the review queue, not stored yet'),
+  rows: z.array(rowReportSchema),
+});
+
+const matchedStatementSchema = storedStatementSchema.extend({
+  refunds: RefundMatchingReportSchema.describe('Refunds of this statement linked to their purchases, and the ones to review'),
+});
+
+const screenedStatementSchema = matchedStatementSchema.extend({
+  anomalies: AnomalyReportSchema.describe('Suspicious charges of this statement, with reasons and severity'),
+});
+
+const ingestionReportSchema = screenedStatementSchema.extend({
+  budgets: BudgetCheckReportSchema.describe('Spending of the statement\'s latest month against the budgets, with warnings to report'),
+});
+
+const parseStatementSource = createStep({
+  id: 'parse-statement',
+  description: 'Parses a CSV, Excel, OFX/QFX, QIF or CAMT.053 statement into typed transaction rows, dropping headers, totals and empty lines',
+  inputSchema: statementSourceSchema,
+  outputSchema: z.object({
+    statementText: z.string(),
+    headerData: statementHeaderSchema.optional().describe('Header read from a structured bank file, no extraction needed'),
+    rows: z.array(ParsedTransactionRowSchema),
+    skippedRows: z.array(SkippedStatementRowSchema),
+    concurrency: z.number(),
+    chunkSize: z.number(),
+    reviewThreshold: z.number().optional(),
+  }),
+  execute: async ({ inputData }) => {
+    if (!inputData) {
+      throw new Error('Input data not found');
+    }
+
+    // Structured bank files map straight to header data and rows
+    if (inputData.bankFileText || inputData.bankFilePath || inputData.bankFileBase64) {
+      const file = parseBankFile(await readBankFileInput({
+        fileText: inputData.bankFileText,
+        filePath: inputData.bankFilePath,
+        fileBase64: inputData.bankFileBase64,
+      }), {
+        format: inputData.bankFileFormat,
+        qifDateOrder: inputData.qifDateOrder,
+        qifCurrency: inputData.qifCurrency,
+      });
+      const statement = selectBankFileStatement(file, inputData.bankFileAccountId);
+
+      console.log(`🧾 Found ${statement.rows.length} transaction rows for account ${statement.accountId} in ${file.format} file`);
+
+      return {
+        statementText: '',
+        headerData: statement.headerData,
+        rows: statement.rows,
+        skippedRows: statement.skippedRows,
+        concurrency: inputData.concurrency,
+        chunkSize: inputData.chunkSize,
+        reviewThreshold: inputData.reviewThreshold,
+      };
+    }
+
+    // Excel workbooks are read locally and flow into the same row pipeline as CSV
+    if (inputData.excelFilePath || inputData.excelBase64) {
+      const workbook = parseStatementWorkbook(await readExcelInput({
+        filePath: inputData.excelFilePath,
+        fileBase64: inputData.excelBase64,
+      }));
+
+      console.log(`🧾 Found ${workbook.rows.length} transaction rows in ${workbook.sheets.length} sheet(s)`);
+
+      return {
+        statementText: workbook.text,
+        rows: workbook.rows,
+        skippedRows: workbook.skippedRows,
+        concurrency: inputData.concurrency,
+        chunkSize: inputData.chunkSize,
+        reviewThreshold: inputData.reviewThreshold,
+      };
+    }
+
+    if (!inputData.csvText) {
+      throw new Error('Provide csvText, excelFilePath, excelBase64, bankFileText, bankFilePath or bankFileBase64');
+    }
+
+    // Deterministic parsing: profile detection, typed values, header/footer rows dropped
+    const statement = parseStatementCsv(inputData.csvText);
+
+    console.log(`🧾 Found ${statement.rows.length} transaction rows in ${statement.profile.displayName} statement`);
+
+    return {
+      statementText: inputData.csvText,
+      rows: statement.rows,
+      skippedRows: statement.skippedRows,
+      concurrency: inputData.concurrency,
+      chunkSize: inputData.chunkSize,
+      reviewThreshold: inputData.reviewThreshold,
+    };
+  },
+});
+
+const extractStatementHeader = createStep({
+  id: 'extract-statement-header',
+  description: 'Extracts card, account, date and total from the statement',
+  inputSchema: z.object({
+    statementText: z.string(),
+    headerData: statementHeaderSchema.optional(),
+    rows: z.array(ParsedTransactionRowSchema),
+    skippedRows: z.array(SkippedStatementRowSchema),
+    concurrency: z.number(),
+    chunkSize: z.number(),
+    reviewThreshold: z.number().optional(),
+  }),
+  outputSchema: z.object({
+    creditCardData: statementHeaderSchema,
+    rows: z.array(ParsedTransactionRowSchema),
+    skippedRows: z.array(SkippedStatementRowSchema),
+    concurrency: z.number(),
+    chunkSize: z.number(),
+    reviewThreshold: z.number().optional(),
+  }),
+  execute: async ({ inputData }) => {
+    if (!inputData) {
+      throw new Error('Parsed statement not found');
+    }
+
+    // Deterministic header parsing first, the LLM only fills in what it could not find
+    const creditCardData = inputData.headerData ?? await extractCreditCardData(inputData.statementText);
+
+    return {
+      creditCardData,
+      rows: inputData.rows,
+      skippedRows: inputData.skippedRows,
+      concurrency: inputData.concurrency,
+      chunkSize: inputData.chunkSize,
+      reviewThreshold: inputData.reviewThreshold,
+    };
+  },
+});
+
+const reconcileStatementTotals = createStep({
+  id: 'reconcile-statement',
+  description: 'Compares the header total with the sum of the parsed rows and flags likely causes of any difference',
+  inputSchema: z.object({
+    creditCardData: statementHeaderSchema,
+    rows: z.array(ParsedTransactionRowSchema),
+    skippedRows: z.array(SkippedStatementRowSchema),
+    concurrency: z.number(),
+    chunkSize: z.number(),
+    reviewThreshold: z.number().optional(),
+  }),
+  outputSchema: z.object({
+    creditCardData: statementHeaderSchema,
+    rows: z.array(ParsedTransactionRowSchema),
+    reconciliation: ReconciliationReportSchema,
+    concurrency: z.number(),
+    chunkSize: z.number(),
+    reviewThreshold: z.number().optional(),
+  }),
+  execute: async ({ inputData }) => {
+    if (!inputData) {
+      throw new Error('Parsed statement not found');
+    }
+
+    const reconciliation = await reconcileStatement({
+      totalAmount: inputData.creditCardData.totalAmount,
+      statementDate: inputData.creditCardData.statementDate,
+      rows: inputData.rows,
+      skippedRows: inputData.skippedRows,
+    });
+
+    if (reconciliation.status === 'mismatch') {
+      console.warn(`⚠️ Statement total ${reconciliation.headerTotal} differs from the rows (${reconciliation.rowsTotal}) by ${reconciliation.difference}`);
+    }
+
+    return {
+      creditCardData: inputData.creditCardData,
+      rows: inputData.rows,
+      reconciliation,
+      concurrency: inputData.concurrency,
+      chunkSize: inputData.chunkSize,
+      reviewThreshold: inputData.reviewThreshold,
+    };
+  },
+});
+
+const analyzeAndStoreRows = createStep({
+  id: 'analyze-and-store-rows',
+  description: "Analyzes the rows in batches and stores them tagged with the statement's card and account, reporting per-row results",
+  inputSchema: z.object({
+    creditCardData: statementHeaderSchema,
+    rows: z.array(ParsedTransactionRowSchema),
+    reconciliation: ReconciliationReportSchema,
+    concurrency: z.number(),
+    chunkSize: z.number(),
+    reviewThreshold: z.number().optional(),
+  }),
+  outputSchema: storedStatementSchema,
+  execute: async ({ inputData }) => {
+    if (!inputData) {
+      throw new Error('Transaction rows not found');
+    }
+
+    const { creditCardData, rows } = inputData;
+
+    // The LLM only summarizes and categorizes; date and amount come from the parsed rows
+    const batch = await analyzeTransactionBatch(
+      rows.map(row => ({ transactionText: formatRowForAnalysis(row), parsedRow: row })),
+      true,
+      {
+        lastFourDigits: creditCardData.lastFourDigits,
+        bankAccountNumber: creditCardData.bankAccountNumber,
+        statementDate: creditCardData.statementDate,
+      },
+      { chunkSize: inputData.chunkSize, concurrency: inputData.concurrency, reviewThreshold: inputData.reviewThreshold }
+    );
+
+    const reports: z.infer<typeof rowReportSchema>[] = batch.results.map(result => {
+      const row = rows[result.index];
+      return {
+        rowNumber: row.rowNumber,
+        sheetName: row.sheetName,
+        transactionDate: row.date,
+        text: row.rawText,
+        status: result.status === 'failed' ? 'failed'
+          : result.status === 'pending_review' ? 'pending_review'
+          : result.isReimport ? 'updated' : 'stored',
+        vectorId: result.vectorId,
+        transactionType: result.analysis?.transactionType,
+        category: result.analysis?.category,
+        possibleDuplicateIds: result.possibleDuplicates.map(duplicate => duplicate.id),
+        error: result.error,
+      };
+    });
+
+    return {
+      creditCardData,
+      reconciliation: inputData.reconciliation,
+      totalRows: reports.length,
+      succeeded: batch.succeeded,
+      failed: batch.failed,
+      pendingReview: batch.pendingReview,
+      rows: reports,
+    };
+  },
+});
+
+const reviewLowConfidenceRows = createStep({
+  id: 'review-low-confidence',
+  description: 'Suspends until the user approves or corrects the rows whose categorization was below the review threshold, then stores them',
+  inputSchema: storedStatementSchema,
+  outputSchema: storedStatementSchema,
+  suspendSchema: z.object({
+    items: z.array(ReviewItemSchema).describe('Rows of this statement waiting for review'),
+  }),
+  resumeSchema: z.object({
+    approveIds: z.array(z.string()).default([]).describe('Rows to store with their suggested category'),
+    corrections: z.array(ReviewCorrectionSchema).default([]).describe('Rows to store with a corrected category or type'),
+  }),
+  execute: async ({ inputData, resumeData, suspend }) => {
+    if (!inputData) {
+      throw new Error('Stored statement not found');
+    }
+
+    const pendingIds = inputData.rows
+      .filter(row => row.status === 'pending_review' && row.vectorId)
+      .map(row => row.vectorId!);
+
+    if (pendingIds.length === 0) {
+      return inputData;
+    }
+
+    if (!resumeData) {
+      console.log(`⏸️ Waiting for review of ${pendingIds.length} low-confidence row(s)`);
+      await suspend({ items: await getReviewQueueStore().list(pendingIds) });
+      // Not passed on: the step runs again with the decision when the workflow resumes
+      return inputData;
+    }
+
+    // Rows left out of the decision stay in the queue for the review tools
+    const reimportIds = new Set((await getReviewQueueStore().list(pendingIds)).filter(item => item.isReimport).map(item => item.id));
+    const resolution = await resolveReviews(resumeData);
+    const corrections = new Map<string, ReviewCorrection>(resumeData.corrections.map((correction: ReviewCorrection) => [correction.id, correction]));
+    const reviewedIds = new Set([...resolution.approvedIds, ...resolution.correctedIds]);
+
+    const rows = inputData.rows.map(row => {
+      if (!row.vectorId || !reviewedIds.has(row.vectorId)) return row;
+
+      const correction = corrections.get(row.vectorId);
+      return {
+        ...row,
+        status: reimportIds.has(row.vectorId) ? 'updated' as const : 'stored' as const,
+        transactionType: correction?.transactionType ?? row.transactionType,
+        category: correction?.category ?? row.category,
+      };
+    });
+
+    return {
+      ...inputData,
+      pendingReview: rows.filter(row => row.status === 'pending_review').length,
+      rows,
+    };
+  },
+});
+
+const matchStatementRefunds = createStep({
+  id: 'match-refunds',
+  description: 'Links the refunds of the statement to the purchases they reverse and lists the ones to review',
+  inputSchema: storedStatementSchema,
+  outputSchema: matchedStatementSchema,
+  execute: async ({ inputData }) => {
+    if (!inputData) {
+      throw new Error('Stored statement not found');
+    }
+
+    // Only this statement's stored rows; refunds of earlier imports were matched when they were stored
+    const storedIds = inputData.rows
+      .filter(row => (row.status === 'stored' || row.status === 'updated') && row.vectorId)
+      .map(row => row.vectorId!);
+
+    const refunds = await matchRefunds({ refundIds: storedIds });
+
+    return { ...inputData, refunds };
+  },
+});
+
+const detectStatementAnomalies = createStep({
+  id: 'detect-anomalies',
+  description: 'Flags suspicious charges of the statement: same-day duplicates, unusual amounts, new foreign merchants and replaced cards',
+  inputSchema: matchedStatementSchema,
+  outputSchema: screenedStatementSchema,
+  execute: async ({ inputData }) => {
+    if (!inputData) {
+      throw new Error('Matched statement not found');
+    }
+
+    const storedIds = inputData.rows
+      .filter(row => (row.status === 'stored' || row.status === 'updated') && row.vectorId)
+      .map(row => row.vectorId!);
+
+    const anomalies = await detectAnomalies({ transactionIds: storedIds });
+
+    return { ...inputData, anomalies };
+  },
+});
+
+const checkStatementBudgets = createStep({
+  id: 'check-budgets',
+  description: 'Compares month-to-date spending with the budgets and projects the end of the month from the current pace',
+  inputSchema: screenedStatementSchema,
+  outputSchema: ingestionReportSchema,
+  execute: async ({ inputData }) => {
+    if (!inputData) {
+      throw new Error('Screened statement not found');
+    }
+
+    // Month to date as of the statement's latest stored transaction (an older statement checks its own month)
+    const latestDate = inputData.rows
+      .filter(row => row.status === 'stored' || row.status === 'updated')
+      .map(row => row.transactionDate)
+      .sort()
+      .pop();
+
+    const budgets = await checkBudgets({ asOf: latestDate });
+
+    return { ...inputData, budgets };
+  },
+});
+
+const statementIngestionWorkflow = createWorkflow({
+  id: 'statement-ingestion-workflow',
+  inputSchema: statementSourceSchema,
+  outputSchema: ingestionReportSchema,
+})
+  .then(parseStatementSource)
+  .then(extractStatementHeader)
+  .then(reconcileStatementTotals)
+  .then(analyzeAndStoreRows)
+  .then(reviewLowConfidenceRows)
+  .then(matchStatementRefunds)
+  .then(detectStatementAnomalies)
+  .then(checkStatementBudgets);
+
+statementIngestionWorkflow.commit();
+
+export { statementIngestionWorkflow };
@@ -0,0 +1,57 @@
+// Export stored transactions to a file
+//
+//   npm run export-transactions -- --format csv --from 2026-01-01 --to 2026-03-31
+//   npm run export-transactions -- --format ynab --from 2026-01-01 --to 2026-03-31 --card 1234 --out exports/ynab.csv
+//
+// Formats: csv, json, ofx, qif, ynab, actual. Filters: --category, --type, --card, --account, --member, --currency.
+// Without --out the file is written to exports/transactions-<from>-<to>.<extension>.
+
+import 'dotenv/config';
+import { ExportFormatSchema } from '../mastra/tools/account-statement/types';
+import { writeTransactionExport } from '../mastra/tools/account-statement/transaction-export';
+
+const FILTER_OPTIONS = {
+  '--category': 'category',
+  '--type': 'transactionType',
+  '--card': 'cardLastFour',
+  '--account': 'bankAccountNumber',
+  '--member': 'memberId',
+  '--currency': 'currency',
+} as const;
+
+const parseArgs = (argv: string[]): Map<string, string> => {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i += 2) {
+    if (!argv[i].startsWith('--') || argv[i + 1] === undefined) {
+      throw new Error(`Expected "--option value", got "${argv[i]}"`);
+    }
+    args.set(argv[i], argv[i + 1]);
+  }
+  return args;
+};
+
+const main = async (): Promise<void> => {
+  const args = parseArgs(process.argv.slice(2));
+  const format = ExportFormatSchema.parse(args.get('--format'));
+  const fromDate = args.get('--from');
+  const toDate = args.get('--to');
+  if (!fromDate || !toDate) {
+    throw new Error('--from and --to (YYYY-MM-DD) are required');
+  }
+
+  const filters = Object.fromEntries(
+    Object.entries(FILTER_OPTIONS)
+      .filter(([option]) => args.has(option))
+      .map(([option, filter]) => [filter, args.get(option)])
+  );
+  const extension = format === 'ynab' || format === 'actual' ? 'csv' : format;
+  const outputPath = args.get('--out') ?? `exports/transactions-${fromDate}-${toDate}.${extension}`;
+
+  const result = await writeTransactionExport({ format, fromDate, toDate, filters, outputPath });
+  console.log(JSON.stringify({ format, transactionCount: result.transactionCount, outputPath: result.outputPath, unconverted: result.unconverted }, null, 2));
+};
+
+main().catch(error => {
+  console.error('❌ Transaction export failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,25 @@
+// Rebuild the vector index from the transaction ledger
+//
+//   npm run rebuild-vector-index              re-index every ledger transaction
+//   npm run rebuild-vector-index -- --prune   also delete vectors the ledger does not have
+//   npm run rebuild-vector-index -- --backfill
+//                                             first record vectors stored before the ledger existed
+
+import 'dotenv/config';
+import { backfillLedger, rebuildVectorIndex } from '../mastra/tools/account-statement/vector-index-rebuild';
+
+const args = new Set(process.argv.slice(2));
+
+const main = async (): Promise<void> => {
+  if (args.has('--backfill')) {
+    await backfillLedger();
+  }
+
+  const result = await rebuildVectorIndex({ prune: args.has('--prune') });
+  console.log(JSON.stringify(result, null, 2));
+};
+
+main().catch(error => {
+  console.error('❌ Vector index rebuild failed:', error);
+  process.exit(1);
+});